@@ -228,7 +228,9 @@ class ThemeAnalysisService {
         }
     }
 
-    /// Saves theme selection to user profile
+    /// Saves theme selection to user profile through confirm-themes, which
+    /// checks it against the analysis it was picked from (the profile's
+    /// theme columns can't be written from the app)
     func saveThemeSelection(
         selectedThemes: [String],
         analyzedAt: Date
@@ -237,10 +239,6 @@ class ThemeAnalysisService {
             throw ThemeAnalysisError.serverError
         }
 
-        guard let userId = try? await SupabaseService.shared.getCurrentUser()?.id else {
-            throw ThemeAnalysisError.serverError
-        }
-
         // ISO8601 formatter with fractional seconds (iOS 15+ only)
         let formatter = ISO8601DateFormatter()
         if #available(iOS 15.0, *) {
@@ -252,24 +250,20 @@ class ThemeAnalysisService {
         AppLogger.log("💾 Saving theme selection: \(selectedThemes.count) themes",
                      category: AppLogger.network)
 
-        // Create encodable update payload
-        struct ThemeSelectionUpdate: Encodable {
-            let identified_themes: [String]
-            let theme_selection_count: Int
-            let themes_analyzed_at: String
+        struct ConfirmThemesRequest: Encodable {
+            let themes: [String]
+            let analyzedAt: String
         }
 
-        let updateData = ThemeSelectionUpdate(
-            identified_themes: selectedThemes,
-            theme_selection_count: selectedThemes.count,
-            themes_analyzed_at: formatter.string(from: analyzedAt)
+        let request = ConfirmThemesRequest(
+            themes: selectedThemes,
+            analyzedAt: formatter.string(from: analyzedAt)
         )
 
-        try await supabase
-            .from("user_profiles")
-            .update(updateData)
-            .eq("user_id", value: userId.uuidString)
-            .execute()
+        try await supabase.functions.invoke(
+            "confirm-themes",
+            options: FunctionInvokeOptions(body: request)
+        )
 
         AppLogger.log("✅ Theme selection saved", category: AppLogger.network)
     }
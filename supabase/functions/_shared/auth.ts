@@ -3,48 +3,92 @@
 // Authentication helper functions shared across edge functions
 //
 // Purpose:
-// - Extract and validate JWT tokens from requests
-// - Create authenticated Supabase clients
-// - Get current user from JWT
-// - Return standardized error responses for auth failures
+// - Extract the JWT from the Authorization header
+// - Create a Supabase client that acts as the user (RLS applies)
+// - Resolve the current user, or fail with AUTH_REQUIRED / AUTH_FAILED
+// - Admit only the service-role key on admin functions (FORBIDDEN otherwise)
+// - Create a service-role client for columns users may read but not write
 //
 // Usage:
-// import { authenticateUser, createAuthenticatedClient } from '../_shared/auth.ts'
-
-// TODO: Import dependencies
-// import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-// TODO: Implement createAuthenticatedClient()
-// export function createAuthenticatedClient(authHeader: string) {
-//   return createClient(
-//     Deno.env.get('SUPABASE_URL') ?? '',
-//     Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-//     { global: { headers: { Authorization: authHeader } } }
-//   )
-// }
-
-// TODO: Implement authenticateUser()
-// export async function authenticateUser(req: Request) {
-//   const authHeader = req.headers.get('Authorization')
-//
-//   if (!authHeader) {
-//     throw new Error('Missing authorization header')
-//   }
-//
-//   const supabase = createAuthenticatedClient(authHeader)
-//   const { data: { user }, error } = await supabase.auth.getUser()
-//
-//   if (error || !user) {
-//     throw new Error('Unauthorized')
-//   }
-//
-//   return { user, supabase }
-// }
-
-// TODO: Export auth error response helper
-// export function authErrorResponse(message: string): Response {
-//   return new Response(
-//     JSON.stringify({ error: message }),
-//     { status: 401, headers: { 'Content-Type': 'application/json' } }
-//   )
-// }
+// import { authenticateUser, createAuthenticatedClient, createServiceClient } from '../_shared/auth.ts'
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { HttpError } from './errors.ts';
+import { describeError, log } from './logger.ts';
+import { isServiceRoleRequest } from './rate-limit.ts';
+import { SharedErrorCode } from './types.ts';
+import type { User } from './types.ts';
+
+export interface AuthResult {
+  user: User;
+  supabase: SupabaseClient;  // Client scoped to the user's JWT (service role: bypasses RLS)
+}
+
+/**
+ * Stand-in user for service-role callers (logged as the user ID)
+ */
+export const SERVICE_ROLE_USER: User = { id: 'service_role' };
+
+/**
+ * Supabase client that forwards the caller's JWT
+ */
+export function createAuthenticatedClient(authHeader: string): SupabaseClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+}
+
+/**
+ * Supabase client with the service-role key (bypasses RLS and column
+ * grants), or null when the key isn't configured
+ */
+export function createServiceClient(): SupabaseClient | null {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceKey) return null;
+  return createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey, {
+    auth: { persistSession: false }
+  });
+}
+
+/**
+ * Authenticate the request's user
+ * Throws HttpError(401) when the header is missing or the JWT is invalid
+ */
+export async function authenticateUser(req: Request): Promise<AuthResult> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    throw new HttpError(401, SharedErrorCode.AUTH_REQUIRED, 'Missing authorization header');
+  }
+
+  const supabase = createAuthenticatedClient(authHeader);
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    log.warn('Auth failed', { error: error ? describeError(error) : 'no user' });
+    throw new HttpError(401, SharedErrorCode.AUTH_FAILED, 'Unauthorized');
+  }
+
+  return { user, supabase };
+}
+
+/**
+ * Authenticate a service-role caller (admin tools, scripts)
+ * Throws HttpError(401) when the header is missing, HttpError(403) for any
+ * other token, including valid user JWTs. Nothing to look up, so no promise
+ */
+export function authenticateServiceRole(req: Request): AuthResult {
+  if (!req.headers.get('Authorization')) {
+    throw new HttpError(401, SharedErrorCode.AUTH_REQUIRED, 'Missing authorization header');
+  }
+
+  const supabase = createServiceClient();
+  if (!supabase || !isServiceRoleRequest(req)) {
+    log.warn('Service role required', { configured: !!supabase });
+    throw new HttpError(403, SharedErrorCode.FORBIDDEN, 'Forbidden');
+  }
+
+  return { user: SERVICE_ROLE_USER, supabase };
+}
@@ -1,27 +1,69 @@
 // _shared/cors.ts
 //
-// Common CORS (Cross-Origin Resource Sharing) headers
+// CORS (Cross-Origin Resource Sharing) headers with an origin allowlist
 // Used across all edge functions
 //
 // Purpose:
-// - Define CORS headers for browser requests
-// - Handle preflight OPTIONS requests
-// - Allow requests from Swift app and web browsers
+// - Allow browser requests only from configured origins
+// - Allow requests without an Origin header (Swift app, server-to-server)
+// - Build preflight responses for OPTIONS requests
+//
+// Configuration (env):
+// - ALLOWED_ORIGINS   Comma-separated origins, e.g.
+//                     https://meetmemento.app,http://localhost:3000
+//                     '*' allows any origin (local development only)
+//                     Unset: no browser origins are allowed
 //
 // Usage:
-// import { corsHeaders } from '../_shared/cors.ts'
+// import { buildCorsHeaders, isOriginAllowed } from '../_shared/cors.ts'
+
+const ALLOWED_HEADERS = 'authorization, x-client-info, apikey, content-type, x-request-id, idempotency-key';
+const EXPOSED_HEADERS = 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-Request-Id, Idempotent-Replayed';
+
+/**
+ * Origins from ALLOWED_ORIGINS (trailing slashes removed)
+ */
+export function getAllowedOrigins(): string[] {
+  return (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(origin => origin.length > 0);
+}
+
+/**
+ * Requests without an Origin header are not browser cross-origin requests
+ * and are always allowed
+ */
+export function isOriginAllowed(origin: string | null): boolean {
+  if (!origin) return true;
+  const allowed = getAllowedOrigins();
+  return allowed.includes('*') || allowed.includes(origin);
+}
 
-// TODO: Export CORS headers object
-// export const corsHeaders = {
-//   'Access-Control-Allow-Origin': '*',
-//   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-//   'Access-Control-Allow-Methods': 'POST, GET, OPTIONS, PUT, DELETE',
-// }
+/**
+ * CORS headers for a request; the origin is echoed only when allowed
+ */
+export function buildCorsHeaders(req: Request, methods: string[]): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', '),
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+    'Vary': 'Origin'
+  };
 
-// TODO: Export helper function for OPTIONS requests
-// export function handleCorsPrelight(): Response {
-//   return new Response('ok', { headers: corsHeaders })
-// }
+  const origin = req.headers.get('Origin');
+  if (origin && isOriginAllowed(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  return headers;
+}
 
-// Note: In production, you might want to restrict 'Access-Control-Allow-Origin'
-// to specific domains instead of '*' for better security
+/**
+ * Response to an OPTIONS preflight (403 for disallowed origins)
+ */
+export function handleCorsPreflight(req: Request, methods: string[]): Response {
+  if (!isOriginAllowed(req.headers.get('Origin'))) {
+    return new Response('Origin not allowed', { status: 403, headers: { 'Vary': 'Origin' } });
+  }
+  return new Response('ok', { headers: buildCorsHeaders(req, methods) });
+}
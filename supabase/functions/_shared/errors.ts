@@ -0,0 +1,22 @@
+// _shared/errors.ts
+//
+// Error type for failures that map directly to an HTTP response
+//
+// Thrown by the shared pipeline (auth, body parsing) and by handlers;
+// createHandler() turns it into the standard error envelope.
+//
+// Usage:
+// import { HttpError } from '../_shared/errors.ts'
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly extras: { retryAfter?: number; details?: string[] } = {},
+    public readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
@@ -0,0 +1,262 @@
+// _shared/http.ts
+//
+// Request pipeline shared by edge functions
+//
+// createHandler() runs every request through the same steps before the
+// function's own logic:
+//   1. CORS preflight and origin allowlist (cors.ts)
+//   2. Method check
+//   3. Per-IP rate limit (rate-limit.ts)
+//   4. Authentication (auth.ts): the user's JWT, or the service-role key
+//      for admin functions (`auth: 'service'`)
+//   5. Per-user rate limit
+//   6. JSON body parsing with a size limit
+// Errors are returned in one envelope ({ error, code, retryAfter?, details? })
+// with CORS headers on every response, including failures.
+// Each request gets a correlation ID (logger.ts): it tags every log line
+// written while handling the request and is echoed in X-Request-Id.
+//
+// Usage:
+// import { createHandler, jsonResponse } from '../_shared/http.ts'
+//
+// serve(createHandler({ name: 'my-function', rateLimits }, async ({ user, supabase, body }) => {
+//   return jsonResponse({ ok: true }, 200);
+// }));
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { authenticateServiceRole, authenticateUser } from './auth.ts';
+import type { AuthResult } from './auth.ts';
+import { buildCorsHeaders, handleCorsPreflight, isOriginAllowed } from './cors.ts';
+import { HttpError } from './errors.ts';
+import { describeError, isDevMode, log, REQUEST_ID_HEADER, requestIdFrom, runWithLogContext, setLogUser } from './logger.ts';
+import { checkRateLimit, getClientIp, rateLimitHeaders } from './rate-limit.ts';
+import type { RateLimitPolicy, RateLimitResult } from './rate-limit.ts';
+import { SharedErrorCode } from './types.ts';
+import type { ErrorResponse, User } from './types.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface HandlerOptions {
+  name: string;                   // Function name (rate limit buckets)
+  methods?: string[];             // Allowed methods besides OPTIONS (default: POST)
+  maxBodyBytes?: number;          // JSON body limit (default: 64 KB)
+  rateLimits?: RateLimitPolicy;   // Per-user / per-IP buckets (default: none)
+  auth?: 'user' | 'service';      // Who may call (default: any signed-in user)
+  allowEmptyBody?: boolean;       // Empty body parses as {} (default: INVALID_JSON)
+}
+
+export interface RequestContext {
+  req: Request;
+  requestId: string;              // Also in X-Request-Id and every log line
+  user: User;
+  supabase: SupabaseClient;       // Client scoped to the user's JWT (or service role)
+  body: Record<string, unknown>;  // Parsed JSON object ({} for GET)
+}
+
+export type RequestHandler = (ctx: RequestContext) => Promise<Response>;
+
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+const METHODS_WITH_BODY = new Set(['POST', 'PUT', 'PATCH']);
+
+// ============================================================
+// PIPELINE
+// ============================================================
+
+/**
+ * Wrap a function's handler in the shared pipeline
+ */
+export function createHandler(
+  options: HandlerOptions,
+  handle: RequestHandler
+): (req: Request) => Promise<Response> {
+  const methods = options.methods ?? ['POST'];
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const rateLimits = options.rateLimits ?? {};
+  const authenticate = async (req: Request): Promise<AuthResult> =>
+    options.auth === 'service' ? authenticateServiceRole(req) : await authenticateUser(req);
+
+  return (req: Request): Promise<Response> => {
+    const requestId = requestIdFrom(req);
+    return runWithLogContext(options.name, requestId, () => runPipeline(req, requestId));
+  };
+
+  async function runPipeline(req: Request, requestId: string): Promise<Response> {
+    if (req.method === 'OPTIONS') {
+      const preflight = handleCorsPreflight(req, methods);
+      preflight.headers.set(REQUEST_ID_HEADER, requestId);
+      return preflight;
+    }
+
+    const request = log.span('request', { method: req.method });
+    const corsHeaders = buildCorsHeaders(req, methods);
+    let response: Response;
+
+    try {
+      if (!isOriginAllowed(req.headers.get('Origin'))) {
+        throw new HttpError(403, SharedErrorCode.ORIGIN_NOT_ALLOWED, 'Origin not allowed');
+      }
+
+      if (!methods.includes(req.method)) {
+        throw new HttpError(
+          405,
+          SharedErrorCode.METHOD_NOT_ALLOWED,
+          'Method not allowed',
+          {},
+          { 'Allow': [...methods, 'OPTIONS'].join(', ') }
+        );
+      }
+
+      // Per-IP limit first: rejects floods before any auth round-trip
+      const ipLimit = await checkRateLimit(req, options.name, 'ip', getClientIp(req), rateLimits);
+      if (ipLimit && !ipLimit.allowed) throw rateLimitedError(ipLimit);
+
+      const { user, supabase } = await log.time('auth', () => authenticate(req));
+      setLogUser(user.id);
+
+      const userLimit = await checkRateLimit(req, options.name, 'user', user.id, rateLimits);
+      if (userLimit && !userLimit.allowed) {
+        log.warn('Rate limited', { scope: 'user', retryAfter: userLimit.retryAfter });
+        throw rateLimitedError(userLimit);
+      }
+
+      const body = METHODS_WITH_BODY.has(req.method)
+        ? await readJsonBody(req, maxBodyBytes, options.allowEmptyBody)
+        : {};
+
+      response = await handle({ req, requestId, user, supabase, body });
+    } catch (error) {
+      response = errorToResponse(error);
+    }
+
+    for (const [name, value] of Object.entries(corsHeaders)) {
+      response.headers.set(name, value);
+    }
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    request.end({ status: response.status });
+    return response;
+  }
+}
+
+// ============================================================
+// RESPONSES
+// ============================================================
+
+/**
+ * JSON response; CORS headers are added by createHandler()
+ */
+export function jsonResponse(
+  data: unknown,
+  status: number,
+  extraHeaders: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      ...extraHeaders,
+      'Content-Type': 'application/json'
+    }
+  });
+}
+
+/**
+ * Response in the standard error envelope
+ * `debug` (dev mode only) is dropped unless DEV_MODE=true, so call sites
+ * can pass it unconditionally
+ */
+export function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  extras: Omit<ErrorResponse, 'error' | 'code'> = {},
+  extraHeaders: Record<string, string> = {}
+): Response {
+  const { debug, ...rest } = extras;
+  const body: ErrorResponse = { error: message, code, ...rest };
+  if (debug !== undefined && isDevMode()) body.debug = debug;
+  return jsonResponse(body, status, extraHeaders);
+}
+
+function errorToResponse(error: unknown): Response {
+  if (error instanceof HttpError) {
+    return errorResponse(error.status, error.code, error.message, error.extras, error.headers);
+  }
+
+  log.error('Unhandled error', { error: describeError(error, true) });
+  return errorResponse(
+    500,
+    SharedErrorCode.INTERNAL_ERROR,
+    'Something went wrong. Please try again.',
+    { debug: describeError(error, true) }
+  );
+}
+
+function rateLimitedError(limit: RateLimitResult): HttpError {
+  return new HttpError(
+    429,
+    SharedErrorCode.RATE_LIMITED,
+    'Too many requests. Please try again later.',
+    { retryAfter: limit.retryAfter },
+    rateLimitHeaders(limit)
+  );
+}
+
+// ============================================================
+// BODY PARSING
+// ============================================================
+
+/**
+ * Read a JSON object body, rejecting anything over maxBytes
+ * The stream is read incrementally, so oversized bodies without a
+ * Content-Length header are cut off early too
+ */
+export async function readJsonBody(req: Request, maxBytes: number, allowEmpty = false): Promise<Record<string, unknown>> {
+  const tooLarge = new HttpError(
+    413,
+    SharedErrorCode.PAYLOAD_TOO_LARGE,
+    `Request body must be at most ${maxBytes} bytes`
+  );
+
+  const declared = Number(req.headers.get('Content-Length'));
+  if (Number.isFinite(declared) && declared > maxBytes) throw tooLarge;
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  if (req.body) {
+    const reader = req.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw tooLarge;
+      }
+      chunks.push(value);
+    }
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  if (allowEmpty && text.trim().length === 0) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, SharedErrorCode.INVALID_JSON, 'Invalid JSON body');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new HttpError(400, SharedErrorCode.INVALID_JSON, 'JSON body must be an object');
+  }
+  return parsed as Record<string, unknown>;
+}
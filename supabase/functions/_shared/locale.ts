@@ -0,0 +1,194 @@
+// _shared/locale.ts
+//
+// Request locale and offline language detection
+//
+// Purpose:
+// - Validate the optional `locale` request field (BCP 47, e.g. 'es', 'pt-BR')
+// - Detect the language of user text when no locale is sent: by script for
+//   non-Latin text, by common function words for Latin-script languages
+// - Resolve one locale per request: request field, then detection, then
+//   Accept-Language, then English
+//
+// Detection is a heuristic over short personal text; an explicit `locale`
+// always wins. Nothing here logs user text.
+//
+// Usage:
+// import { parseLocaleParam, resolveLocale } from '../_shared/locale.ts'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type LocaleSource = 'request' | 'detected' | 'header' | 'default';
+
+export interface ResolvedLocale {
+  locale: string;            // Full tag for region-specific data ('es-MX')
+  language: string;          // Lowercase base language ('es')
+  source: LocaleSource;
+}
+
+export type LocaleParamResult =
+  | { ok: true; locale: string | null }
+  | { ok: false; error: string };
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const DEFAULT_LANGUAGE = 'en';
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(?:[-_][a-z0-9]{2,8})*$/i;
+
+const MIN_DETECTION_LETTERS = 12;
+const MIN_STOPWORD_HITS = 2;
+const SCRIPT_SHARE = 0.3;          // Share of letters a script needs to decide
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', es: 'Spanish', fr: 'French', de: 'German', pt: 'Portuguese',
+  it: 'Italian', nl: 'Dutch', sv: 'Swedish', pl: 'Polish', tr: 'Turkish',
+  ru: 'Russian', uk: 'Ukrainian', el: 'Greek', ar: 'Arabic', he: 'Hebrew',
+  hi: 'Hindi', th: 'Thai', ja: 'Japanese', ko: 'Korean', zh: 'Chinese'
+};
+
+// Scripts that decide the language on their own (checked in order:
+// kana before Han, since Japanese mixes both)
+const SCRIPTS: Array<{ language: string; pattern: RegExp }> = [
+  { language: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { language: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { language: 'zh', pattern: /\p{Script=Han}/gu },
+  { language: 'ru', pattern: /\p{Script=Cyrillic}/gu },
+  { language: 'el', pattern: /\p{Script=Greek}/gu },
+  { language: 'ar', pattern: /\p{Script=Arabic}/gu },
+  { language: 'he', pattern: /\p{Script=Hebrew}/gu },
+  { language: 'hi', pattern: /\p{Script=Devanagari}/gu },
+  { language: 'th', pattern: /\p{Script=Thai}/gu }
+];
+
+// Frequent function words; distinctive ones only, so shared words such as
+// "a" or "de" don't decide between languages
+const STOPWORDS: Record<string, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'was', 'i', 'my', 'to', 'of', 'it', 'that', 'with', 'have', 'feel', 'been', 'this', 'but', 'about', 'am']),
+  es: new Set(['el', 'la', 'los', 'las', 'y', 'que', 'es', 'mi', 'con', 'por', 'para', 'pero', 'muy', 'estoy', 'me', 'siento', 'una', 'del']),
+  fr: new Set(['le', 'les', 'et', 'est', 'je', 'mon', 'ma', 'avec', 'pour', 'mais', 'très', 'suis', 'une', 'des', 'pas', 'du', 'sens', 'ai']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'ich', 'mein', 'meine', 'mit', 'für', 'aber', 'sehr', 'bin', 'nicht', 'ein', 'eine', 'fühle', 'habe']),
+  pt: new Set(['o', 'os', 'e', 'é', 'eu', 'meu', 'minha', 'com', 'mas', 'muito', 'estou', 'não', 'um', 'uma', 'sinto', 'do', 'da', 'isso']),
+  it: new Set(['il', 'lo', 'gli', 'e', 'è', 'io', 'mio', 'mia', 'con', 'per', 'ma', 'molto', 'sono', 'non', 'un', 'una', 'mi', 'sento']),
+  nl: new Set(['de', 'het', 'en', 'is', 'ik', 'mijn', 'met', 'voor', 'maar', 'erg', 'ben', 'niet', 'een', 'voel', 'heb', 'dat', 'van', 'ook'])
+};
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Validate the optional `locale` request field
+ * Returns the canonical tag ('pt_br' -> 'pt-BR'), or null when absent
+ */
+export function parseLocaleParam(value: unknown): LocaleParamResult {
+  if (value === undefined || value === null || value === '') {
+    return { ok: true, locale: null };
+  }
+  if (typeof value !== 'string' || !LOCALE_PATTERN.test(value.trim())) {
+    return { ok: false, error: 'locale must be a language tag such as "en", "es" or "pt-BR"' };
+  }
+
+  const [language, ...rest] = value.trim().split(/[-_]/);
+  const subtags = rest.map(part => part.length === 2 ? part.toUpperCase() : part.toLowerCase());
+  return { ok: true, locale: [language.toLowerCase(), ...subtags].join('-') };
+}
+
+/**
+ * Best-guess language of some text (null when too short or unclear)
+ */
+export function detectLanguage(text: string): string | null {
+  const letters = countLetters(text);
+  if (letters < MIN_DETECTION_LETTERS) return null;
+
+  for (const { language, pattern } of SCRIPTS) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count / letters >= SCRIPT_SHARE) {
+      // Ukrainian-only Cyrillic letters
+      if (language === 'ru' && /[іїєґ]/iu.test(text)) return 'uk';
+      return language;
+    }
+  }
+
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  let best: string | null = null;
+  let bestHits = 0;
+  let runnerUpHits = 0;
+
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const hits = words.filter(word => stopwords.has(word)).length;
+    if (hits > bestHits) {
+      runnerUpHits = bestHits;
+      best = language;
+      bestHits = hits;
+    } else if (hits > runnerUpHits) {
+      runnerUpHits = hits;
+    }
+  }
+
+  return best && bestHits >= MIN_STOPWORD_HITS && bestHits > runnerUpHits ? best : null;
+}
+
+/**
+ * One locale for the request: explicit field, detected from the texts,
+ * Accept-Language, then English
+ */
+export function resolveLocale(requested: string | null, texts: string[], req: Request): ResolvedLocale {
+  if (requested) {
+    return { locale: requested, language: baseLanguage(requested), source: 'request' };
+  }
+
+  const detected = detectLanguage(texts.join('\n'));
+  const header = headerLocale(req);
+
+  if (detected) {
+    // Keep the header's region when it agrees ('es-MX' for Spanish text)
+    const locale = header && baseLanguage(header) === detected ? header : detected;
+    return { locale, language: detected, source: 'detected' };
+  }
+  if (header) {
+    return { locale: header, language: baseLanguage(header), source: 'header' };
+  }
+  return { locale: DEFAULT_LANGUAGE, language: DEFAULT_LANGUAGE, source: 'default' };
+}
+
+/**
+ * English name of a language for prompts ('es' -> 'Spanish')
+ */
+export function languageName(language: string): string {
+  return LANGUAGE_NAMES[language] ?? language;
+}
+
+/**
+ * Letters in any script (used instead of [a-zA-Z] for content checks)
+ */
+export function countLetters(text: string): number {
+  return text.match(/\p{L}/gu)?.length ?? 0;
+}
+
+/**
+ * Scripts written without spaces between words, where keyword matching
+ * must use substrings instead of word boundaries
+ */
+export function isUnspacedLanguage(language: string): boolean {
+  return language === 'ja' || language === 'zh' || language === 'th';
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function baseLanguage(locale: string): string {
+  return locale.split(/[-_]/)[0].toLowerCase();
+}
+
+function headerLocale(req: Request): string | null {
+  const header = req.headers.get('Accept-Language');
+  const first = header?.split(',')[0]?.split(';')[0]?.trim();
+  if (!first || first === '*') return null;
+  const parsed = parseLocaleParam(first);
+  return parsed.ok ? parsed.locale : null;
+}
@@ -0,0 +1,227 @@
+// _shared/logger.ts
+//
+// Structured, privacy-safe logging with request correlation
+//
+// Purpose:
+// - One JSON object per line: { ts, level, msg, fn, requestId, ...fields }
+// - Levels (debug < info < warn < error), filtered by LOG_LEVEL
+// - Every line logged while handling a request carries that request's ID
+//   (also echoed in the X-Request-Id response header by createHandler)
+// - Timing spans for pipeline and function steps (auth, cache, model)
+//
+// Journal text must never reach the logs. Fields are scrubbed before
+// writing: values under content-bearing keys (content, text, title,
+// entries, prompt, response, …) are replaced by their length, emails are
+// masked, long strings are truncated and errors keep only name and message
+// (stack traces at debug level). Messages are plain text written by us:
+// put values in fields, never interpolate user text into a message.
+//
+// Environment:
+// - LOG_LEVEL  debug | info | warn | error (default: info)
+// - DEV_MODE   'true' adds debug payloads to error responses (never in production)
+//
+// Usage:
+// import { log } from '../_shared/logger.ts'
+//
+// log.info('Cache hit', { hash: snapshot.hash.substring(0, 12) });
+// const span = log.span('model');
+// ...
+// span.end({ tokens: 1200 });
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Span {
+  end(fields?: LogFields): number;   // Logs "<name> done" with durationMs; returns it
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  span(name: string, fields?: LogFields): Span;
+  time<T>(name: string, task: () => Promise<T>, fields?: LogFields): Promise<T>;
+}
+
+interface LogContext {
+  fn: string;
+  requestId: string;
+  userId?: string;   // First 8 characters only
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Keys whose values may hold journal or model text
+const SCRUBBED_KEYS = new Set([
+  'content', 'text', 'title', 'titles', 'entries', 'entry', 'body',
+  'selfreflectiontext', 'reflection', 'prompt', 'messages', 'response',
+  'responsetext', 'completion', 'summary', 'description', 'annotations',
+  'excerpt', 'raw'
+]);
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const MAX_STRING_LENGTH = 200;
+const MAX_DEPTH = 4;
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Logger bound to the current request (via async context), so modules can
+ * import it directly instead of threading it through every call
+ */
+export const log: Logger = {
+  debug: (msg, fields) => write('debug', msg, fields),
+  info: (msg, fields) => write('info', msg, fields),
+  warn: (msg, fields) => write('warn', msg, fields),
+  error: (msg, fields) => write('error', msg, fields),
+  span: (name, fields) => startSpan(name, fields),
+  time: async (name, task, fields) => {
+    const span = startSpan(name, fields);
+    try {
+      const result = await task();
+      span.end();
+      return result;
+    } catch (error) {
+      span.end({ failed: true });
+      throw error;
+    }
+  }
+};
+
+/**
+ * Run a request handler with its log context; everything awaited inside
+ * (including background tasks started from it) logs with this request ID
+ */
+export function runWithLogContext<T>(fn: string, requestId: string, task: () => T): T {
+  return storage.run({ fn, requestId }, task);
+}
+
+/**
+ * Attach the authenticated user (shortened) to the current log context
+ */
+export function setLogUser(userId: string): void {
+  const context = storage.getStore();
+  if (context) context.userId = userId.substring(0, 8);
+}
+
+/**
+ * Correlation ID: the caller's X-Request-Id when well-formed, else a new UUID
+ */
+export function requestIdFrom(req: Request): string {
+  const incoming = req.headers.get(REQUEST_ID_HEADER)?.trim();
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+/**
+ * Whether debug payloads may be included in responses
+ */
+export function isDevMode(): boolean {
+  return Deno.env.get('DEV_MODE') === 'true';
+}
+
+/**
+ * Error summary for logs and dev-mode responses (stack only when asked)
+ */
+export function describeError(error: unknown, includeStack = false): LogFields {
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: scrubString(error.message),
+      ...(includeStack && error.stack ? { stack: error.stack } : {})
+    };
+  }
+  if (error && typeof error === 'object') {
+    // Supabase/PostgREST errors are plain objects
+    const { code, message, details, hint } = error as Record<string, unknown>;
+    return scrubValue({ code, message, details, hint }, 0) as LogFields;
+  }
+  return { message: scrubString(String(error)) };
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < LEVELS[minLevel()]) return;
+
+  const context = storage.getStore();
+  const line = JSON.stringify({
+    ts: new Date().toISOString(),
+    level,
+    msg,
+    ...(context ?? {}),
+    ...(scrubValue(fields, 0) as LogFields)
+  });
+
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+function startSpan(name: string, fields?: LogFields): Span {
+  const startedAt = performance.now();
+  return {
+    end: (endFields?: LogFields) => {
+      const durationMs = Math.round(performance.now() - startedAt);
+      write('info', `${name} done`, { span: name, durationMs, ...fields, ...endFields });
+      return durationMs;
+    }
+  };
+}
+
+function minLevel(): LogLevel {
+  const configured = Deno.env.get('LOG_LEVEL')?.toLowerCase();
+  return configured && configured in LEVELS ? configured as LogLevel : 'info';
+}
+
+function scrubValue(value: unknown, depth: number): unknown {
+  if (value instanceof Error) return describeError(value, minLevel() === 'debug');
+  if (typeof value === 'string') return scrubString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    return value.slice(0, 20).map(item => scrubValue(item, depth + 1));
+  }
+
+  const result: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SCRUBBED_KEYS.has(key.toLowerCase()) && item !== undefined && item !== null
+      ? redactedSize(item)
+      : scrubValue(item, depth + 1);
+  }
+  return result;
+}
+
+function scrubString(value: string): string {
+  const masked = value.replace(EMAIL_PATTERN, '[email]');
+  return masked.length > MAX_STRING_LENGTH
+    ? `${masked.substring(0, MAX_STRING_LENGTH)}… [${masked.length} chars]`
+    : masked;
+}
+
+function redactedSize(value: unknown): string {
+  if (typeof value === 'string') return `[redacted ${value.length} chars]`;
+  if (Array.isArray(value)) return `[redacted ${value.length} items]`;
+  return '[redacted]';
+}
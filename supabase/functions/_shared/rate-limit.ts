@@ -0,0 +1,192 @@
+// _shared/rate-limit.ts
+//
+// Token-bucket rate limiting shared across edge functions
+//
+// Purpose:
+// - Limit requests per user and per client IP, separately for each function
+// - Keep bucket state in Postgres (rate_limit_buckets) so limits hold across
+//   edge function instances; consume_rate_limit() refills and takes tokens
+//   atomically under a row lock
+// - Let service-role callers (cron jobs, admin scripts) bypass limits
+//
+// Configuration (env):
+// - RATE_LIMIT_ENABLED                 'false' disables all limits (default: enabled)
+// - RATE_LIMIT_<FUNCTION>_<SCOPE>      'capacity,refillPerHour' override, e.g.
+//                                      RATE_LIMIT_GENERATE_INSIGHTS_USER=10,10
+// - SUPABASE_SERVICE_ROLE_KEY          Used to call the RPC (and to detect bypass)
+//
+// Usage:
+// import { checkRateLimit, rateLimitHeaders } from '../_shared/rate-limit.ts'
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { log } from './logger.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type RateLimitScope = 'user' | 'ip';
+
+/**
+ * One token bucket: `capacity` requests in a burst, refilled continuously
+ */
+export interface RateLimitRule {
+  capacity: number;
+  refillPerHour: number;
+}
+
+/**
+ * Default limits for a function; a missing scope is not limited
+ */
+export type RateLimitPolicy = Partial<Record<RateLimitScope, RateLimitRule>>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  scope: RateLimitScope;
+  limit: number;             // Bucket capacity
+  remaining: number;         // Whole tokens left after this request
+  retryAfter: number;        // Seconds until a token is available (0 if allowed)
+}
+
+// ============================================================
+// CLIENT
+// ============================================================
+
+// Service-role client for the RPC (bucket table isn't reachable by users)
+let serviceClient: SupabaseClient | null = null;
+
+function getServiceClient(): SupabaseClient | null {
+  if (!serviceClient) {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceKey) return null;
+    serviceClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey, {
+      auth: { persistSession: false }
+    });
+  }
+  return serviceClient;
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * True if the request carries the service-role key
+ */
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  return !!serviceKey && !!token && timingSafeEqual(token, serviceKey);
+}
+
+/**
+ * Best-effort client IP from proxy headers
+ */
+export function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const first = forwarded.split(',')[0].trim();
+    if (first) return first;
+  }
+  return req.headers.get('cf-connecting-ip') ?? req.headers.get('x-real-ip');
+}
+
+/**
+ * Take one token from the caller's bucket for this function and scope
+ *
+ * Returns null when the request isn't limited (limits disabled, no rule for
+ * the scope, service-role caller, missing identifier). Fails open if the
+ * bucket store is unreachable: rate limiting must not take the function down.
+ */
+export async function checkRateLimit(
+  req: Request,
+  functionName: string,
+  scope: RateLimitScope,
+  identifier: string | null,
+  policy: RateLimitPolicy
+): Promise<RateLimitResult | null> {
+  if (Deno.env.get('RATE_LIMIT_ENABLED') === 'false') return null;
+  if (isServiceRoleRequest(req)) return null;
+  if (!identifier) return null;
+
+  const rule = resolveRule(functionName, scope, policy[scope]);
+  if (!rule) return null;
+
+  const client = getServiceClient();
+  if (!client) {
+    log.warn('Rate limiting skipped: SUPABASE_SERVICE_ROLE_KEY not configured');
+    return null;
+  }
+
+  const { data, error } = await client.rpc('consume_rate_limit', {
+    p_key: `${functionName}:${scope}:${identifier}`,
+    p_capacity: rule.capacity,
+    p_refill_per_second: rule.refillPerHour / 3600
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    log.error('Rate limit check failed', { error });
+    return null;
+  }
+
+  return {
+    allowed: row.allowed,
+    scope,
+    limit: rule.capacity,
+    remaining: Math.max(0, Math.floor(row.remaining)),
+    retryAfter: row.retry_after_seconds
+  };
+}
+
+/**
+ * Standard rate limit headers (Retry-After only when limited)
+ */
+export function rateLimitHeaders(result: RateLimitResult | null): Record<string, string> {
+  if (!result) return {};
+
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining)
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+  return headers;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Env override (RATE_LIMIT_<FUNCTION>_<SCOPE>=capacity,refillPerHour) or default
+ * An override of '0' or 'off' disables the scope
+ */
+function resolveRule(
+  functionName: string,
+  scope: RateLimitScope,
+  fallback: RateLimitRule | undefined
+): RateLimitRule | null {
+  const envName = `RATE_LIMIT_${functionName.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_${scope.toUpperCase()}`;
+  const raw = Deno.env.get(envName)?.trim();
+  if (!raw) return fallback ?? null;
+  if (raw === '0' || raw.toLowerCase() === 'off') return null;
+
+  const [capacity, refillPerHour] = raw.split(',').map(Number);
+  if (!(capacity > 0) || !(refillPerHour > 0)) {
+    log.warn('Ignoring invalid rate limit override (expected capacity,refillPerHour)', { envName, value: raw });
+    return fallback ?? null;
+  }
+  return { capacity, refillPerHour };
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
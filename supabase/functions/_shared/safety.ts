@@ -0,0 +1,307 @@
+// _shared/safety.ts
+//
+// Offline screening for crisis and self-harm language
+//
+// Purpose:
+// - Flag high-risk language in journal text before it is analyzed, using a
+//   lexicon of first-person patterns (no network call, no model)
+// - Lexicon covers English, Spanish, French and German; text in other
+//   languages is not screened
+// - Return a risk level with localized crisis resources for the app to show
+// - Give the insight prompt a tone note when risk is detected
+//
+// The classifier only sees text already sent to the function and never
+// logs or returns the matched words; callers log the level and categories.
+// It errs towards flagging: a false positive shows a helpline card, a
+// false negative shows nothing.
+//
+// Usage:
+// import { assessTexts, safetyPromptNote } from '../_shared/safety.ts'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type RiskLevel = 'none' | 'elevated' | 'high';
+
+export type SafetyCategory = 'suicidal_ideation' | 'self_harm' | 'plan_or_means' | 'hopelessness';
+
+export interface CrisisResource {
+  name: string;
+  contact: string;           // Phone number or text instruction
+  description: string;
+  url?: string;
+}
+
+export interface SafetyAssessment {
+  riskLevel: RiskLevel;
+  categories: SafetyCategory[];   // Kinds of language found (no matched text)
+  flaggedEntries: number;         // Texts with at least one signal
+  message: string | null;         // Localized supportive message (null when 'none')
+  resources: CrisisResource[];    // Localized crisis resources (empty when 'none')
+}
+
+interface SafetyPattern {
+  category: SafetyCategory;
+  weight: number;            // HIGH_WEIGHT marks a high-risk signal on its own
+  pattern: RegExp;
+}
+
+// ============================================================
+// LEXICON
+// ============================================================
+
+const HIGH_WEIGHT = 3;
+const ELEVATED_THRESHOLD = 2;      // Sum of weaker signals across all texts
+
+const PATTERNS: SafetyPattern[] = [
+  // Suicidal ideation
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bkill(?:ing)? myself\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bend(?:ing)? (?:my (?:own )?life|it all)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\btak(?:e|ing) my (?:own )?life\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:want|wanted|wanna|going|plan|planning|ready) to die\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:commit(?:ting)? )?suicid(?:e|al)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bdon'?t want to (?:be alive|live|exist|wake up)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:be |are |is )?better off (?:dead|without me)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bno reason to (?:live|keep living|go on)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bwish (?:i (?:was|were) dead|i (?:could )?(?:never wake up|disappear forever)|i (?:wasn'?t|was never) born)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:goodbye|suicide) (?:letter|note)\b/ },
+
+  // Self-harm
+  { category: 'self_harm', weight: HIGH_WEIGHT, pattern: /\b(?:cut|cutting|burn|burning|hurt|hurting|harm|harming|punish|punishing) myself\b/ },
+  { category: 'self_harm', weight: HIGH_WEIGHT, pattern: /\bself[- ]?harm(?:ing|ed)?\b/ },
+  { category: 'self_harm', weight: HIGH_WEIGHT, pattern: /\brelaps(?:e|ed|ing) (?:on|into) (?:cutting|self[- ]?harm)\b/ },
+
+  // Plan or means
+  { category: 'plan_or_means', weight: HIGH_WEIGHT, pattern: /\b(?:stockpil\w*|sav(?:e|ed|ing) up|hoard\w*) (?:my |the )?(?:pills|meds|medication|sleeping pills)\b/ },
+  { category: 'plan_or_means', weight: HIGH_WEIGHT, pattern: /\boverdos(?:e|ed|ing)\b/ },
+  { category: 'plan_or_means', weight: HIGH_WEIGHT, pattern: /\b(?:jump(?:ing)? off|hang(?:ing)? myself)\b/ },
+
+  // Hopelessness (weaker; needs several signals)
+  { category: 'hopelessness', weight: 1, pattern: /\bhopeless(?:ness)?\b/ },
+  { category: 'hopelessness', weight: 1, pattern: /\bno way out\b/ },
+  { category: 'hopelessness', weight: 1, pattern: /\bcan'?t (?:go on|do this anymore|take (?:it|this|much more) anymore|keep going)\b/ },
+  { category: 'hopelessness', weight: 1, pattern: /\bwhat'?s the point (?:of|in) (?:living|anything|life|going on)\b/ },
+  { category: 'hopelessness', weight: 1, pattern: /\bi'?m (?:just )?(?:a )?burden\b/ },
+  { category: 'hopelessness', weight: 1, pattern: /\bwant(?:ed)? to disappear\b/ },
+  { category: 'hopelessness', weight: 1, pattern: /\b(?:i'?m|i am|i feel|feeling) (?:so |completely |totally )?worthless\b/ },
+  { category: 'hopelessness', weight: 1, pattern: /\bgive up on (?:life|everything|myself)\b/ },
+
+  // Spanish
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /(?<!\bno )\bquiero (?:morir(?:me)?|matarme)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /(?<!\bno )\bme quiero (?:morir|matar)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:matarme|quitarme la vida|acabar con mi vida)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bsuicid(?:io|arme)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bno quiero (?:seguir )?vivir\b/ },
+  { category: 'self_harm', weight: HIGH_WEIGHT, pattern: /\b(?:hacerme daño|cortarme|autolesi)/ },
+  { category: 'hopelessness', weight: 1, pattern: /\b(?:sin esperanza|no puedo más|soy una carga)/ },
+
+  // French
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:je veux|envie de) mourir\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:vais|veux|voudrais|envie de) me tuer\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:me suicider|suicidaire)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bmettre fin à mes jours\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:je ne veux plus|plus envie de) vivre\b/ },
+  { category: 'self_harm', weight: HIGH_WEIGHT, pattern: /\bme (?:faire du mal|scarifier|mutiler)\b/ },
+  { category: 'hopelessness', weight: 1, pattern: /\b(?:sans espoir|je n'en peux plus|je suis un fardeau)\b/ },
+
+  // German
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:will|möchte) (?:nur noch )?sterben\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bmich (?:umbringen|töten)\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bmir das leben nehmen\b/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\b(?:selbstmord|suizid)/ },
+  { category: 'suicidal_ideation', weight: HIGH_WEIGHT, pattern: /\bnicht mehr leben\b/ },
+  { category: 'self_harm', weight: HIGH_WEIGHT, pattern: /\b(?:mich (?:ritzen|selbst verletzen)|selbstverletz)/ },
+  { category: 'hopelessness', weight: 1, pattern: /\b(?:hoffnungslos|ich kann nicht mehr|ich bin eine last)/ }
+];
+
+// "I would never hurt myself", "I'm not suicidal", "I don't ever want to die":
+// a negation only counts when it governs the phrase, with nothing but
+// auxiliaries and adverbs in between. Any other word ("but", "that", "if",
+// "why", "because", "knows") ends the lookback, so "I don't know why but
+// I want to die" is still flagged. "Nobody" / "no one" negate someone else.
+// Bare "no" / "pas" / "nicht" are too common to count; Spanish patterns
+// exclude a directly preceding "no" themselves
+const NEGATORS = "not|never|no longer|don'?t|didn'?t|wouldn'?t|won'?t|isn'?t|wasn'?t|aren'?t|nunca|jamás|jamais|nie|niemals";
+const GOVERNED_WORDS = "i|i'?m|am|be|ever|really|actually|want|wanna|to|going|gonna|plan|try|trying|would|could|feel|feeling|he|querido|voulu|würde|ich";
+const NEGATION_BEFORE = new RegExp(`\\b(?:${NEGATORS})(?: (?:${GOVERNED_WORDS}))* ?$`);
+
+// ============================================================
+// LOCALIZED RESOURCES
+// ============================================================
+
+const MESSAGES: Record<string, Record<Exclude<RiskLevel, 'none'>, string>> = {
+  en: {
+    elevated: "It sounds like things have felt really heavy lately. You don't have to carry it alone - talking to someone you trust or a support line can help.",
+    high: "Some of what you wrote suggests you may be thinking about hurting yourself. You deserve support right now. If you're in danger, call your local emergency number, or reach out to one of these free, confidential services."
+  },
+  es: {
+    elevated: 'Parece que las cosas se han sentido muy pesadas últimamente. No tienes que cargarlo solo: hablar con alguien de confianza o con una línea de apoyo puede ayudar.',
+    high: 'Parte de lo que escribiste sugiere que podrías estar pensando en hacerte daño. Mereces apoyo ahora mismo. Si estás en peligro, llama al número de emergencias local o comunícate con uno de estos servicios gratuitos y confidenciales.'
+  },
+  fr: {
+    elevated: 'On dirait que les choses ont été très lourdes ces derniers temps. Vous n’avez pas à porter cela seul : parler à une personne de confiance ou à une ligne d’écoute peut aider.',
+    high: 'Certains de vos écrits laissent penser que vous envisagez peut-être de vous faire du mal. Vous méritez du soutien dès maintenant. En cas de danger, appelez le numéro d’urgence local ou contactez l’un de ces services gratuits et confidentiels.'
+  },
+  de: {
+    elevated: 'Es klingt, als wäre in letzter Zeit vieles sehr schwer gewesen. Du musst das nicht allein tragen – ein Gespräch mit einer vertrauten Person oder einem Hilfsangebot kann helfen.',
+    high: 'Einiges von dem, was du geschrieben hast, deutet darauf hin, dass du daran denkst, dir etwas anzutun. Du verdienst jetzt Unterstützung. Wenn du in Gefahr bist, ruf den örtlichen Notruf an oder wende dich an eines dieser kostenlosen, vertraulichen Angebote.'
+  }
+};
+
+// Keyed by region (ISO 3166), then by language when the region is unknown
+const REGION_RESOURCES: Record<string, CrisisResource[]> = {
+  US: [
+    { name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988', description: '24/7, free and confidential', url: 'https://988lifeline.org' },
+    { name: 'Crisis Text Line', contact: 'Text HOME to 741741', description: '24/7 support by text', url: 'https://www.crisistextline.org' }
+  ],
+  CA: [
+    { name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988', description: '24/7, free, in English and French', url: 'https://988.ca' }
+  ],
+  GB: [
+    { name: 'Samaritans', contact: 'Call 116 123', description: '24/7, free and confidential', url: 'https://www.samaritans.org' }
+  ],
+  IE: [
+    { name: 'Samaritans', contact: 'Call 116 123', description: '24/7, free and confidential', url: 'https://www.samaritans.org' }
+  ],
+  AU: [
+    { name: 'Lifeline', contact: 'Call 13 11 14', description: '24/7 crisis support', url: 'https://www.lifeline.org.au' }
+  ],
+  ES: [
+    { name: 'Línea 024', contact: 'Llama al 024', description: 'Atención a la conducta suicida, 24/7, gratuita', url: 'https://www.sanidad.gob.es/linea024/' }
+  ],
+  MX: [
+    { name: 'Línea de la Vida', contact: 'Llama al 800 911 2000', description: '24/7, gratuita y confidencial', url: 'https://www.gob.mx/salud/conadic' }
+  ],
+  FR: [
+    { name: '3114', contact: 'Appelez le 3114', description: 'Numéro national de prévention du suicide, 24h/24, gratuit', url: 'https://3114.fr' }
+  ],
+  DE: [
+    { name: 'TelefonSeelsorge', contact: 'Anrufen: 0800 111 0 111 oder 0800 111 0 222', description: 'Rund um die Uhr, kostenlos und anonym', url: 'https://www.telefonseelsorge.de' }
+  ]
+};
+
+const LANGUAGE_DEFAULT_REGION: Record<string, string> = {
+  en: 'US',
+  es: 'ES',
+  fr: 'FR',
+  de: 'DE'
+};
+
+const INTERNATIONAL_RESOURCE: CrisisResource = {
+  name: 'Find A Helpline',
+  contact: 'findahelpline.com',
+  description: 'Free, confidential helplines in your country',
+  url: 'https://findahelpline.com'
+};
+
+// ============================================================
+// PROMPT NOTES
+// ============================================================
+
+const PROMPT_NOTES: Record<Exclude<RiskLevel, 'none'>, string> = {
+  elevated: `Safety note: some entries express hopelessness. Be especially gentle:
+- Acknowledge the weight of what the user is carrying without minimizing it
+- Do not frame distress as growth, a lesson, or something to optimize
+- Avoid upbeat or cheerleading language
+- Where it fits naturally, mention that reaching out to someone they trust can help`,
+  high: `Safety note: some entries mention self-harm or suicidal thoughts. Respond with care:
+- Acknowledge these feelings plainly and compassionately; never ignore or sensationalize them
+- Do not present self-harm or suicidal thoughts as a "theme" to explore, a pattern to celebrate, or a sign of growth
+- Never describe methods, plans or means, even if the entries do
+- No upbeat, cheerleading or productivity language anywhere in the response
+- In the description, gently encourage reaching out to a crisis line or someone they trust
+- Keep every other requirement of the JSON structure`
+};
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Screen texts (journal entries, reflections) for crisis language
+ */
+export function assessTexts(texts: string[], locale: string | null = null): SafetyAssessment {
+  const categories = new Set<SafetyCategory>();
+  let flaggedEntries = 0;
+  let weakScore = 0;
+  let high = false;
+
+  for (const text of texts) {
+    const signals = findSignals(text);
+    if (signals.length === 0) continue;
+
+    flaggedEntries++;
+    for (const signal of signals) {
+      categories.add(signal.category);
+      if (signal.weight >= HIGH_WEIGHT) {
+        high = true;
+      } else {
+        weakScore += signal.weight;
+      }
+    }
+  }
+
+  const riskLevel: RiskLevel = high ? 'high' : weakScore >= ELEVATED_THRESHOLD ? 'elevated' : 'none';
+
+  if (riskLevel === 'none') {
+    return { riskLevel, categories: [], flaggedEntries: 0, message: null, resources: [] };
+  }
+
+  const { language, region } = parseLocale(locale);
+  return {
+    riskLevel,
+    categories: [...categories],
+    flaggedEntries,
+    message: (MESSAGES[language] ?? MESSAGES.en)[riskLevel],
+    resources: resourcesFor(language, region)
+  };
+}
+
+/**
+ * Extra system prompt guidance for a risk level (null when 'none')
+ */
+export function safetyPromptNote(level: RiskLevel): string | null {
+  return level === 'none' ? null : PROMPT_NOTES[level];
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function findSignals(text: string): SafetyPattern[] {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/\s+/g, ' ');
+
+  const found: SafetyPattern[] = [];
+  for (const entry of PATTERNS) {
+    const pattern = new RegExp(entry.pattern.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(normalized)) !== null) {
+      const before = normalized.slice(Math.max(0, match.index - 40), match.index);
+      if (!NEGATION_BEFORE.test(before)) {
+        found.push(entry);
+        break;
+      }
+    }
+  }
+  return found;
+}
+
+function parseLocale(locale: string | null): { language: string; region: string | null } {
+  const [language, ...rest] = (locale ?? 'en').replace('_', '-').split('-');
+  const region = rest.find(part => /^[A-Za-z]{2}$/.test(part));
+  return { language: language.toLowerCase(), region: region ? region.toUpperCase() : null };
+}
+
+/**
+ * Services for the user's region (or their language's default region when
+ * no region is given), always followed by the international directory
+ */
+function resourcesFor(language: string, region: string | null): CrisisResource[] {
+  const key = region ?? LANGUAGE_DEFAULT_REGION[language];
+  const regional = key ? REGION_RESOURCES[key] ?? [] : [];
+  return [...regional, INTERNATIONAL_RESOURCE];
+}
@@ -0,0 +1,375 @@
+// _shared/theme-scoring.ts
+//
+// BM25 scoring of text against the themes catalog (new-user-insights,
+// admin-themes previews)
+//
+// The text (an onboarding reflection) is the document and each theme's
+// keywords are the query:
+// - Tokenization keeps offsets and clause boundaries (punctuation, "but")
+// - Light stemming: keyword and token stems must be equal ("worries" →
+//   "worry"), or the token must start with a keyword of 5+ characters
+//   (translated keywords are stored as stems, e.g. "estresad")
+// - Hyphenated words are one token: they match hyphenated keywords whole
+//   ("self-esteem") and other keywords by any part ("job-hunting")
+// - Negation: a negator ("not", "never", "no" in Spanish, "pas", "nicht",
+//   ...) cancels matches in the next few tokens of its clause, so "I'm not
+//   anxious at all" doesn't score for anxiety
+// - BM25: IDF over the themes catalog, term frequency saturates (k1), and
+//   longer reflections are length-normalized (b)
+// - Scores are normalized to the best theme (0-1), so theme count
+//   thresholds behave the same for 20- and 2000-character reflections
+//
+// Languages written without spaces (ja/zh/th) can't be tokenized by word:
+// keywords are counted as substrings, without negation handling.
+//
+// Usage:
+// import { buildExcerpts, scoreThemes } from '../_shared/theme-scoring.ts'
+
+import type { Theme } from './themes.ts';
+import { isUnspacedLanguage } from './locale.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const BM25_K1 = 1.2;                 // Term frequency saturation
+const BM25_B = 0.75;                 // Length normalization strength
+const AVG_REFLECTION_TOKENS = 60;    // Typical onboarding reflection (~350 chars)
+const UNSPACED_CHARS_PER_TOKEN = 2;  // Rough word length for ja/zh/th
+const NEGATION_WINDOW = 3;           // Tokens a negator reaches
+const MIN_PREFIX_KEYWORD_LENGTH = 5; // Shorter keywords must match by stem
+const MAX_EXCERPTS = 2;              // Per theme
+const EXCERPT_MAX_CHARS = 90;        // Before ellipses
+
+/**
+ * Negators of a state, by base language (apostrophes are stripped: "don't"
+ * → "dont"). Lack and inability point *to* a theme ("no energy", "can't
+ * sleep", "sin ganas"), so "no", "without" and "can't" are left out where
+ * the language allows it
+ */
+const NEGATORS: Record<string, string[]> = {
+  en: ['not', 'never', 'hardly', 'nor', 'neither', 'dont', 'doesnt', 'didnt',
+    'isnt', 'wasnt', 'arent', 'werent', 'havent', 'hasnt', 'hadnt', 'aint'],
+  es: ['no', 'nunca', 'jamás', 'tampoco', 'ni'],
+  fr: ['ne', 'pas', 'jamais'],
+  de: ['nicht', 'nie', 'niemals'],
+  pt: ['não', 'nunca', 'jamais', 'nem'],
+  it: ['non', 'mai', 'né'],
+  nl: ['niet', 'nooit']
+};
+
+/**
+ * Words right after a negator that undo it: "not only", "no doubt",
+ * "can't stop worrying", and "can" where the language negates it with
+ * its general negator ("no puedo dormir")
+ */
+const NEGATION_RELEASES = new Set([
+  'only', 'just', 'doubt', 'matter', 'stop', 'help',
+  'solo', 'seulement', 'nur',
+  'puedo', 'puede', 'peux', 'peut', 'kann', 'posso', 'consigo', 'riesco', 'kan'
+]);
+
+/**
+ * Words that start a new clause and end a negation
+ */
+const CLAUSE_BREAKS = new Set(['but', 'however', 'though', 'although', 'yet', 'pero', 'sino', 'mais', 'aber', 'sondern', 'mas', 'ma', 'maar']);
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Character range in a string (UTF-16 offsets, end exclusive)
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface ThemeScore {
+  theme: Theme;
+  score: number;              // Normalized: 1 = best theme, 0 = no match
+  rawScore: number;           // BM25 sum over matched keywords
+  matchedKeywords: string[];
+  spans: TextSpan[];          // Matched words in the text, in order
+}
+
+/**
+ * Snippet of the scored text that matched a theme
+ */
+export interface MatchExcerpt {
+  text: string;               // Ellipsized where cut from a longer text
+  highlights: TextSpan[];     // Matched words, relative to `text`
+}
+
+/**
+ * Word of the reflection with its position in the original text
+ */
+export interface Token {
+  text: string;              // Lowercased, apostrophes removed
+  stem: string;
+  parts: Word[];             // Of a hyphenated word ("self-care": self, care)
+  start: number;             // UTF-16 offsets into the scored text
+  end: number;
+  negated: boolean;
+}
+
+/**
+ * Lowercased word with its stem
+ */
+interface Word {
+  text: string;
+  stem: string;
+}
+
+/**
+ * One theme keyword as a BM25 query term
+ */
+interface QueryTerm {
+  keyword: string;           // As stored in the catalog
+  text: string;              // Lowercased
+  stem: string;
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Score every theme against the reflection
+ * English keywords always count (people mix languages); the language's own
+ * keywords are added from themes.translations. Returned in catalog order.
+ */
+export function scoreThemes(text: string, themes: Theme[], language: string): ThemeScore[] {
+  const queries = themes.map(theme => queryTerms(theme, language));
+  const idf = catalogIdf(queries);
+  const unspaced = isUnspacedLanguage(language);
+
+  const tokens = unspaced ? [] : tokenize(text, language);
+  const docLength = unspaced
+    ? [...text].length / UNSPACED_CHARS_PER_TOKEN
+    : tokens.length;
+  const lengthNorm = 1 - BM25_B + BM25_B * (docLength / AVG_REFLECTION_TOKENS);
+
+  const raw = queries.map((terms, index) => {
+    const matches = unspaced
+      ? substringMatches(text.toLocaleLowerCase(language), terms)
+      : tokenMatches(tokens, terms);
+
+    let score = 0;
+    const matchedKeywords: string[] = [];
+    const spans: TextSpan[] = [];
+    for (const [term, termSpans] of matches) {
+      const tf = termSpans.length;
+      score += idf.get(term.stem)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+      matchedKeywords.push(term.keyword);
+      spans.push(...termSpans);
+    }
+    spans.sort((a, b) => a.start - b.start);
+    return { theme: themes[index], rawScore: score, matchedKeywords, spans };
+  });
+
+  const best = Math.max(0, ...raw.map(r => r.rawScore));
+  return raw.map(r => ({ ...r, score: best > 0 ? r.rawScore / best : 0 }));
+}
+
+/**
+ * Split text into word tokens with offsets, stems and negation flags
+ */
+export function tokenize(text: string, language: string): Token[] {
+  const negators = new Set([...NEGATORS.en, ...(NEGATORS[language] ?? [])]);
+  const tokens: Token[] = [];
+  let negationLeft = 0;
+
+  // Words (with inner apostrophes or hyphens) or clause punctuation
+  const pattern = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*|[.,;:!?¡¿()\n…—–]/gu;
+  for (const match of text.matchAll(pattern)) {
+    const word = match[0].toLocaleLowerCase(language).replace(/['’]/g, '');
+
+    if (!/[\p{L}\p{N}]/u.test(word) || CLAUSE_BREAKS.has(word)) {
+      negationLeft = 0;
+      continue;
+    }
+
+    if (negators.has(word)) {
+      negationLeft = NEGATION_WINDOW;
+      continue;
+    }
+
+    if (negationLeft > 0 && NEGATION_RELEASES.has(word)) {
+      negationLeft = 0;
+    }
+
+    tokens.push({
+      text: word,
+      stem: stem(word),
+      parts: word.includes('-') ? word.split('-').map(part => ({ text: part, stem: stem(part) })) : [],
+      start: match.index!,
+      end: match.index! + match[0].length,
+      negated: negationLeft > 0
+    });
+    if (negationLeft > 0) negationLeft--;
+  }
+
+  return tokens;
+}
+
+/**
+ * Light suffix stemmer (English suffixes; other languages mostly pass
+ * through and rely on prefix keywords)
+ */
+export function stem(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) return word.slice(0, -3) + 'y';    // worries → worry
+  if (word.endsWith('ied') && word.length > 4) return word.slice(0, -3) + 'y';    // worried → worry
+  if (word.endsWith('ness') && word.length > 7) return word.slice(0, -4);         // tiredness → tired
+  if (word.endsWith('ing') && word.length > 6) return undouble(word.slice(0, -3)); // stopping → stop
+  if (word.endsWith('ful') && word.length > 6) return word.slice(0, -3);          // stressful → stress
+  if (word.endsWith('ed') && word.length > 5) return undouble(word.slice(0, -2));  // stressed → stress
+  if (word.endsWith('ly') && !word.endsWith('ily') && word.length > 5) return word.slice(0, -2); // lonely → lone
+  if (word.endsWith('es') && /(ss|sh|ch|x)es$/.test(word)) return word.slice(0, -2); // stresses → stress
+  if (word.endsWith('s') && !word.endsWith('ss') && word.length > 3) return word.slice(0, -1); // goals → goal
+  return word;
+}
+
+/**
+ * Short snippets of the text around matched words, with the matched words
+ * highlighted (offsets relative to the snippet). Nearby matches share a
+ * snippet; snippets start and end at word boundaries
+ */
+export function buildExcerpts(text: string, spans: TextSpan[], maxExcerpts = MAX_EXCERPTS): MatchExcerpt[] {
+  const windows: Array<{ start: number; end: number; spans: TextSpan[] }> = [];
+
+  for (const span of spans) {
+    const last = windows[windows.length - 1];
+    if (last && span.end - last.start <= EXCERPT_MAX_CHARS) {
+      last.end = Math.max(last.end, span.end);
+      last.spans.push(span);
+    } else if (windows.length < maxExcerpts) {
+      windows.push({ start: span.start, end: span.end, spans: [span] });
+    }
+  }
+
+  return windows.map(window => {
+    const padding = Math.max(0, Math.floor((EXCERPT_MAX_CHARS - (window.end - window.start)) / 2));
+    let start = wordStart(text, Math.max(0, window.start - padding), window.start);
+    let end = wordEnd(text, Math.min(text.length, window.end + padding), window.end);
+    while (start < window.start && /\s/u.test(text[start])) start++;
+    while (end > window.end && /\s/u.test(text[end - 1])) end--;
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const offset = prefix.length - start;
+
+    return {
+      text: prefix + text.slice(start, end) + suffix,
+      highlights: window.spans.map(span => ({ start: span.start + offset, end: span.end + offset }))
+    };
+  });
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function queryTerms(theme: Theme, language: string): QueryTerm[] {
+  const keywords = new Set([
+    ...theme.keywords,
+    ...(theme.translations?.[language]?.keywords ?? [])
+  ]);
+
+  // Keywords sharing a stem ("stress", "stressed") are one term
+  const terms = new Map<string, QueryTerm>();
+  for (const keyword of keywords) {
+    const text = keyword.normalize('NFC').toLocaleLowerCase(language);
+    const termStem = stem(text);
+    if (!terms.has(termStem)) {
+      terms.set(termStem, { keyword, text, stem: termStem });
+    }
+  }
+  return [...terms.values()];
+}
+
+/**
+ * BM25 IDF of each term stem across the catalog: keywords shared by
+ * several themes tell them apart less
+ */
+function catalogIdf(queries: QueryTerm[][]): Map<string, number> {
+  const documentFrequency = new Map<string, number>();
+  for (const terms of queries) {
+    for (const term of terms) {
+      documentFrequency.set(term.stem, (documentFrequency.get(term.stem) ?? 0) + 1);
+    }
+  }
+
+  const total = queries.length;
+  const idf = new Map<string, number>();
+  for (const [term, df] of documentFrequency) {
+    idf.set(term, Math.log((total - df + 0.5) / (df + 0.5) + 1));
+  }
+  return idf;
+}
+
+/**
+ * Non-negated occurrences per term; a token counts for one term at most
+ */
+function tokenMatches(tokens: Token[], terms: QueryTerm[]): Map<QueryTerm, TextSpan[]> {
+  const matches = new Map<QueryTerm, TextSpan[]>();
+  for (const token of tokens) {
+    if (token.negated) continue;
+    const term = terms.find(t => matchesTerm(token, t));
+    if (term) {
+      matches.set(term, [...(matches.get(term) ?? []), { start: token.start, end: token.end }]);
+    }
+  }
+  return matches;
+}
+
+function substringMatches(text: string, terms: QueryTerm[]): Map<QueryTerm, TextSpan[]> {
+  const matches = new Map<QueryTerm, TextSpan[]>();
+  for (const term of terms) {
+    const spans: TextSpan[] = [];
+    for (let at = text.indexOf(term.text); at !== -1; at = text.indexOf(term.text, at + term.text.length)) {
+      spans.push({ start: at, end: at + term.text.length });
+    }
+    if (spans.length > 0) matches.set(term, spans);
+  }
+  return matches;
+}
+
+/**
+ * Hyphenated words match as a whole ("self-esteem") or by any part
+ * ("job-hunting" for "job")
+ */
+function matchesTerm(token: Token, term: QueryTerm): boolean {
+  return matchesWord(token, term) || token.parts.some(part => matchesWord(part, term));
+}
+
+function matchesWord(word: Word, term: QueryTerm): boolean {
+  return word.stem === term.stem ||
+    word.text === term.text ||
+    (term.text.length >= MIN_PREFIX_KEYWORD_LENGTH && word.text.startsWith(term.text));
+}
+
+/**
+ * Start of the first whole word at or after `from` (before `limit`); text
+ * without spaces is cut at `from`
+ */
+function wordStart(text: string, from: number, limit: number): number {
+  if (from === 0 || /\s/u.test(text[from - 1])) return from;
+  const space = text.slice(from, limit).search(/\s/u);
+  return space === -1 ? from : from + space + 1;
+}
+
+/**
+ * End of the last whole word at or before `to` (after `limit`); text
+ * without spaces is cut at `to`
+ */
+function wordEnd(text: string, to: number, limit: number): number {
+  if (to === text.length || /\s/u.test(text[to])) return to;
+  const space = text.slice(limit, to).search(/\s\S*$/u);
+  return space === -1 ? to : limit + space;
+}
+
+function undouble(word: string): string {
+  return /([bdgmnprt])\1$/.test(word) ? word.slice(0, -1) : word;
+}
@@ -0,0 +1,287 @@
+// _shared/themes.ts
+//
+// Themes catalog: types, validation and a version-checked cache
+//
+// Purpose:
+// - Define the catalog theme shape (`themes` table) and its translations
+// - Validate catalog edits against the `themes` table constraints, reporting
+//   every problem at once instead of the first CHECK violation
+// - Cache the catalog per instance, reloading it when the catalog version
+//   moves on (theme_catalog_state, bumped by a trigger on every change)
+//
+// Configuration (env):
+// - THEMES_VERSION_CHECK_SECONDS   How often a cached catalog checks the
+//                                  version (default: 30; 0 checks every request)
+//
+// Usage:
+// import { getThemeCatalog, validateTheme } from '../_shared/themes.ts'
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { tokenize } from './theme-scoring.ts';
+import { isUnspacedLanguage } from './locale.ts';
+import { log } from './logger.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface Theme {
+  id?: string;  // Optional - database UUID, not sent in response
+  name: string;
+  title: string;
+  summary: string;
+  keywords: string[];
+  emoji: string;
+  category: string;
+  translations?: Record<string, ThemeTranslation>;  // By base language; not sent in response
+}
+
+/**
+ * One language's text for a theme (themes.translations); missing fields
+ * fall back to English
+ */
+export interface ThemeTranslation {
+  title?: string;
+  summary?: string;
+  keywords?: string[];
+}
+
+export interface ThemeCatalog {
+  themes: Theme[];            // Ordered by name
+  version: number | null;     // null when the version stamp can't be read
+}
+
+export type ThemeValidationResult =
+  | { valid: true; theme: Theme; warnings: string[] }
+  | { valid: false; errors: string[] };
+
+// ============================================================
+// CONSTRAINTS (mirror the themes table CHECKs)
+// ============================================================
+
+export const THEME_CATEGORIES = ['wellness', 'emotional', 'growth', 'social'];
+export const MAX_NAME_LENGTH = 50;
+export const MIN_SUMMARY_LENGTH = 20;
+export const MAX_EMOJI_CHARS = 4;            // Code points (char_length)
+export const MAX_KEYWORDS = 30;
+export const MIN_KEYWORD_LENGTH = 2;
+export const MAX_KEYWORD_LENGTH = 40;
+
+const NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const TRANSLATION_LANGUAGE_PATTERN = /^[a-z]{2,3}$/;
+const THEME_FIELDS = new Set(['name', 'title', 'summary', 'keywords', 'emoji', 'category', 'translations']);
+const TRANSLATION_FIELDS = new Set(['title', 'summary', 'keywords']);
+
+export const THEME_COLUMNS = 'name, title, summary, keywords, emoji, category, translations';
+
+const DEFAULT_VERSION_CHECK_SECONDS = 30;
+
+// ============================================================
+// CATALOG CACHE
+// ============================================================
+
+// Catalog loaded by this instance, and when its version was last checked
+let cached: { catalog: ThemeCatalog; checkedAt: number } | null = null;
+
+/**
+ * Themes catalog, from the instance cache while its version is current
+ *
+ * The version is checked at most every THEMES_VERSION_CHECK_SECONDS. If the
+ * version or the reload fails, the cached catalog keeps being served.
+ * Returns null only when there is no catalog at all (first load failed or
+ * the table is empty).
+ */
+export async function getThemeCatalog(supabase: SupabaseClient): Promise<ThemeCatalog | null> {
+  const now = Date.now();
+  if (cached && now - cached.checkedAt < versionCheckIntervalMs()) {
+    return cached.catalog;
+  }
+
+  // Read the version first: an edit landing during the load bumps it
+  // again, so the next check reloads
+  const version = await fetchCatalogVersion(supabase);
+  if (cached && (version === null || version === cached.catalog.version)) {
+    cached.checkedAt = now;
+    return cached.catalog;
+  }
+
+  const { data: themes, error } = await log.time('themes_load', async () => await supabase
+    .from('themes')
+    .select(THEME_COLUMNS)
+    .order('name'));
+
+  if (error || !themes || themes.length === 0) {
+    log.error('Themes fetch failed', { error, version, stale: !!cached });
+    if (!cached) return null;
+    cached.checkedAt = now;
+    return cached.catalog;
+  }
+
+  const previousVersion = cached?.catalog.version;
+  cached = { catalog: { themes: themes as Theme[], version }, checkedAt: now };
+  log.info(previousVersion === undefined ? 'Themes cached' : 'Themes reloaded', {
+    count: themes.length,
+    version,
+    previousVersion
+  });
+  return cached.catalog;
+}
+
+/**
+ * Current catalog version, or null if it can't be read
+ */
+export async function fetchCatalogVersion(supabase: SupabaseClient): Promise<number | null> {
+  const { data, error } = await supabase.rpc('get_theme_catalog_version');
+  if (error || data === null || data === undefined) {
+    log.warn('Theme catalog version check failed', { error });
+    return null;
+  }
+  return Number(data);
+}
+
+function versionCheckIntervalMs(): number {
+  const seconds = Number(Deno.env.get('THEMES_VERSION_CHECK_SECONDS') ?? DEFAULT_VERSION_CHECK_SECONDS);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : DEFAULT_VERSION_CHECK_SECONDS * 1000;
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Validate a theme for the catalog
+ *
+ * With `base` (an update), `input` holds only the fields to change and is
+ * merged over it; the name can't change, since user profiles store it.
+ * Errors mirror the table constraints. Warnings flag keywords that are
+ * valid but can never match (several words, or a negation word).
+ */
+export function validateTheme(input: unknown, base?: Theme): ThemeValidationResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['theme must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const fields = input as Record<string, unknown>;
+
+  for (const field of Object.keys(fields)) {
+    if (!THEME_FIELDS.has(field)) errors.push(`${field} is not a theme field`);
+  }
+  if (base && fields.name !== undefined && fields.name !== base.name) {
+    errors.push('name cannot be changed');
+  }
+
+  const { id: _id, ...baseFields } = base ?? {} as Partial<Theme>;
+  const theme = { ...baseFields, ...fields } as Record<string, unknown>;
+
+  const { name, title, summary, emoji, category, keywords, translations = {} } = theme;
+
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name) || name.length > MAX_NAME_LENGTH) {
+    errors.push(`name must be lowercase words joined by hyphens, at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (typeof title !== 'string' || title.trim().length === 0) {
+    errors.push('title must be a non-empty string');
+  }
+  if (typeof summary !== 'string' || [...summary].length < MIN_SUMMARY_LENGTH) {
+    errors.push(`summary must be at least ${MIN_SUMMARY_LENGTH} characters`);
+  }
+  if (typeof emoji !== 'string' || [...emoji].length < 1 || [...emoji].length > MAX_EMOJI_CHARS) {
+    errors.push(`emoji must be 1-${MAX_EMOJI_CHARS} characters`);
+  }
+  if (typeof category !== 'string' || !THEME_CATEGORIES.includes(category)) {
+    errors.push(`category must be one of: ${THEME_CATEGORIES.join(', ')}`);
+  }
+
+  errors.push(...keywordErrors(keywords, 'keywords', 'en', true));
+  errors.push(...translationErrors(translations));
+
+  if (errors.length > 0) return { valid: false, errors };
+
+  const valid = theme as unknown as Theme;
+  valid.translations = translations as Record<string, ThemeTranslation>;
+  return { valid: true, theme: valid, warnings: keywordWarnings(valid) };
+}
+
+function keywordErrors(keywords: unknown, path: string, language: string, required: boolean): string[] {
+  if (!Array.isArray(keywords)) return [`${path} must be an array of strings`];
+  if (keywords.length === 0) return required ? [`${path} must not be empty`] : [];
+  if (keywords.length > MAX_KEYWORDS) return [`${path} must have at most ${MAX_KEYWORDS} keywords`];
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  keywords.forEach((keyword, index) => {
+    const at = `${path}[${index}]`;
+    if (typeof keyword !== 'string') {
+      errors.push(`${at} must be a string`);
+      return;
+    }
+    const length = [...keyword].length;
+    if (length < MIN_KEYWORD_LENGTH || length > MAX_KEYWORD_LENGTH) {
+      errors.push(`${at} must be ${MIN_KEYWORD_LENGTH}-${MAX_KEYWORD_LENGTH} characters`);
+    }
+    if (keyword !== keyword.trim().toLocaleLowerCase(language)) {
+      errors.push(`${at} must be lowercase without surrounding spaces`);
+    }
+    if (seen.has(keyword)) errors.push(`${at} repeats "${keyword}"`);
+    seen.add(keyword);
+  });
+  return errors;
+}
+
+function translationErrors(translations: unknown): string[] {
+  if (!translations || typeof translations !== 'object' || Array.isArray(translations)) {
+    return ['translations must be an object keyed by language'];
+  }
+
+  const errors: string[] = [];
+  for (const [language, translation] of Object.entries(translations)) {
+    const path = `translations.${language}`;
+    if (!TRANSLATION_LANGUAGE_PATTERN.test(language)) {
+      errors.push(`${path}: keys must be lowercase base languages ('es', 'pt')`);
+      continue;
+    }
+    if (!translation || typeof translation !== 'object' || Array.isArray(translation)) {
+      errors.push(`${path} must be an object`);
+      continue;
+    }
+
+    const fields = translation as Record<string, unknown>;
+    for (const field of Object.keys(fields)) {
+      if (!TRANSLATION_FIELDS.has(field)) errors.push(`${path}.${field} is not a translation field`);
+    }
+    if (fields.title !== undefined && (typeof fields.title !== 'string' || fields.title.trim().length === 0)) {
+      errors.push(`${path}.title must be a non-empty string`);
+    }
+    if (fields.summary !== undefined && (typeof fields.summary !== 'string' || [...fields.summary].length < MIN_SUMMARY_LENGTH)) {
+      errors.push(`${path}.summary must be at least ${MIN_SUMMARY_LENGTH} characters`);
+    }
+    if (fields.keywords !== undefined) {
+      errors.push(...keywordErrors(fields.keywords, `${path}.keywords`, language, false));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Keywords the scorer can never match: it compares single words, and drops
+ * negation words before matching. Unspaced languages match substrings.
+ */
+function keywordWarnings(theme: Theme): string[] {
+  const sets: Array<[string, string, string[]]> = [
+    ['keywords', 'en', theme.keywords],
+    ...Object.entries(theme.translations ?? {})
+      .map(([language, t]): [string, string, string[]] => [`translations.${language}.keywords`, language, t.keywords ?? []])
+  ];
+
+  const warnings: string[] = [];
+  for (const [path, language, keywords] of sets) {
+    if (isUnspacedLanguage(language)) continue;
+    keywords.forEach((keyword, index) => {
+      const words = tokenize(keyword, language).length;
+      if (words !== 1) {
+        warnings.push(`${path}[${index}] "${keyword}" never matches: ${words === 0 ? 'it is a negation word or has no letters' : 'the scorer matches single words'}`);
+      }
+    });
+  }
+  return warnings;
+}
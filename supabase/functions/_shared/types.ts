@@ -3,32 +3,45 @@
 // Shared TypeScript types used across multiple edge functions
 //
 // Purpose:
-// - Define common database table interfaces
-// - Define common response formats
-// - Ensure consistency across functions
-
-// TODO: Define common User type
-// export interface User {
-//   id: string
-//   email?: string
-//   user_metadata?: Record<string, any>
-// }
+// - Define the authenticated user shape
+// - Define the error envelope every function returns
+// - Define error codes produced by the shared request pipeline
+//
+// Note: Function-specific types should be in their own types.ts files
+// Only put truly shared types here
 
-// TODO: Define common error response format
-// export interface ErrorResponse {
-//   error: string
-//   details?: string
-//   code?: string
-// }
+/**
+ * Authenticated user (subset of the Supabase auth user)
+ */
+export interface User {
+  id: string;
+  email?: string;
+  user_metadata?: Record<string, unknown>;
+}
 
-// TODO: Define common success response format
-// export interface SuccessResponse<T> {
-//   data: T
-//   metadata?: {
-//     timestamp: string
-//     [key: string]: any
-//   }
-// }
+/**
+ * Error response sent to client (all functions)
+ */
+export interface ErrorResponse {
+  error: string;          // User-friendly error message
+  code: string;           // Stable error code for client handling
+  retryAfter?: number;    // Seconds to wait before retrying (429)
+  details?: string[];     // Validation errors, when there are several
+  debug?: unknown;        // Diagnostics, only when DEV_MODE=true
+}
 
-// Note: Function-specific types should be in their own types.ts files
-// Only put truly shared types here
+/**
+ * Error codes returned by the shared pipeline (_shared/http.ts)
+ * Functions add their own codes in their types.ts
+ */
+export enum SharedErrorCode {
+  AUTH_REQUIRED = 'AUTH_REQUIRED',
+  AUTH_FAILED = 'AUTH_FAILED',
+  FORBIDDEN = 'FORBIDDEN',
+  ORIGIN_NOT_ALLOWED = 'ORIGIN_NOT_ALLOWED',
+  METHOD_NOT_ALLOWED = 'METHOD_NOT_ALLOWED',
+  INVALID_JSON = 'INVALID_JSON',
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+  RATE_LIMITED = 'RATE_LIMITED',
+  INTERNAL_ERROR = 'INTERNAL_ERROR'
+}
@@ -0,0 +1,380 @@
+// handler.ts
+//
+// Request handler for admin-themes (served by index.ts)
+//
+// Features:
+// - Service role only (`auth: 'service'`): user JWTs get 403 FORBIDDEN
+// - GET: the catalog as stored, with its version
+// - POST: create, update or delete one theme
+// - Validation against the themes table constraints, every error at once
+// - Dry runs (`dryRun`) validate and preview without writing
+// - Previews (`sampleText`): how the text scores under the current and the
+//   proposed catalog, with the same scorer as new-user-insights
+// - Themes selected in user profiles can't be deleted (THEME_IN_USE)
+// - Every write bumps the catalog version (trigger on themes); running
+//   new-user-insights instances notice and reload their cached catalog
+//
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type {
+  CatalogPreview,
+  CatalogResponse,
+  PreviewTheme,
+  Theme,
+  ThemeAction,
+  ThemeChangeResponse
+} from './types.ts';
+import { fetchCatalogVersion, THEME_COLUMNS, validateTheme } from '../_shared/themes.ts';
+import type { ThemeCatalog } from '../_shared/themes.ts';
+import { scoreThemes } from '../_shared/theme-scoring.ts';
+import { createHandler, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { describeError, log } from '../_shared/logger.ts';
+import { parseLocaleParam, resolveLocale } from '../_shared/locale.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const FUNCTION_NAME = 'admin-themes';
+const ACTIONS: ThemeAction[] = ['create', 'update', 'delete'];
+const MIN_CATALOG_THEMES = 6;         // new-user-insights suggests up to 6
+const MAX_SAMPLE_TEXT_LENGTH = 2000;  // Same as a reflection
+const MAX_PREVIEW_THEMES = 6;
+
+// Postgres error codes from the themes table
+const UNIQUE_VIOLATION = '23505';
+const CHECK_VIOLATION = '23514';
+const FOREIGN_KEY_VIOLATION = '23503';   // trigger_prevent_selected_theme_delete
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+// CORS, method, service-role check and JSON parsing: _shared/http.ts
+export const handler = createHandler({
+  name: FUNCTION_NAME,
+  methods: ['GET', 'POST'],
+  auth: 'service'
+}, async ({ req, supabase, body }) => {
+  try {
+    // ============================================================
+    // 1. LOAD THE CATALOG (uncached: admins see what is stored)
+    // ============================================================
+
+    const current = await loadCatalog(supabase);
+    if (!current) {
+      return jsonResponse(
+        { error: 'Failed to load themes', code: 'THEMES_ERROR' },
+        500
+      );
+    }
+
+    if (req.method === 'GET') {
+      const response: CatalogResponse = { version: current.version, themes: current.themes };
+      return jsonResponse(response, 200);
+    }
+
+    // ============================================================
+    // 2. VALIDATE REQUEST
+    // ============================================================
+
+    const { action, name, theme: input, dryRun = false, sampleText, locale: localeParam } = body;
+
+    if (typeof action !== 'string' || !ACTIONS.includes(action as ThemeAction)) {
+      return jsonResponse(
+        { error: `action must be one of: ${ACTIONS.join(', ')}`, code: 'INVALID_ACTION' },
+        400
+      );
+    }
+
+    if (typeof dryRun !== 'boolean') {
+      return jsonResponse(
+        { error: 'dryRun must be a boolean', code: 'INVALID_DRY_RUN' },
+        400
+      );
+    }
+
+    if (sampleText !== undefined &&
+      (typeof sampleText !== 'string' || sampleText.trim().length === 0 || [...sampleText].length > MAX_SAMPLE_TEXT_LENGTH)) {
+      return jsonResponse(
+        { error: `sampleText must be 1-${MAX_SAMPLE_TEXT_LENGTH} characters`, code: 'INVALID_SAMPLE_TEXT' },
+        400
+      );
+    }
+
+    const localeResult = parseLocaleParam(localeParam);
+    if (!localeResult.ok) {
+      return jsonResponse(
+        { error: localeResult.error, code: 'INVALID_LOCALE' },
+        400
+      );
+    }
+
+    // ============================================================
+    // 3. APPLY THE CHANGE TO A COPY OF THE CATALOG
+    // ============================================================
+
+    const change = planChange(action as ThemeAction, name, input, current.themes);
+    if ('response' in change) return change.response;
+
+    if (action === 'delete') {
+      const inUse = await isThemeSelected(supabase, change.theme.name);
+      if (inUse === null) {
+        return errorResponse(500, 'PROFILES_ERROR', 'Failed to check theme usage');
+      }
+      if (inUse) return themeInUse(change.theme.name);
+    }
+
+    log.info('Theme change planned', { action, theme: change.theme.name, dryRun, warnings: change.warnings.length });
+
+    const preview = typeof sampleText === 'string'
+      ? buildPreview(sampleText, localeResult.locale, req, current.themes, change.catalog)
+      : undefined;
+
+    if (dryRun) {
+      const response: ThemeChangeResponse = {
+        action: action as ThemeAction,
+        dryRun: true,
+        theme: change.theme,
+        warnings: change.warnings,
+        version: current.version,
+        ...(preview ? { preview } : {})
+      };
+      return jsonResponse(response, 200);
+    }
+
+    // ============================================================
+    // 4. WRITE (the themes trigger bumps the catalog version)
+    // ============================================================
+
+    const saved = await saveChange(supabase, action as ThemeAction, change.theme);
+    if ('response' in saved) return saved.response;
+
+    const version = await fetchCatalogVersion(supabase);
+    log.info('Theme change saved', { action, theme: saved.theme.name, version });
+
+    const response: ThemeChangeResponse = {
+      action: action as ThemeAction,
+      dryRun: false,
+      theme: saved.theme,
+      warnings: change.warnings,
+      version,
+      ...(preview ? { preview } : {})
+    };
+    return jsonResponse(response, action === 'create' ? 201 : 200);
+
+  } catch (error) {
+    log.error('Theme admin request failed', { error: describeError(error, true) });
+
+    return errorResponse(
+      500,
+      'INTERNAL_ERROR',
+      'Theme change failed. Please try again.',
+      { debug: describeError(error, true) }
+    );
+  }
+});
+
+// ============================================================
+// HELPER FUNCTIONS
+// ============================================================
+
+type PlannedChange =
+  | { theme: Theme; warnings: string[]; catalog: Theme[] }
+  | { response: Response };
+
+type SavedChange = { theme: Theme } | { response: Response };
+
+/**
+ * Catalog and version straight from the database (version read first, so
+ * a concurrent edit can only make it look older, never newer)
+ */
+async function loadCatalog(supabase: SupabaseClient): Promise<ThemeCatalog | null> {
+  const version = await fetchCatalogVersion(supabase);
+  const { data: themes, error } = await supabase
+    .from('themes')
+    .select(THEME_COLUMNS)
+    .order('name');
+
+  if (error || !themes) {
+    log.error('Themes fetch failed', { error });
+    return null;
+  }
+  return { themes: themes as Theme[], version };
+}
+
+/**
+ * Validate the change and build the catalog it would produce
+ */
+function planChange(action: ThemeAction, name: unknown, input: unknown, themes: Theme[]): PlannedChange {
+  if (action === 'create') {
+    const result = validateTheme(input);
+    if (!result.valid) return { response: invalidTheme(result.errors) };
+
+    if (themes.some(t => t.name === result.theme.name)) {
+      return {
+        response: jsonResponse(
+          { error: `Theme ${result.theme.name} already exists`, code: 'THEME_EXISTS' },
+          409
+        )
+      };
+    }
+    return {
+      theme: result.theme,
+      warnings: result.warnings,
+      catalog: [...themes, result.theme]
+    };
+  }
+
+  if (typeof name !== 'string' || name.length === 0) {
+    return {
+      response: jsonResponse(
+        { error: `name is required to ${action} a theme`, code: 'MISSING_NAME' },
+        400
+      )
+    };
+  }
+
+  const existing = themes.find(t => t.name === name);
+  if (!existing) {
+    return {
+      response: jsonResponse(
+        { error: `Theme ${name} not found`, code: 'THEME_NOT_FOUND' },
+        404
+      )
+    };
+  }
+
+  if (action === 'delete') {
+    if (themes.length - 1 < MIN_CATALOG_THEMES) {
+      return {
+        response: jsonResponse(
+          { error: `The catalog needs at least ${MIN_CATALOG_THEMES} themes`, code: 'CATALOG_TOO_SMALL' },
+          409
+        )
+      };
+    }
+    return {
+      theme: existing,
+      warnings: [],
+      catalog: themes.filter(t => t !== existing)
+    };
+  }
+
+  const result = validateTheme(input ?? {}, existing);
+  if (!result.valid) return { response: invalidTheme(result.errors) };
+
+  return {
+    theme: result.theme,
+    warnings: result.warnings,
+    catalog: themes.map(t => t === existing ? result.theme : t)
+  };
+}
+
+async function saveChange(supabase: SupabaseClient, action: ThemeAction, theme: Theme): Promise<SavedChange> {
+  const { name, ...fields } = theme;
+
+  const query = action === 'create'
+    ? supabase.from('themes').insert(theme)
+    : action === 'update'
+    ? supabase.from('themes').update(fields).eq('name', name)
+    : supabase.from('themes').delete().eq('name', name);
+
+  const { data, error } = await query.select(THEME_COLUMNS);
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return {
+        response: jsonResponse(
+          { error: `Theme ${name} already exists`, code: 'THEME_EXISTS' },
+          409
+        )
+      };
+    }
+    if (error.code === CHECK_VIOLATION) {
+      return { response: invalidTheme([error.message]) };
+    }
+    if (error.code === FOREIGN_KEY_VIOLATION) {
+      return { response: themeInUse(name) };
+    }
+
+    log.error('Theme save failed', { action, error });
+    return {
+      response: jsonResponse(
+        { error: 'Failed to save theme', code: 'SAVE_ERROR' },
+        500
+      )
+    };
+  }
+
+  // Deleted or renamed between the catalog read and the write
+  if (!data || data.length === 0) {
+    return {
+      response: jsonResponse(
+        { error: `Theme ${name} not found`, code: 'THEME_NOT_FOUND' },
+        404
+      )
+    };
+  }
+
+  return { theme: data[0] as Theme };
+}
+
+/**
+ * Whether any profile has the theme in identified_themes (null: query failed)
+ * Deleting it would make validate_theme_names() reject those profiles' writes
+ */
+async function isThemeSelected(supabase: SupabaseClient, name: string): Promise<boolean | null> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('user_id')
+    .contains('identified_themes', [name])
+    .limit(1);
+
+  if (error) {
+    log.error('Theme usage check failed', { error });
+    return null;
+  }
+  return (data ?? []).length > 0;
+}
+
+function themeInUse(name: string): Response {
+  return errorResponse(409, 'THEME_IN_USE', `Theme ${name} is selected by users and can't be deleted`);
+}
+
+function invalidTheme(errors: string[]): Response {
+  return errorResponse(400, 'INVALID_THEME', 'Theme is invalid', { details: errors });
+}
+
+/**
+ * Score the sample text under both catalogs, in the text's language
+ */
+function buildPreview(
+  sampleText: string,
+  requestedLocale: string | null,
+  req: Request,
+  current: Theme[],
+  proposed: Theme[]
+): CatalogPreview {
+  const text = sampleText.trim().normalize('NFC');
+  const { language } = resolveLocale(requestedLocale, [text], req);
+
+  return {
+    language,
+    current: previewThemes(text, current, language),
+    proposed: previewThemes(text, proposed, language)
+  };
+}
+
+function previewThemes(text: string, themes: Theme[], language: string): PreviewTheme[] {
+  return scoreThemes(text, themes, language)
+    .filter(t => t.rawScore > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PREVIEW_THEMES)
+    .map(t => ({
+      name: t.theme.name,
+      score: Number(t.score.toFixed(2)),
+      rawScore: Number(t.rawScore.toFixed(2)),
+      matchedKeywords: t.matchedKeywords
+    }));
+}
@@ -0,0 +1,14 @@
+// index.ts
+//
+// Edge function for managing the themes catalog (service role only)
+//
+// The request handler lives in handler.ts so tests can call it without
+// binding a port (supabase/functions/tests).
+//
+// Deploy: supabase functions deploy admin-themes
+//
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { handler } from './handler.ts';
+
+serve(handler);
@@ -0,0 +1,97 @@
+// types.ts
+//
+// TypeScript type definitions for admin-themes edge function
+//
+
+import type { Theme } from '../_shared/themes.ts';
+
+export type { Theme, ThemeTranslation } from '../_shared/themes.ts';
+
+// ============================================================
+// REQUEST TYPES
+// ============================================================
+
+export type ThemeAction = 'create' | 'update' | 'delete';
+
+/**
+ * POST body: one catalog change
+ * create: `theme` is the full theme
+ * update: `name` picks the theme, `theme` holds the fields to replace
+ * delete: `name` picks the theme
+ */
+export interface ThemeChangeRequest {
+  action: ThemeAction;
+  name?: string;
+  theme?: Partial<Theme>;
+  dryRun?: boolean;            // Validate and preview without writing
+  sampleText?: string;         // Score this text under the current and proposed catalogs
+  locale?: string;             // Preview language (default: detected from sampleText)
+}
+
+// ============================================================
+// RESPONSE TYPES
+// ============================================================
+
+/**
+ * GET: the catalog as stored, with its version
+ */
+export interface CatalogResponse {
+  version: number | null;
+  themes: Theme[];
+}
+
+/**
+ * How one theme scores against the sample text
+ */
+export interface PreviewTheme {
+  name: string;
+  score: number;               // Normalized 0-1, as in new-user-insights
+  rawScore: number;
+  matchedKeywords: string[];
+}
+
+/**
+ * Matching themes for the sample text before and after the change,
+ * best first
+ */
+export interface CatalogPreview {
+  language: string;
+  current: PreviewTheme[];
+  proposed: PreviewTheme[];
+}
+
+export interface ThemeChangeResponse {
+  action: ThemeAction;
+  dryRun: boolean;
+  theme: Theme;                // As saved (delete: as it was)
+  warnings: string[];          // Keywords that can never match
+  version: number | null;      // Catalog version after the change (dry run: current)
+  preview?: CatalogPreview;    // Only with sampleText
+}
+
+// ============================================================
+// ERROR TYPES
+// ============================================================
+
+export type { ErrorResponse } from '../_shared/types.ts';
+
+/**
+ * Error codes used in responses
+ * The shared pipeline adds AUTH_REQUIRED, FORBIDDEN, METHOD_NOT_ALLOWED,
+ * INVALID_JSON and PAYLOAD_TOO_LARGE (_shared/types.ts)
+ */
+export enum ErrorCode {
+  INVALID_ACTION = 'INVALID_ACTION',
+  MISSING_NAME = 'MISSING_NAME',
+  INVALID_THEME = 'INVALID_THEME',
+  INVALID_DRY_RUN = 'INVALID_DRY_RUN',
+  INVALID_SAMPLE_TEXT = 'INVALID_SAMPLE_TEXT',
+  INVALID_LOCALE = 'INVALID_LOCALE',
+  THEME_EXISTS = 'THEME_EXISTS',
+  THEME_NOT_FOUND = 'THEME_NOT_FOUND',
+  CATALOG_TOO_SMALL = 'CATALOG_TOO_SMALL',
+  THEME_IN_USE = 'THEME_IN_USE',          // Selected in user profiles
+  PROFILES_ERROR = 'PROFILES_ERROR',
+  THEMES_ERROR = 'THEMES_ERROR',
+  SAVE_ERROR = 'SAVE_ERROR'
+}
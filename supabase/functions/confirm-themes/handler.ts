@@ -0,0 +1,232 @@
+// handler.ts
+//
+// Request handler for confirming the themes a user picked from their last
+// new-user-insights analysis (served by index.ts)
+//
+// Features:
+// - Selection must come from the stored analysis (`themes` or `runnersUp`)
+// - Count within one of the analysis' `recommendedCount` (and 3-6 overall)
+// - `analyzedAt` must match the stored analysis: a selection made from a
+//   replaced analysis is rejected, not saved
+// - One atomic write through confirm_theme_selection(), which repeats the
+//   row-dependent checks (including the count) under a lock
+//
+
+import type { ConfirmState, ConfirmThemesResponse } from './types.ts';
+import type { AnalysisResponse } from '../new-user-insights/types.ts';
+import { createHandler, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { describeError, log } from '../_shared/logger.ts';
+import type { RateLimitPolicy } from '../_shared/rate-limit.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const MIN_THEMES = 3;             // check_themes_count on user_profiles
+const MAX_THEMES = 6;
+const COUNT_TOLERANCE = 1;        // Either side of recommendedCount
+
+// Request rate limits (overridable via RATE_LIMIT_CONFIRM_THEMES_USER / _IP)
+const FUNCTION_NAME = 'confirm-themes';
+const RATE_LIMITS: RateLimitPolicy = {
+  user: { capacity: 10, refillPerHour: 10 },
+  ip: { capacity: 30, refillPerHour: 60 }
+};
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+// CORS, method, rate limits, authentication and JSON parsing: _shared/http.ts
+export const handler = createHandler({
+  name: FUNCTION_NAME,
+  rateLimits: RATE_LIMITS
+}, async ({ user, supabase, body }) => {
+  try {
+    // ============================================================
+    // 1. VALIDATE INPUT
+    // ============================================================
+
+    const { themes, analyzedAt } = body;
+
+    if (!Array.isArray(themes) || themes.length === 0 ||
+      !themes.every(t => typeof t === 'string' && t.length > 0)) {
+      return jsonResponse(
+        { error: 'themes must be a non-empty list of theme names', code: 'INVALID_THEMES' },
+        400
+      );
+    }
+
+    if (new Set(themes).size !== themes.length) {
+      return jsonResponse(
+        { error: 'themes must not contain duplicates', code: 'INVALID_THEMES' },
+        400
+      );
+    }
+
+    if (typeof analyzedAt !== 'string' || Number.isNaN(Date.parse(analyzedAt))) {
+      return jsonResponse(
+        { error: 'analyzedAt must be the analyzedAt of the analysis', code: 'INVALID_ANALYZED_AT' },
+        400
+      );
+    }
+
+    // ============================================================
+    // 2. CHECK AGAINST THE STORED ANALYSIS
+    // ============================================================
+
+    const { data: profile, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('themes_analyzed_at, themes_analysis')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      log.error('Profile fetch failed', { error: profileError });
+      return jsonResponse(
+        { error: 'Failed to fetch user profile', code: 'PROFILE_ERROR' },
+        500
+      );
+    }
+
+    const analysis = profile?.themes_analysis as AnalysisResponse | null;
+    if (!analysis || !profile?.themes_analyzed_at) {
+      return noAnalysis();
+    }
+
+    if (!sameInstant(analyzedAt, profile.themes_analyzed_at)) {
+      log.warn('Selection from a replaced analysis');
+      return staleAnalysis();
+    }
+
+    const suggested = new Set([...analysis.themes, ...(analysis.runnersUp ?? [])].map(t => t.name));
+    const notSuggested = (themes as string[]).filter(name => !suggested.has(name));
+    if (notSuggested.length > 0) {
+      return notSuggestedError(notSuggested);
+    }
+
+    const { min, max } = countRange(analysis.recommendedCount);
+    if (themes.length < min || themes.length > max) {
+      return invalidCount(analysis.recommendedCount);
+    }
+
+    // ============================================================
+    // 3. SAVE ATOMICALLY
+    // ============================================================
+
+    // The stored timestamp, not the client's spelling of it
+    const { data, error: saveError } = await supabase.rpc('confirm_theme_selection', {
+      p_user_id: user.id,
+      p_themes: themes,
+      p_analyzed_at: profile.themes_analyzed_at
+    });
+
+    const result = Array.isArray(data) ? data[0] : data;
+    if (saveError || !result) {
+      log.error('Theme selection save failed', { error: saveError });
+      return jsonResponse(
+        { error: 'Failed to save theme selection', code: 'SAVE_ERROR' },
+        500
+      );
+    }
+
+    // Changed between the profile read and the locked write
+    switch (result.state as ConfirmState) {
+      case 'confirmed':
+        break;
+      case 'no_analysis':
+        return noAnalysis();
+      case 'stale':
+        log.warn('Analysis replaced during confirmation');
+        return staleAnalysis();
+      case 'not_suggested':
+        return notSuggestedError(themes as string[]);
+      case 'invalid_count':
+        return invalidCount(analysis.recommendedCount);
+      default:
+        log.error('Unexpected confirm state', { state: result.state });
+        return jsonResponse(
+          { error: 'Failed to save theme selection', code: 'SAVE_ERROR' },
+          500
+        );
+    }
+
+    log.info('Theme selection confirmed', { selectionCount: result.theme_selection_count, recommendedCount: analysis.recommendedCount });
+
+    // ============================================================
+    // 4. RETURN RESPONSE
+    // ============================================================
+
+    const response: ConfirmThemesResponse = {
+      themes: result.identified_themes,
+      selectionCount: result.theme_selection_count,
+      recommendedCount: analysis.recommendedCount,
+      analyzedAt: profile.themes_analyzed_at,
+      confirmedAt: result.themes_confirmed_at
+    };
+    return jsonResponse(response, 200);
+
+  } catch (error) {
+    log.error('Theme confirmation failed', { error: describeError(error, true) });
+
+    return errorResponse(
+      500,
+      'INTERNAL_ERROR',
+      'Failed to confirm themes. Please try again.',
+      { debug: describeError(error, true) }
+    );
+  }
+});
+
+// ============================================================
+// HELPER FUNCTIONS
+// ============================================================
+
+/**
+ * Allowed selection sizes around the analysis' recommendation
+ */
+function countRange(recommendedCount: number): { min: number; max: number } {
+  return {
+    min: Math.max(MIN_THEMES, recommendedCount - COUNT_TOLERANCE),
+    max: Math.min(MAX_THEMES, recommendedCount + COUNT_TOLERANCE)
+  };
+}
+
+/**
+ * Timestamps from the client and from Postgres differ in format
+ * ('Z' vs '+00:00', fractional digits); compare the instants
+ */
+function sameInstant(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+function noAnalysis(): Response {
+  return jsonResponse(
+    { error: 'Analyze a reflection before confirming themes', code: 'NO_ANALYSIS' },
+    409
+  );
+}
+
+function staleAnalysis(): Response {
+  return jsonResponse(
+    { error: 'A newer analysis replaced the one these themes were picked from', code: 'STALE_ANALYSIS' },
+    409
+  );
+}
+
+function invalidCount(recommendedCount: number): Response {
+  const { min, max } = countRange(recommendedCount);
+  return jsonResponse(
+    { error: `Select between ${min} and ${max} themes`, code: 'INVALID_THEME_COUNT' },
+    400
+  );
+}
+
+function notSuggestedError(names: string[]): Response {
+  return errorResponse(
+    400,
+    'THEMES_NOT_SUGGESTED',
+    'Only themes from the last analysis can be selected',
+    { details: names }
+  );
+}
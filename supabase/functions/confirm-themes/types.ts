@@ -0,0 +1,55 @@
+// types.ts
+//
+// TypeScript type definitions for confirm-themes edge function
+//
+
+// ============================================================
+// REQUEST TYPES (from Swift app)
+// ============================================================
+
+/**
+ * Themes the user picked from their last analysis (new-user-insights)
+ */
+export interface ConfirmThemesRequest {
+  themes: string[];           // Theme names, from `themes` or `runnersUp`
+  analyzedAt: string;         // `analyzedAt` of the analysis they were picked from
+}
+
+// ============================================================
+// RESPONSE TYPES
+// ============================================================
+
+export interface ConfirmThemesResponse {
+  themes: string[];           // As saved to user_profiles.identified_themes
+  selectionCount: number;
+  recommendedCount: number;   // From the analysis
+  analyzedAt: string;
+  confirmedAt: string;
+}
+
+/**
+ * Outcome of confirm_theme_selection()
+ */
+export type ConfirmState = 'confirmed' | 'no_analysis' | 'stale' | 'not_suggested' | 'invalid_count';
+
+// ============================================================
+// ERROR TYPES
+// ============================================================
+
+export type { ErrorResponse } from '../_shared/types.ts';
+
+/**
+ * Error codes used in responses
+ * The shared pipeline adds AUTH_REQUIRED, AUTH_FAILED, INVALID_JSON,
+ * PAYLOAD_TOO_LARGE and RATE_LIMITED (_shared/types.ts)
+ */
+export enum ErrorCode {
+  INVALID_THEMES = 'INVALID_THEMES',                // Not a list of distinct names
+  INVALID_ANALYZED_AT = 'INVALID_ANALYZED_AT',
+  THEMES_NOT_SUGGESTED = 'THEMES_NOT_SUGGESTED',    // details: the names
+  INVALID_THEME_COUNT = 'INVALID_THEME_COUNT',
+  NO_ANALYSIS = 'NO_ANALYSIS',                      // Analyze a reflection first
+  STALE_ANALYSIS = 'STALE_ANALYSIS',                // A newer analysis replaced it
+  PROFILE_ERROR = 'PROFILE_ERROR',
+  SAVE_ERROR = 'SAVE_ERROR'
+}
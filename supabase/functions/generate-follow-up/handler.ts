@@ -0,0 +1,319 @@
+// handler.ts
+//
+// Request handler for generating personalized follow-up questions
+// (served by index.ts)
+//
+// Features:
+// - One question set per ISO week: once the week has stored questions,
+//   they are returned instead of generating more
+// - Sliding window over recent journal entries (default 14 days)
+// - TF-IDF + cosine similarity against a curated question bank
+// - Unified IDF space for entries and questions (comparable scores)
+// - Dedupe against questions the user received in earlier weeks
+// - Theme diversity (max 2 questions per theme)
+// - Saves top N to follow_up_questions for the current ISO week; concurrent
+//   requests for the same week don't store a question twice
+//
+
+import { precomputeQuestionVectors } from './precompute.ts';
+import { questionBank } from './question-bank.ts';
+import { computeTFIDF, cosineSimilarity, removeStopWords, tokenize } from './tfidf.ts';
+import type { FollowUpResponse, QuestionWithScore, ScoredQuestion, StoredQuestion } from './types.ts';
+import { createHandler, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { describeError, log } from '../_shared/logger.ts';
+import type { RateLimitPolicy } from '../_shared/rate-limit.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const DEFAULT_LOOKBACK_DAYS = 14;
+const MAX_LOOKBACK_DAYS = 90;
+const DEFAULT_QUESTION_COUNT = 5;
+const MAX_QUESTION_COUNT = 10;
+const MAX_ENTRIES = 50;               // Most recent entries inside the window
+const MAX_PER_THEME = 2;              // Keep the weekly set varied
+const MIN_RELEVANCE_SCORE = 0.01;     // Drop questions with no overlap at all
+
+// Request rate limits (overridable via RATE_LIMIT_GENERATE_FOLLOW_UP_USER / _IP)
+const FUNCTION_NAME = 'generate-follow-up';
+const RATE_LIMITS: RateLimitPolicy = {
+  user: { capacity: 10, refillPerHour: 10 },
+  ip: { capacity: 30, refillPerHour: 60 }
+};
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+// CORS, method, rate limits, authentication and JSON parsing: _shared/http.ts
+// Empty body is allowed - every field has a default
+export const handler = createHandler({
+  name: FUNCTION_NAME,
+  rateLimits: RATE_LIMITS,
+  allowEmptyBody: true
+}, async ({ user, supabase, body }) => {
+  try {
+    // ============================================================
+    // 1. VALIDATE INPUT
+    // ============================================================
+
+    const lookbackDays = clampInt(body.lookbackDays, DEFAULT_LOOKBACK_DAYS, 1, MAX_LOOKBACK_DAYS);
+    const count = clampInt(body.count, DEFAULT_QUESTION_COUNT, 1, MAX_QUESTION_COUNT);
+    const saveToDatabase = body.saveToDatabase !== false;
+
+    const now = new Date();
+    const { week: weekNumber, year } = getISOWeek(now);
+
+    // ============================================================
+    // 2. THIS WEEK'S SET, IF ALREADY GENERATED
+    // ============================================================
+
+    const { data: asked, error: askedError } = await supabase
+      .from('follow_up_questions')
+      .select('question_text, relevance_score, generated_at, week_number, year')
+      .eq('user_id', user.id);
+
+    if (askedError) {
+      log.error('Previous questions fetch failed', { error: askedError });
+      return jsonResponse(
+        { error: 'Failed to load previous questions', code: 'QUESTIONS_ERROR' },
+        500
+      );
+    }
+
+    const previous = (asked ?? []) as StoredQuestion[];
+    const thisWeek = previous
+      .filter(q => q.year === year && q.week_number === weekNumber)
+      .sort((a, b) => b.relevance_score - a.relevance_score);
+
+    if (thisWeek.length > 0) {
+      log.info('Returning this week\'s questions', { weekNumber, year, questions: thisWeek.length });
+      const stored = thisWeek.slice(0, count);
+      const themes = stored.map(q => questionBank.find(b => b.text === q.question_text)?.theme ?? q.question_text);
+      const response: FollowUpResponse = {
+        questions: stored.map(q => ({ text: q.question_text, score: q.relevance_score })),
+        metadata: {
+          entriesAnalyzed: 0,
+          generatedAt: new Date(thisWeek[0].generated_at).toISOString(),
+          themesCount: new Set(themes).size,
+          lookbackDays,
+          savedToDatabase: true,
+          reused: true,
+          weekNumber,
+          year
+        }
+      };
+      return jsonResponse(response, 200);
+    }
+
+    // ============================================================
+    // 3. LOAD RECENT ENTRIES (sliding window)
+    // ============================================================
+
+    const since = new Date(now.getTime() - lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: entries, error: entriesError } = await supabase
+      .from('entries')
+      .select('title, text, created_at')
+      .eq('user_id', user.id)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(MAX_ENTRIES);
+
+    if (entriesError) {
+      log.error('Entries fetch failed', { error: entriesError });
+      return jsonResponse(
+        { error: 'Failed to load journal entries', code: 'ENTRIES_ERROR' },
+        500
+      );
+    }
+
+    const userDocuments = ((entries ?? []) as Array<{ title: string | null; text: string }>)
+      .map(e => removeStopWords(tokenize(`${e.title ?? ''} ${e.text}`)))
+      .filter(doc => doc.length > 0);
+
+    if (userDocuments.length === 0) {
+      log.info('No usable entries', { lookbackDays });
+      return jsonResponse(
+        buildResponse([], 0, now, lookbackDays, false, weekNumber, year),
+        200
+      );
+    }
+
+    log.info('Entries loaded', { entries: userDocuments.length, lookbackDays });
+
+    // ============================================================
+    // 4. RANK QUESTION BANK (unified IDF + cosine similarity)
+    // ============================================================
+
+    const { questions, idf } = precomputeQuestionVectors(userDocuments);
+
+    // All recent writing as one profile document
+    const entryVector = computeTFIDF(userDocuments.flat(), idf);
+
+    const scored: ScoredQuestion[] = questions
+      .map(({ question, vector }) => ({
+        question,
+        score: cosineSimilarity(entryVector, vector)
+      }))
+      .filter(q => q.score >= MIN_RELEVANCE_SCORE)
+      .sort((a, b) => b.score - a.score);
+
+    log.info('Questions scored', {
+      vocabulary: idf.size,
+      top: scored.slice(0, 3).map(q => ({ question: q.question.id, score: roundScore(q.score) }))
+    });
+
+    // ============================================================
+    // 5. DEDUPE AGAINST EARLIER WEEKS
+    // ============================================================
+
+    const alreadyAsked = new Set(previous.map(q => q.question_text));
+    const selected = selectQuestions(
+      scored.filter(q => !alreadyAsked.has(q.question.text)),
+      count
+    );
+
+    log.info('Questions selected', { selected: selected.length, previouslyAsked: alreadyAsked.size });
+
+    // ============================================================
+    // 6. SAVE TO DATABASE (current ISO week)
+    // ============================================================
+
+    let savedToDatabase = false;
+
+    if (saveToDatabase && selected.length > 0) {
+      // A concurrent request may have saved the same questions first
+      const { error: saveError } = await supabase
+        .from('follow_up_questions')
+        .upsert(selected.map(q => ({
+          user_id: user.id,
+          question_text: q.question.text,
+          relevance_score: roundScore(q.score),
+          generated_at: now.toISOString(),
+          week_number: weekNumber,
+          year
+        })), {
+          onConflict: 'user_id,year,week_number,question_text',
+          ignoreDuplicates: true
+        });
+
+      if (saveError) {
+        log.error('Questions save failed', { error: saveError });
+        return jsonResponse(
+          { error: 'Failed to save questions', code: 'SAVE_ERROR' },
+          500
+        );
+      }
+
+      savedToDatabase = true;
+      log.info('Questions saved', { questions: selected.length, weekNumber, year });
+    }
+
+    // ============================================================
+    // 7. RETURN RESPONSE
+    // ============================================================
+
+    return jsonResponse(
+      buildResponse(selected, userDocuments.length, now, lookbackDays, savedToDatabase, weekNumber, year),
+      200
+    );
+
+  } catch (error) {
+    log.error('Follow-up generation failed', { error: describeError(error, true) });
+
+    return errorResponse(
+      500,
+      'INTERNAL_ERROR',
+      'Question generation failed. Please try again.',
+      { debug: describeError(error, true) }
+    );
+  }
+});
+
+// ============================================================
+// HELPER FUNCTIONS
+// ============================================================
+
+/**
+ * Pick the top N questions, capping how many come from one theme
+ * Input must already be sorted by score descending
+ */
+function selectQuestions(scored: ScoredQuestion[], count: number): ScoredQuestion[] {
+  const perTheme = new Map<string, number>();
+  const selected: ScoredQuestion[] = [];
+
+  for (const candidate of scored) {
+    if (selected.length >= count) break;
+
+    const themeCount = perTheme.get(candidate.question.theme) ?? 0;
+    if (themeCount >= MAX_PER_THEME) continue;
+
+    perTheme.set(candidate.question.theme, themeCount + 1);
+    selected.push(candidate);
+  }
+
+  return selected;
+}
+
+/**
+ * Build the response body sent to the app
+ */
+function buildResponse(
+  selected: ScoredQuestion[],
+  entriesAnalyzed: number,
+  generatedAt: Date,
+  lookbackDays: number,
+  savedToDatabase: boolean,
+  weekNumber: number,
+  year: number
+): FollowUpResponse {
+  const questions: QuestionWithScore[] = selected.map(q => ({
+    text: q.question.text,
+    score: roundScore(q.score)
+  }));
+
+  return {
+    questions,
+    metadata: {
+      entriesAnalyzed,
+      generatedAt: generatedAt.toISOString(),
+      themesCount: new Set(selected.map(q => q.question.theme)).size,
+      lookbackDays,
+      savedToDatabase,
+      reused: false,
+      weekNumber,
+      year
+    }
+  };
+}
+
+/**
+ * ISO-8601 week number and week-numbering year
+ * Matches Postgres EXTRACT(WEEK ...) / EXTRACT(ISOYEAR ...)
+ */
+function getISOWeek(date: Date): { week: number; year: number } {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // Thursday of the current week decides the year
+  const dayOfWeek = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - dayOfWeek);
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((d.getTime() - yearStart.getTime()) / 86_400_000 + 1) / 7);
+  return { week, year: d.getUTCFullYear() };
+}
+
+/**
+ * Parse an optional integer parameter with bounds
+ */
+function clampInt(value: unknown, fallback: number, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+/**
+ * Round similarity scores for storage/response
+ */
+function roundScore(score: number): number {
+  return Math.round(score * 10000) / 10000;
+}
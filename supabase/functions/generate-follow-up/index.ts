@@ -0,0 +1,14 @@
+// index.ts
+//
+// Edge function for generating personalized follow-up questions
+//
+// The request handler lives in handler.ts so tests can call it without
+// binding a port (supabase/functions/tests).
+//
+// Deploy: supabase functions deploy generate-follow-up
+//
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { handler } from './handler.ts';
+
+serve(handler);
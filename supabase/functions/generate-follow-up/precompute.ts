@@ -0,0 +1,46 @@
+// precompute.ts
+//
+// Pre-compute question vectors in a unified IDF space
+//
+// Question vectors and the user's entry vector must share one IDF,
+// otherwise cosine similarity compares weights from different scales.
+// The IDF is therefore computed over question documents + user entry
+// documents on every request; question tokens are cached at module level
+// since the bank is static.
+//
+
+import { questionBank } from './question-bank.ts';
+import { computeIDF, computeTFIDF, removeStopWords, tokenize } from './tfidf.ts';
+import type { PrecomputedQuestions, Question } from './types.ts';
+
+// Tokenized question documents (loaded once, reused across requests)
+let questionDocumentsCache: string[][] | null = null;
+
+/**
+ * Tokenize a question: text + keywords for a richer representation
+ */
+function questionDocument(question: Question): string[] {
+  const combinedText = question.text + ' ' + question.keywords.join(' ');
+  return removeStopWords(tokenize(combinedText));
+}
+
+/**
+ * Compute question vectors with an IDF shared with the user's entries
+ */
+export function precomputeQuestionVectors(
+  userEntryDocuments: string[][]
+): PrecomputedQuestions {
+  if (!questionDocumentsCache) {
+    questionDocumentsCache = questionBank.map(questionDocument);
+  }
+  const questionDocuments = questionDocumentsCache;
+
+  const idf = computeIDF([...questionDocuments, ...userEntryDocuments]);
+
+  const questions = questionBank.map((question, idx) => ({
+    question,
+    vector: computeTFIDF(questionDocuments[idx], idf)
+  }));
+
+  return { questions, idf };
+}
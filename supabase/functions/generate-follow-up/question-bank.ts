@@ -0,0 +1,355 @@
+// question-bank.ts
+//
+// Curated follow-up questions database
+//
+// - Grouped by theme (slugs match the themes table where one exists)
+// - keywords add vocabulary the question text alone doesn't carry,
+//   so short questions still have meaningful TF-IDF vectors
+// - Question text is stored verbatim in follow_up_questions.question_text,
+//   so editing a question's wording makes it eligible again for users
+//   who already received the old version
+//
+
+import type { Question } from './types.ts';
+
+export const questionBank: Question[] = [
+  // ============================================================
+  // STRESS & ENERGY
+  // ============================================================
+  {
+    id: 'stress-01',
+    text: 'What strategies help you manage stress when everything feels urgent?',
+    theme: 'stress-energy',
+    keywords: ['stress', 'overwhelmed', 'pressure', 'deadline', 'urgent', 'cope', 'manage']
+  },
+  {
+    id: 'stress-02',
+    text: 'Which part of your week drained your energy the most, and why?',
+    theme: 'stress-energy',
+    keywords: ['drained', 'energy', 'exhausted', 'tired', 'busy', 'burnout']
+  },
+  {
+    id: 'stress-03',
+    text: 'What would a realistic pause look like for you this week?',
+    theme: 'stress-energy',
+    keywords: ['rest', 'break', 'pause', 'overwhelm', 'busy', 'schedule']
+  },
+  {
+    id: 'stress-04',
+    text: 'When you notice burnout creeping in, what is the first sign?',
+    theme: 'stress-energy',
+    keywords: ['burnout', 'exhausted', 'fatigue', 'stressed', 'workload', 'signs']
+  },
+  {
+    id: 'stress-05',
+    text: 'What restores your energy after a demanding day?',
+    theme: 'stress-energy',
+    keywords: ['energy', 'recharge', 'restore', 'demanding', 'tired', 'relax']
+  },
+
+  // ============================================================
+  // ANXIETY & WORRY
+  // ============================================================
+  {
+    id: 'anxiety-01',
+    text: 'What worry has been taking up the most space in your mind lately?',
+    theme: 'anxiety-worry',
+    keywords: ['worry', 'worried', 'anxious', 'anxiety', 'mind', 'overthinking']
+  },
+  {
+    id: 'anxiety-02',
+    text: 'When anxiety shows up, what does your body tell you first?',
+    theme: 'anxiety-worry',
+    keywords: ['anxiety', 'anxious', 'body', 'tense', 'panic', 'heart', 'breath']
+  },
+  {
+    id: 'anxiety-03',
+    text: 'Which worst-case scenario keeps replaying, and how likely is it really?',
+    theme: 'anxiety-worry',
+    keywords: ['scenario', 'fear', 'dread', 'nervous', 'replaying', 'catastrophe']
+  },
+  {
+    id: 'anxiety-04',
+    text: 'What helped you feel calmer the last time you were nervous about something?',
+    theme: 'anxiety-worry',
+    keywords: ['calm', 'nervous', 'anxious', 'helped', 'breathe', 'uneasy']
+  },
+  {
+    id: 'anxiety-05',
+    text: 'What is one worry you could set down for today, even temporarily?',
+    theme: 'anxiety-worry',
+    keywords: ['worry', 'release', 'control', 'uncertain', 'fear', 'letting']
+  },
+
+  // ============================================================
+  // CAREER & PURPOSE
+  // ============================================================
+  {
+    id: 'career-01',
+    text: 'What part of your work made you feel most capable recently?',
+    theme: 'career-purpose',
+    keywords: ['work', 'job', 'capable', 'proud', 'project', 'accomplishment']
+  },
+  {
+    id: 'career-02',
+    text: 'If your job disappeared tomorrow, what would you miss and what would you not?',
+    theme: 'career-purpose',
+    keywords: ['job', 'work', 'career', 'miss', 'meaningful', 'office']
+  },
+  {
+    id: 'career-03',
+    text: 'What professional goal matters most to you right now, and why?',
+    theme: 'career-purpose',
+    keywords: ['goal', 'career', 'professional', 'ambition', 'promotion', 'growth']
+  },
+  {
+    id: 'career-04',
+    text: 'How did your last difficult conversation at work change how you see your role?',
+    theme: 'career-purpose',
+    keywords: ['colleague', 'boss', 'manager', 'team', 'conflict', 'meeting', 'role']
+  },
+  {
+    id: 'career-05',
+    text: 'What would make your work feel more like your own direction and less like obligation?',
+    theme: 'career-purpose',
+    keywords: ['direction', 'purpose', 'obligation', 'motivation', 'calling', 'work']
+  },
+
+  // ============================================================
+  // RELATIONSHIPS & CONNECTION
+  // ============================================================
+  {
+    id: 'relationships-01',
+    text: 'Who made you feel understood recently, and what did they do?',
+    theme: 'relationships-connection',
+    keywords: ['friend', 'family', 'partner', 'understood', 'support', 'conversation']
+  },
+  {
+    id: 'relationships-02',
+    text: 'Is there a relationship where you have been holding something back?',
+    theme: 'relationships-connection',
+    keywords: ['relationship', 'partner', 'honest', 'conflict', 'unsaid', 'tension']
+  },
+  {
+    id: 'relationships-03',
+    text: 'When did you last feel lonely, and what did you need in that moment?',
+    theme: 'relationships-connection',
+    keywords: ['lonely', 'alone', 'isolated', 'connection', 'need', 'social']
+  },
+  {
+    id: 'relationships-04',
+    text: 'What boundary would make one of your relationships healthier?',
+    theme: 'relationships-connection',
+    keywords: ['boundary', 'boundaries', 'relationship', 'family', 'healthy', 'respect']
+  },
+  {
+    id: 'relationships-05',
+    text: 'Which person in your life would you like to reconnect with, and what is stopping you?',
+    theme: 'relationships-connection',
+    keywords: ['reconnect', 'friend', 'distance', 'miss', 'people', 'connection']
+  },
+
+  // ============================================================
+  // CONFIDENCE & MINDSET
+  // ============================================================
+  {
+    id: 'confidence-01',
+    text: 'What did you handle well recently that you have not given yourself credit for?',
+    theme: 'confidence-mindset',
+    keywords: ['proud', 'accomplished', 'confidence', 'success', 'credit', 'handled']
+  },
+  {
+    id: 'confidence-02',
+    text: 'Where does self-doubt show up most often, and whose voice does it sound like?',
+    theme: 'confidence-mindset',
+    keywords: ['doubt', 'insecure', 'imposter', 'critic', 'voice', 'confidence']
+  },
+  {
+    id: 'confidence-03',
+    text: 'What challenge are you avoiding because you are afraid of failing?',
+    theme: 'confidence-mindset',
+    keywords: ['afraid', 'failing', 'failure', 'avoid', 'challenge', 'risk']
+  },
+  {
+    id: 'confidence-04',
+    text: 'What would you attempt this week if you trusted yourself a little more?',
+    theme: 'confidence-mindset',
+    keywords: ['trust', 'believe', 'capable', 'attempt', 'courage', 'mindset']
+  },
+  {
+    id: 'confidence-05',
+    text: 'How did a recent setback teach you something about your strengths?',
+    theme: 'confidence-mindset',
+    keywords: ['setback', 'mistake', 'learned', 'strength', 'growth', 'resilience']
+  },
+
+  // ============================================================
+  // HABITS & ROUTINE
+  // ============================================================
+  {
+    id: 'habits-01',
+    text: 'Which small daily habit has had the biggest effect on your mood?',
+    theme: 'habits-routine',
+    keywords: ['habit', 'daily', 'routine', 'mood', 'exercise', 'walk']
+  },
+  {
+    id: 'habits-02',
+    text: 'What does your ideal morning look like, and how close did you get this week?',
+    theme: 'habits-routine',
+    keywords: ['morning', 'routine', 'wake', 'coffee', 'ritual', 'start']
+  },
+  {
+    id: 'habits-03',
+    text: 'What habit keeps slipping, and what gets in its way?',
+    theme: 'habits-routine',
+    keywords: ['habit', 'consistency', 'slipping', 'procrastination', 'discipline', 'skip']
+  },
+  {
+    id: 'habits-04',
+    text: 'How do your evenings shape the way you feel the next day?',
+    theme: 'habits-routine',
+    keywords: ['evening', 'night', 'screen', 'phone', 'routine', 'wind']
+  },
+  {
+    id: 'habits-05',
+    text: 'What is one routine you could simplify instead of adding something new?',
+    theme: 'habits-routine',
+    keywords: ['routine', 'simplify', 'schedule', 'pattern', 'busy', 'productivity']
+  },
+
+  // ============================================================
+  // SELF-COMPASSION
+  // ============================================================
+  {
+    id: 'compassion-01',
+    text: 'What would you say to a friend going through what you are going through?',
+    theme: 'self-compassion',
+    keywords: ['friend', 'kind', 'kindness', 'harsh', 'struggle', 'compassion']
+  },
+  {
+    id: 'compassion-02',
+    text: 'Where have you been harder on yourself than the situation deserved?',
+    theme: 'self-compassion',
+    keywords: ['harsh', 'critical', 'blame', 'guilt', 'mistake', 'shame']
+  },
+  {
+    id: 'compassion-03',
+    text: 'What does taking care of yourself look like on a hard day?',
+    theme: 'self-compassion',
+    keywords: ['self-care', 'care', 'gentle', 'hard', 'rest', 'comfort']
+  },
+  {
+    id: 'compassion-04',
+    text: 'Is there something you are ready to forgive yourself for?',
+    theme: 'self-compassion',
+    keywords: ['forgive', 'guilt', 'regret', 'acceptance', 'past', 'shame']
+  },
+  {
+    id: 'compassion-05',
+    text: 'What feeling have you been trying to push away instead of acknowledging?',
+    theme: 'self-compassion',
+    keywords: ['acknowledge', 'emotion', 'sad', 'angry', 'acceptance', 'avoid']
+  },
+
+  // ============================================================
+  // MEANING & VALUES
+  // ============================================================
+  {
+    id: 'meaning-01',
+    text: 'When did you last feel fully like yourself, and what were you doing?',
+    theme: 'meaning-values',
+    keywords: ['authentic', 'myself', 'alive', 'flow', 'meaning', 'joy']
+  },
+  {
+    id: 'meaning-02',
+    text: 'Which of your values felt tested this week?',
+    theme: 'meaning-values',
+    keywords: ['values', 'integrity', 'tested', 'choice', 'conflict', 'principles']
+  },
+  {
+    id: 'meaning-03',
+    text: 'What are you grateful for that you did not expect to be?',
+    theme: 'meaning-values',
+    keywords: ['grateful', 'gratitude', 'thankful', 'appreciate', 'blessed', 'surprise']
+  },
+  {
+    id: 'meaning-04',
+    text: 'If you looked back on this season of life in five years, what would you want to remember?',
+    theme: 'meaning-values',
+    keywords: ['remember', 'priorities', 'meaning', 'future', 'legacy', 'important']
+  },
+  {
+    id: 'meaning-05',
+    text: 'What are you spending time on that does not reflect what matters to you?',
+    theme: 'meaning-values',
+    keywords: ['priorities', 'matter', 'values', 'distraction', 'fulfillment', 'time']
+  },
+
+  // ============================================================
+  // SLEEP & REST
+  // ============================================================
+  {
+    id: 'sleep-01',
+    text: 'How has your sleep been affecting your mood and focus?',
+    theme: 'sleep-rest',
+    keywords: ['sleep', 'insomnia', 'tired', 'focus', 'mood', 'night']
+  },
+  {
+    id: 'sleep-02',
+    text: 'What thoughts tend to keep you awake at night?',
+    theme: 'sleep-rest',
+    keywords: ['awake', 'night', 'racing', 'thoughts', 'insomnia', 'bed']
+  },
+  {
+    id: 'sleep-03',
+    text: 'What helps you actually rest, not just stop working?',
+    theme: 'sleep-rest',
+    keywords: ['rest', 'relax', 'recovery', 'recharge', 'weekend', 'downtime']
+  },
+  {
+    id: 'sleep-04',
+    text: 'What would a kinder bedtime routine look like for you?',
+    theme: 'sleep-rest',
+    keywords: ['bedtime', 'sleep', 'routine', 'screen', 'wind', 'evening']
+  },
+  {
+    id: 'sleep-05',
+    text: 'When you feel exhausted, what do you usually reach for first?',
+    theme: 'sleep-rest',
+    keywords: ['exhausted', 'fatigue', 'caffeine', 'nap', 'tired', 'energy']
+  },
+
+  // ============================================================
+  // LIFE TRANSITIONS
+  // ============================================================
+  {
+    id: 'transitions-01',
+    text: 'What change are you in the middle of, and what feels most uncertain about it?',
+    theme: 'life-transitions',
+    keywords: ['change', 'transition', 'uncertain', 'unknown', 'moving', 'new']
+  },
+  {
+    id: 'transitions-02',
+    text: 'What are you leaving behind that you want to honor before moving on?',
+    theme: 'life-transitions',
+    keywords: ['leaving', 'ending', 'goodbye', 'grief', 'loss', 'moving']
+  },
+  {
+    id: 'transitions-03',
+    text: 'What new beginning are you excited about, even if it scares you?',
+    theme: 'life-transitions',
+    keywords: ['beginning', 'starting', 'excited', 'scared', 'opportunity', 'new']
+  },
+  {
+    id: 'transitions-04',
+    text: 'How have you adapted to a change you did not choose?',
+    theme: 'life-transitions',
+    keywords: ['adapt', 'change', 'unexpected', 'resilience', 'adjust', 'control']
+  },
+  {
+    id: 'transitions-05',
+    text: 'Who or what is helping you stay grounded through this transition?',
+    theme: 'life-transitions',
+    keywords: ['grounded', 'support', 'transition', 'anchor', 'stability', 'change']
+  }
+];
@@ -0,0 +1,214 @@
+// tfidf.ts
+//
+// TF-IDF algorithm implementation for follow-up question ranking
+//
+// - Tokenization with light suffix stemming
+// - Journal-aware stop word list
+// - Smoothed IDF: log((N + 1) / (df + 1)) + 1
+// - Sparse vectors and cosine similarity
+//
+
+import type { TermVector } from './types.ts';
+
+// ============================================================
+// STOP WORDS
+// ============================================================
+
+const STOP_WORDS = new Set([
+  // Articles, conjunctions, prepositions
+  'the', 'and', 'but', 'for', 'nor', 'yet', 'with', 'about', 'into', 'onto',
+  'from', 'over', 'under', 'after', 'before', 'between', 'through', 'during',
+  'without', 'within', 'upon', 'off', 'out', 'than', 'because', 'while',
+  'since', 'until', 'unless', 'whether', 'though', 'although',
+
+  // Pronouns
+  'you', 'your', 'yours', 'his', 'her', 'hers', 'its', 'our', 'ours', 'their',
+  'theirs', 'they', 'them', 'she', 'him', 'who', 'whom', 'whose', 'which',
+  'what', 'this', 'that', 'these', 'those', 'myself', 'yourself', 'himself',
+  'herself', 'itself', 'ourselves', 'themselves', 'someone', 'anyone',
+  'everyone', 'nobody', 'somebody', 'everybody',
+
+  // Auxiliary and common verbs
+  'are', 'was', 'were', 'been', 'being', 'have', 'has', 'had', 'having',
+  'does', 'did', 'doing', 'done', 'can', 'could', 'will', 'would', 'shall',
+  'should', 'may', 'might', 'must', 'got', 'get', 'gets', 'getting', 'went',
+  'goes', 'going', 'made', 'make', 'makes', 'making', 'said', 'say', 'says',
+  'told', 'tell', 'came', 'come', 'comes', 'coming', 'take', 'took', 'put',
+  'let', 'keep', 'kept', 'want', 'wanted', 'know', 'knew', 'think', 'thought',
+
+  // Feeling/seeming fillers (emotion words themselves are kept)
+  'feel', 'feels', 'felt', 'feeling', 'seem', 'seems', 'seemed', 'look',
+  'looks', 'looked', 'looking',
+
+  // Time words
+  'today', 'yesterday', 'tomorrow', 'day', 'days', 'week', 'weeks', 'month',
+  'months', 'year', 'years', 'now', 'then', 'later', 'ago', 'soon', 'again',
+  'always', 'never', 'ever', 'often', 'sometimes', 'once', 'recently',
+
+  // Fillers and quantifiers
+  'really', 'very', 'quite', 'just', 'even', 'still', 'also', 'however',
+  'kind', 'sort', 'type', 'bit', 'lot', 'lots', 'much', 'many', 'more',
+  'most', 'some', 'any', 'all', 'each', 'every', 'other', 'another', 'such',
+  'only', 'own', 'same', 'too', 'enough', 'pretty', 'maybe', 'actually',
+  'basically', 'literally', 'probably', 'definitely', 'like', 'well', 'okay',
+
+  // Contractions (apostrophes are stripped before lookup)
+  'dont', 'didnt', 'doesnt', 'cant', 'couldnt', 'wont', 'wouldnt', 'shouldnt',
+  'isnt', 'wasnt', 'arent', 'werent', 'ive', 'youre', 'youve', 'thats', 'theres',
+
+  // Question words and adverbs
+  'how', 'why', 'when', 'where', 'here', 'there', 'not', 'yes',
+
+  // General nouns
+  'thing', 'things', 'something', 'anything', 'nothing', 'everything',
+  'way', 'ways', 'place', 'places', 'time', 'times', 'one', 'two', 'three'
+]);
+
+// ============================================================
+// TOKENIZATION
+// ============================================================
+
+/**
+ * Simple stemmer - removes common suffixes
+ * Not as sophisticated as Porter Stemmer but maps stress/stressed/stressful
+ * and deadline/deadlines onto the same token
+ */
+export function stem(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) {
+    return word.slice(0, -3) + 'y';   // worries → worry
+  }
+  if (word.endsWith('ness') && word.length > 7) {
+    return word.slice(0, -4);         // sadness → sad
+  }
+  if (word.endsWith('ing') && word.length > 6) {
+    return word.slice(0, -3);         // working → work
+  }
+  if (word.endsWith('ful') && word.length > 6) {
+    return word.slice(0, -3);         // stressful → stress
+  }
+  if (word.endsWith('ous') && word.length > 6) {
+    return word.slice(0, -3);         // nervous → nerv
+  }
+  if (word.endsWith('ive') && word.length > 6) {
+    return word.slice(0, -3);         // supportive → support
+  }
+  if (word.endsWith('est') && word.length > 6) {
+    return word.slice(0, -3);         // hardest → hard
+  }
+  if (word.endsWith('ed') && word.length > 5) {
+    return word.slice(0, -2);         // worked → work
+  }
+  if (word.endsWith('er') && word.length > 5) {
+    return word.slice(0, -2);         // harder → hard
+  }
+  if (word.endsWith('ly') && !word.endsWith('ily') && word.length > 5) {
+    return word.slice(0, -2);         // quickly → quick
+  }
+  if (word.endsWith('s') && !word.endsWith('ss') && word.length > 3) {
+    return word.slice(0, -1);         // deadlines → deadline
+  }
+  return word;
+}
+
+/**
+ * Split text into lowercase, stemmed tokens (3+ chars)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(word => stem(word));
+}
+
+/**
+ * Remove stop words from an already tokenized document
+ * tokenize() filters stop words before stemming; this catches stems that
+ * collapse onto a stop word (e.g., "thinking" → "think")
+ */
+export function removeStopWords(tokens: string[]): string[] {
+  return tokens.filter(token => !STOP_WORDS.has(token));
+}
+
+// ============================================================
+// TF-IDF
+// ============================================================
+
+/**
+ * Term frequency, normalized by document length
+ */
+export function computeTF(tokens: string[]): TermVector {
+  const tf: TermVector = new Map();
+  if (tokens.length === 0) return tf;
+
+  for (const token of tokens) {
+    tf.set(token, (tf.get(token) ?? 0) + 1);
+  }
+  for (const [token, count] of tf.entries()) {
+    tf.set(token, count / tokens.length);
+  }
+  return tf;
+}
+
+/**
+ * Inverse document frequency across a corpus of tokenized documents
+ * Smoothed so terms present in every document keep a small positive weight
+ */
+export function computeIDF(documents: string[][]): Map<string, number> {
+  const docCount = new Map<string, number>();
+
+  for (const doc of documents) {
+    for (const token of new Set(doc)) {
+      docCount.set(token, (docCount.get(token) ?? 0) + 1);
+    }
+  }
+
+  const totalDocs = documents.length;
+  const idf = new Map<string, number>();
+  for (const [token, count] of docCount.entries()) {
+    idf.set(token, Math.log((totalDocs + 1) / (count + 1)) + 1);
+  }
+  return idf;
+}
+
+/**
+ * TF-IDF vector for a document
+ * Terms missing from the IDF map are dropped (they can't match anything)
+ */
+export function computeTFIDF(tokens: string[], idf: Map<string, number>): TermVector {
+  const tf = computeTF(tokens);
+  const vector: TermVector = new Map();
+
+  for (const [token, weight] of tf.entries()) {
+    const termIdf = idf.get(token);
+    if (termIdf !== undefined) {
+      vector.set(token, weight * termIdf);
+    }
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity between two sparse vectors (0-1 for non-negative weights)
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  // Iterate the smaller vector for the dot product
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [token, weight] of small.entries()) {
+    const other = large.get(token);
+    if (other !== undefined) {
+      dot += weight * other;
+    }
+  }
+
+  const magnitudeA = Math.sqrt([...a.values()].reduce((sum, w) => sum + w * w, 0));
+  const magnitudeB = Math.sqrt([...b.values()].reduce((sum, w) => sum + w * w, 0));
+  if (magnitudeA === 0 || magnitudeB === 0) return 0;
+
+  return dot / (magnitudeA * magnitudeB);
+}
@@ -0,0 +1,108 @@
+// types.ts
+//
+// TypeScript type definitions for generate-follow-up edge function
+// Defines the question bank, TF-IDF vectors and request/response shapes
+//
+
+// ============================================================
+// QUESTION BANK TYPES
+// ============================================================
+
+/**
+ * A curated follow-up question
+ */
+export interface Question {
+  id: string;            // Stable identifier (e.g., "stress-01")
+  text: string;          // Question shown to the user
+  theme: string;         // Theme slug, matches themes.name where possible
+  keywords: string[];    // Extra terms that describe what the question is about
+}
+
+/**
+ * Sparse TF-IDF vector: term -> weight
+ */
+export type TermVector = Map<string, number>;
+
+/**
+ * Question with its TF-IDF vector in the unified IDF space
+ */
+export interface QuestionWithVector {
+  question: Question;
+  vector: TermVector;
+}
+
+/**
+ * Result of precomputing question vectors against a user's corpus
+ */
+export interface PrecomputedQuestions {
+  questions: QuestionWithVector[];
+  idf: Map<string, number>;     // Unified IDF (questions + user entries)
+}
+
+/**
+ * Question ranked against the user's entries
+ */
+export interface ScoredQuestion {
+  question: Question;
+  score: number;         // Cosine similarity (0-1)
+}
+
+/**
+ * follow_up_questions row, as read back for the weekly set and dedupe
+ */
+export interface StoredQuestion {
+  question_text: string;
+  relevance_score: number;
+  generated_at: string;
+  week_number: number;
+  year: number;
+}
+
+// ============================================================
+// REQUEST TYPES (from Swift app / cron)
+// ============================================================
+
+/**
+ * Request body (all fields optional)
+ */
+export interface GenerateFollowUpRequest {
+  lookbackDays?: number;     // Sliding window of entries to analyze (default 14)
+  saveToDatabase?: boolean;  // Insert into follow_up_questions (default true)
+  count?: number;            // How many questions to return (default 5)
+}
+
+// ============================================================
+// API RESPONSE TYPES (to Swift app)
+// ============================================================
+
+/**
+ * A generated question with its relevance score
+ */
+export interface QuestionWithScore {
+  text: string;
+  score: number;
+}
+
+/**
+ * Response sent back to Swift app
+ * Matches Swift GeneratedQuestionsResponse model
+ */
+export interface FollowUpResponse {
+  questions: QuestionWithScore[];
+  metadata: {
+    entriesAnalyzed: number;
+    generatedAt: string;       // ISO8601 timestamp
+    themesCount: number;       // Distinct themes among returned questions
+    lookbackDays: number;
+    savedToDatabase: boolean;
+    reused: boolean;           // This week's stored set; entriesAnalyzed is 0
+    weekNumber: number;        // ISO week the questions belong to
+    year: number;              // ISO week-numbering year
+  };
+}
+
+// ============================================================
+// ERROR TYPES
+// ============================================================
+
+export type { ErrorResponse } from '../_shared/types.ts';
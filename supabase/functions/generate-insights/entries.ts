@@ -0,0 +1,126 @@
+// entries.ts
+//
+// Server-sourced entries for generate-insights
+//
+// Instead of uploading entries, the app can send a selection
+// ({ all: true }, { latest: N } or { date_start, date_end }) and the function loads the
+// entries itself through get_entries_by_date_range (RLS-scoped, archived
+// entries excluded). The analyzed entries then come from the database,
+// not from a client payload that could be edited or inflated.
+//
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { EntrySelection, JournalEntry } from './types.ts';
+
+/**
+ * Validated selection, ready for the RPC
+ */
+export interface ResolvedSelection {
+  start: string;         // ISO8601 or '-infinity'
+  end: string;           // ISO8601 or 'infinity'
+  limit: number;
+}
+
+export type SelectionResult =
+  | { ok: true; selection: ResolvedSelection }
+  | { ok: false; error: string };
+
+/**
+ * Row returned by get_entries_by_date_range
+ */
+interface EntryRow {
+  id: string;
+  title: string | null;
+  text: string;
+  created_at: string;
+  word_count: number | null;
+}
+
+/**
+ * Validate the request's selection and turn it into RPC parameters
+ */
+export function resolveSelection(value: unknown, maxEntries: number): SelectionResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, error: 'selection must be an object' };
+  }
+
+  const { all, latest, date_start, date_end } = value as EntrySelection;
+  const hasRange = date_start !== undefined || date_end !== undefined;
+
+  const modes = [all !== undefined, latest !== undefined, hasRange].filter(Boolean).length;
+  if (modes > 1) {
+    return { ok: false, error: 'Use only one of all, latest or date_start/date_end' };
+  }
+
+  if (all !== undefined) {
+    if (all !== true) {
+      return { ok: false, error: 'all must be true when present' };
+    }
+    return { ok: true, selection: { start: '-infinity', end: 'infinity', limit: maxEntries } };
+  }
+
+  if (latest !== undefined) {
+    if (!Number.isInteger(latest) || latest < 1 || latest > maxEntries) {
+      return { ok: false, error: `latest must be an integer between 1 and ${maxEntries}` };
+    }
+    return { ok: true, selection: { start: '-infinity', end: 'infinity', limit: latest } };
+  }
+
+  if (date_start === undefined) {
+    return { ok: false, error: 'selection needs all, latest or date_start' };
+  }
+
+  const start = parseDate(date_start);
+  if (!start) {
+    return { ok: false, error: 'date_start must be an ISO8601 date' };
+  }
+
+  const end = date_end === undefined ? new Date() : parseDate(date_end);
+  if (!end) {
+    return { ok: false, error: 'date_end must be an ISO8601 date' };
+  }
+
+  if (end.getTime() <= start.getTime()) {
+    return { ok: false, error: 'date_end must be after date_start' };
+  }
+
+  return {
+    ok: true,
+    selection: { start: start.toISOString(), end: end.toISOString(), limit: maxEntries }
+  };
+}
+
+/**
+ * Load the user's non-archived entries for a resolved selection
+ * Newest first, as returned by the RPC
+ */
+export async function loadServerEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  selection: ResolvedSelection
+): Promise<JournalEntry[]> {
+  const { data, error } = await supabase.rpc('get_entries_by_date_range', {
+    p_user_id: userId,
+    p_start_date: selection.start,
+    p_end_date: selection.end,
+    p_limit: selection.limit
+  });
+
+  if (error) {
+    throw new Error(`get_entries_by_date_range failed: ${error.message}`);
+  }
+
+  return ((data ?? []) as EntryRow[]).map(row => ({
+    id: row.id,
+    date: row.created_at,
+    title: row.title ?? '',
+    content: row.text,
+    word_count: row.word_count ?? 0
+  }));
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
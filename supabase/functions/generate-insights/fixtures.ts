@@ -0,0 +1,219 @@
+// fixtures.ts
+//
+// Deterministic fixture responses for the offline LLM provider
+//
+// Used when LLM_PROVIDER=fixture so the whole insights pipeline
+// (auth → cache → generation → parsing → save) can run locally without
+// network access or an API key. Output is derived only from the entries
+// in the prompt, so the same input always yields the same insight.
+//
+
+import type { CompletionRequest, FixtureResponder } from './providers.ts';
+import type {
+  ChunkDigest,
+  MonthlyInsightResponse,
+  OpenAIInsightResponse,
+  Theme,
+  WeeklyRecapResponse
+} from './types.ts';
+
+/**
+ * Entry shape as serialized into the prompt by handler.ts
+ */
+interface PromptEntry {
+  date: string;          // YYYY-MM-DD
+  title: string;
+  content: string;
+  word_count: number;
+  mood: string;
+}
+
+const MOOD_ICONS: Record<string, string> = {
+  anxious: '🌊',
+  stressed: '⚡',
+  frustrated: '🔥',
+  sad: '🌧️',
+  calm: '🍃',
+  grateful: '🙏',
+  happy: '☀️',
+  excited: '🎉',
+  hopeful: '🌱',
+  relieved: '😮‍💨',
+  reflective: '🪞',
+  confident: '✨',
+  neutral: '📓'
+};
+
+const FILLER_THEMES = [
+  { name: 'Making Time To Reflect', icon: '🪞' },
+  { name: 'Noticing Daily Patterns', icon: '🔍' },
+  { name: 'Naming What You Feel', icon: '💬' },
+  { name: 'Small Steps Forward', icon: '👣' }
+];
+
+/**
+ * Find the serialized entries payload in the last user message
+ */
+export function extractPromptEntries(request: CompletionRequest): PromptEntry[] {
+  const userMessages = request.messages.filter(m => m.role === 'user');
+  const lastUserMessage = userMessages[userMessages.length - 1]?.content ?? '';
+
+  // The payload is emitted as single-line JSON; scan from the end
+  const lines = lastUserMessage.split('\n').reverse();
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) continue;
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed?.entries)) {
+        return parsed.entries as PromptEntry[];
+      }
+    } catch {
+      // Not the payload line - keep scanning
+    }
+  }
+  return [];
+}
+
+/**
+ * Build a deterministic insight from the prompt's entries
+ */
+export function buildFixtureInsight(entries: PromptEntry[]): OpenAIInsightResponse {
+  const sorted = [...entries].sort((a, b) =>
+    a.date === b.date ? a.title.localeCompare(b.title) : a.date.localeCompare(b.date));
+
+  // Group entries by mood (insertion order follows date order)
+  const byMood = new Map<string, PromptEntry[]>();
+  for (const entry of sorted) {
+    const mood = (entry.mood || 'neutral').toLowerCase();
+    byMood.set(mood, [...(byMood.get(mood) ?? []), entry]);
+  }
+
+  const moodGroups = [...byMood.entries()]
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .slice(0, 5);
+
+  const themes: Theme[] = moodGroups.map(([mood, group]) => ({
+    name: `${capitalize(mood)} Moments`,
+    icon: MOOD_ICONS[mood] ?? '📓',
+    explanation: `You came back to feeling ${mood} in ${group.length} of your entries, which makes it one of the clearer threads in your writing.`,
+    frequency: `${group.length} ${group.length === 1 ? 'time' : 'times'} this week`,
+    source_entries: group.map(e => ({ date: e.date, title: e.title }))
+  }));
+
+  // Always return 4-5 themes, padding with entry-wide patterns
+  for (const filler of FILLER_THEMES) {
+    if (themes.length >= 4) break;
+    themes.push({
+      name: filler.name,
+      icon: filler.icon,
+      explanation: `Across ${sorted.length} ${sorted.length === 1 ? 'entry' : 'entries'}, you kept showing up to write, which is a pattern in itself.`,
+      frequency: `${sorted.length} ${sorted.length === 1 ? 'time' : 'times'} this week`,
+      source_entries: sorted.map(e => ({ date: e.date, title: e.title }))
+    });
+  }
+
+  // Longest entries become annotations (ties broken by date)
+  const annotations = [...sorted]
+    .sort((a, b) => b.word_count - a.word_count || a.date.localeCompare(b.date))
+    .slice(0, 5)
+    .map(e => ({
+      date: e.date,
+      summary: `You wrote at length about "${e.title}". The entry carried a ${e.mood || 'neutral'} tone, and it stands out as one of the moments you most wanted to put into words.`
+    }));
+
+  const topMood = moodGroups[0]?.[0] ?? 'neutral';
+
+  return {
+    summary: `Across ${sorted.length} ${sorted.length === 1 ? 'entry' : 'entries'}, feeling ${topMood} came up most often.`.substring(0, 140),
+    description: `Over this stretch of writing you returned to a handful of feelings, with ${topMood} showing up most often. ` +
+      `Recently your entries moved between ${moodGroups.map(([mood]) => mood).join(', ')}, which shows you noticing your state rather than pushing past it. ` +
+      `The longer entries tend to be where you work things out, and the shorter ones read like quick check-ins. ` +
+      `Taken together, they sketch a week of paying attention to yourself.`,
+    annotations,
+    themes
+  };
+}
+
+/**
+ * Weekly recap: 2-3 themes, 2-4 annotations, highlight and intention
+ */
+export function buildFixtureWeeklyRecap(entries: PromptEntry[]): WeeklyRecapResponse {
+  const base = buildFixtureInsight(entries);
+  const longest = [...entries].sort((a, b) => b.word_count - a.word_count || a.date.localeCompare(b.date))[0];
+
+  return {
+    ...base,
+    themes: base.themes.slice(0, 3),
+    annotations: base.annotations.slice(0, 4),
+    highlight: longest
+      ? `"${longest.title}" was the entry you put the most words into this week.`
+      : 'You made space to write this week.',
+    intention: 'What would you like to notice more of next week?'
+  };
+}
+
+/**
+ * Monthly insight: base shape plus one summary per week with entries
+ */
+export function buildFixtureMonthlyInsight(entries: PromptEntry[]): MonthlyInsightResponse {
+  const base = buildFixtureInsight(entries);
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+
+  const byWeek = new Map<string, PromptEntry[]>();
+  for (const entry of sorted) {
+    const weekStart = mondayOf(entry.date);
+    byWeek.set(weekStart, [...(byWeek.get(weekStart) ?? []), entry]);
+  }
+
+  const firstMood = sorted[0]?.mood || 'neutral';
+  const lastMood = sorted[sorted.length - 1]?.mood || 'neutral';
+
+  return {
+    ...base,
+    themes: base.themes.map(t => ({ ...t, frequency: t.frequency.replace('this week', 'this month') })),
+    weeks: [...byWeek.entries()].slice(0, 6).map(([weekStart, group]) => ({
+      week_start: weekStart,
+      summary: `You wrote ${group.length} ${group.length === 1 ? 'entry' : 'entries'} this week, mostly feeling ${group[0].mood || 'neutral'}.`
+    })),
+    shift: `The month opened with you feeling ${firstMood} and closed with you feeling ${lastMood}.`
+  };
+}
+
+/**
+ * Chunk digest for the map step (period/count are filled in by the caller)
+ */
+export function buildFixtureDigest(entries: PromptEntry[]): Pick<ChunkDigest, 'summary' | 'themes' | 'moments'> {
+  const base = buildFixtureInsight(entries);
+  return {
+    summary: base.description,
+    themes: base.themes.slice(0, 4).map(t => ({ name: t.name, entries: t.source_entries })),
+    moments: base.annotations.slice(0, 3)
+  };
+}
+
+/**
+ * Fixture responder for the "insights" (theme_summary) purpose
+ */
+export const insightsFixture: FixtureResponder = (request) =>
+  JSON.stringify(buildFixtureInsight(extractPromptEntries(request)));
+
+/**
+ * Fixture responders keyed by CompletionRequest.purpose
+ */
+export const fixtureResponders: Record<string, FixtureResponder> = {
+  insights: insightsFixture,
+  weekly_recap: (request) => JSON.stringify(buildFixtureWeeklyRecap(extractPromptEntries(request))),
+  monthly_insights: (request) => JSON.stringify(buildFixtureMonthlyInsight(extractPromptEntries(request))),
+  chunk_digest: (request) => JSON.stringify(buildFixtureDigest(extractPromptEntries(request)))
+};
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function mondayOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  return day.toISOString().split('T')[0];
+}
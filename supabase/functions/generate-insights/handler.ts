@@ -0,0 +1,855 @@
+// handler.ts
+//
+// Request handler for generate-insights (served by index.ts)
+//
+// Features:
+// - Pluggable LLM provider (OpenAI, OpenAI-compatible, offline fixture)
+// - Insight types: theme_summary, weekly_recap, monthly_insights
+// - Full-history analysis via map-reduce over cached chunk digests
+// - Client-uploaded entries or server-sourced entries (`selection`)
+// - 7-day caching keyed on the analyzed entry set (content-addressed)
+// - Stale-while-revalidate: stale cache returned, refreshed in background
+// - Server-side validation and authentication
+// - Automatic cache invalidation on new entries
+// - Token usage/latency recorded per generation, monthly token budget
+// - Rate limiting and error handling
+//
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createProviderFromEnv, ProviderError } from './providers.ts';
+import type { ChatMessage, CompletionResult, LLMProvider } from './providers.ts';
+import { fixtureResponders } from './fixtures.ts';
+import { loadServerEntries, resolveSelection } from './entries.ts';
+import type { ResolvedSelection } from './entries.ts';
+import { INSIGHT_TYPES, isInsightType, isOpenPeriod, previousPeriod, resolvePeriod } from './insight-types.ts';
+import type { InsightTypeConfig } from './insight-types.ts';
+import { assignPromptVersion, languagePromptNote } from './prompts.ts';
+import type { PromptVersion } from './prompts.ts';
+import { buildEntriesSnapshot, findNewEntries } from './snapshot.ts';
+import { diffThemes } from './trends.ts';
+import { createRedactor, redactEntries } from './redaction.ts';
+import type { Redactor } from './redaction.ts';
+import { buildReducePayload, chunkEntries, REDUCE_SYSTEM_NOTE, summarizeChunks } from './map-reduce.ts';
+import { calculateCost, checkTokenBudget, createUsageTotals, recordGenerationFailure, recordUsage } from './usage.ts';
+import type { UsageTotals } from './usage.ts';
+import { acquireRefreshLock, releaseRefreshLock, runInBackground } from './refresh.ts';
+import {
+  abortFlight,
+  completeFlight,
+  findIdempotentResponse,
+  joinFlight,
+  parseIdempotencyKey,
+  REPLAYED_HEADER,
+  requestFingerprint
+} from './single-flight.ts';
+import { createHandler, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { SharedErrorCode } from '../_shared/types.ts';
+import { describeError, log } from '../_shared/logger.ts';
+import { assessTexts, safetyPromptNote } from '../_shared/safety.ts';
+import type { RiskLevel } from '../_shared/safety.ts';
+import { DEFAULT_LANGUAGE, languageName, parseLocaleParam, resolveLocale } from '../_shared/locale.ts';
+import type { RateLimitPolicy } from '../_shared/rate-limit.ts';
+import {
+  buildRepairPrompt,
+  InsightValidationError,
+  parseJsonObject,
+  validateInsightResponse
+} from './validation.ts';
+import type {
+  GenerateInsightsRequest,
+  JournalEntry,
+  InsightsResponse,
+  EntriesSnapshot,
+  EntriesSource,
+  EntryReference,
+  ChunkDigest,
+  InsightContent,
+  InsightPeriod,
+  InsightTrends,
+  StoredInsightContent,
+  CachedInsight
+} from './types.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const MAX_ENTRIES = 20;               // Per prompt; client uploads are capped here
+const MAX_HISTORY_ENTRIES = 500;      // Server-sourced; above MAX_ENTRIES goes through map-reduce
+const MIN_ENTRIES = 1;
+const MAX_CONTENT_LENGTH = 500;       // Chars per entry (token optimization)
+const INSIGHTS_TEMPERATURE = 0.7;     // TTLs, staleness and token limits are per type (insight-types.ts)
+const MAX_REPAIR_ATTEMPTS = 1;        // Re-prompts after a response fails validation
+const MAX_BODY_BYTES = 256 * 1024;    // 20 client entries with generous content
+
+// Validation errors count lengths on the restored text, which the model never sees
+const PLACEHOLDER_LENGTH_NOTE = 'Lengths count placeholders such as [PERSON_1] as the full text they stand for, so leave room for them.';
+
+// Request rate limits (overridable via RATE_LIMIT_GENERATE_INSIGHTS_USER / _IP)
+// Cache hits count too; the token budget below only covers generations
+const FUNCTION_NAME = 'generate-insights';
+const RATE_LIMITS: RateLimitPolicy = {
+  user: { capacity: 20, refillPerHour: 20 },
+  ip: { capacity: 60, refillPerHour: 120 }
+};
+
+/**
+ * Measurements saved with each generated insight
+ */
+interface GenerationStats {
+  generationTimeMs: number;
+  usage: UsageTotals;
+  promptVersion: string;
+  repairAttempts: number;      // Re-prompts needed before the response validated
+}
+
+// LLM provider (selected by LLM_PROVIDER env, created once per instance)
+let providerCache: LLMProvider | null = null;
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+// CORS, method, rate limits, authentication and JSON parsing: _shared/http.ts
+export const handler = createHandler({
+  name: FUNCTION_NAME,
+  maxBodyBytes: MAX_BODY_BYTES,
+  rateLimits: RATE_LIMITS
+}, async ({ req, user, supabase, body: requestBody }) => {
+  try {
+    log.info('Insights request');
+
+    // ============================================================
+    // 1. VALIDATE INPUT
+    // ============================================================
+
+    const body = requestBody as GenerateInsightsRequest;
+    const { insight_type = 'theme_summary', selection, force_refresh = false } = body;
+
+    if (!isInsightType(insight_type)) {
+      return jsonResponse(
+        {
+          error: `insight_type must be one of: ${Object.keys(INSIGHT_TYPES).join(', ')}`,
+          code: 'INVALID_INSIGHT_TYPE'
+        },
+        400
+      );
+    }
+
+    const config = INSIGHT_TYPES[insight_type];
+
+    // Weekly/monthly insights cover one calendar window
+    const periodResult = resolvePeriod(config.window, body.period);
+    if (!periodResult.ok) {
+      return jsonResponse(
+        { error: periodResult.error, code: 'INVALID_PERIOD' },
+        400
+      );
+    }
+    const period = periodResult.period;
+
+    const localeResult = parseLocaleParam(body.locale);
+    if (!localeResult.ok) {
+      return jsonResponse(
+        { error: localeResult.error, code: 'INVALID_LOCALE' },
+        400
+      );
+    }
+
+    const idempotency = parseIdempotencyKey(req);
+    if (!idempotency.ok) {
+      return jsonResponse(
+        { error: idempotency.error, code: 'INVALID_IDEMPOTENCY_KEY' },
+        400
+      );
+    }
+    const idempotencyKey = idempotency.key;
+
+    if (body.entries !== undefined && selection !== undefined) {
+      return jsonResponse(
+        { error: 'Send either entries or selection, not both', code: 'INVALID_SELECTION' },
+        400
+      );
+    }
+
+    let serverSelection: ResolvedSelection | null = null;
+
+    if (period) {
+      if (body.entries !== undefined || selection !== undefined) {
+        return jsonResponse(
+          { error: `${config.type} loads the entries for its period; send period instead of entries or selection`, code: 'INVALID_SELECTION' },
+          400
+        );
+      }
+      serverSelection = { start: period.start, end: period.end, limit: MAX_HISTORY_ENTRIES };
+    } else if (selection !== undefined) {
+      const resolved = resolveSelection(selection, MAX_HISTORY_ENTRIES);
+      if (!resolved.ok) {
+        return jsonResponse(
+          { error: resolved.error, code: 'INVALID_SELECTION' },
+          400
+        );
+      }
+      serverSelection = resolved.selection;
+    }
+
+    let entries: JournalEntry[];
+    let entriesSource: EntriesSource;
+
+    if (serverSelection) {
+      // Server-sourced: load the user's own entries from the database
+      try {
+        entries = await loadServerEntries(supabase, user.id, serverSelection);
+      } catch (error) {
+        log.error('Entries load failed', { error });
+        return jsonResponse(
+          { error: 'Failed to load journal entries', code: 'ENTRIES_ERROR' },
+          500
+        );
+      }
+      entriesSource = 'server';
+
+      if (entries.length < MIN_ENTRIES) {
+        return jsonResponse(
+          { error: 'No journal entries match the selection', code: 'INVALID_ENTRIES' },
+          400
+        );
+      }
+    } else {
+      entries = body.entries as JournalEntry[];
+      entriesSource = 'client';
+
+      // Validate entries array
+      if (!entries || !Array.isArray(entries)) {
+        return jsonResponse(
+          { error: 'Missing or invalid entries array', code: 'MISSING_ENTRIES' },
+          400
+        );
+      }
+
+      if (entries.length < MIN_ENTRIES) {
+        return jsonResponse(
+          { error: `Need at least ${MIN_ENTRIES} entry`, code: 'INVALID_ENTRIES' },
+          400
+        );
+      }
+
+      if (entries.length > MAX_ENTRIES) {
+        return jsonResponse(
+          { error: `Maximum ${MAX_ENTRIES} entries allowed`, code: 'TOO_MANY_ENTRIES' },
+          400
+        );
+      }
+    }
+
+    // Validate each entry has required fields
+    for (const entry of entries) {
+      if (!entry.content || entry.content.trim().length === 0) {
+        return jsonResponse(
+          { error: 'All entries must have content', code: 'EMPTY_CONTENT' },
+          400
+        );
+      }
+    }
+
+    // Insight language: request field, else detected from the entries
+    const { locale, language, source: localeSource } = resolveLocale(
+      localeResult.locale,
+      entries.map(entry => entry.content),
+      req
+    );
+
+    log.info('Input validated', { insightType: config.type, entryCount: entries.length, entriesSource, language, localeSource });
+
+    // Offline crisis-language screen; resources are shown even on cache hits
+    const safety = assessTexts(entries.map(entry => entry.content), locale);
+    if (safety.riskLevel !== 'none') {
+      log.warn('Safety risk detected', { riskLevel: safety.riskLevel, categories: safety.categories, flaggedEntries: safety.flaggedEntries });
+    }
+
+    // ============================================================
+    // 2. CHECK CACHE FIRST (unless force_refresh is true)
+    // ============================================================
+
+    // Cache key: hash of exactly these entries (ids + contents)
+    const snapshot = await buildEntriesSnapshot(entries);
+
+    // Everything that determines the insight; identical requests share a generation
+    const fingerprint = await requestFingerprint([config.type, period?.start ?? null, snapshot.hash, language, force_refresh]);
+
+    // A retried Idempotency-Key replays its stored response, even with force_refresh
+    if (idempotencyKey) {
+      const stored = await findIdempotentResponse(supabase, user.id, idempotencyKey);
+      if (stored && stored.fingerprint !== fingerprint) {
+        return jsonResponse(
+          { error: 'Idempotency-Key was already used for a different request', code: 'IDEMPOTENCY_KEY_REUSED' },
+          422
+        );
+      }
+      if (stored?.response) {
+        log.info('Idempotent replay');
+        return jsonResponse(stored.response, stored.status ?? 200, { [REPLAYED_HEADER]: 'true' });
+      }
+    }
+
+    if (force_refresh) {
+      log.info('Force refresh: skipping cache');
+    } else {
+      let cachedInsight = await log.time('cache_lookup', () => getCachedInsight(supabase, user.id, config, period, snapshot.hash));
+
+      // Same entries in another language is a miss
+      if (cachedInsight && (cachedInsight.content.language ?? DEFAULT_LANGUAGE) !== language) {
+        log.info('Cached insight is in another language', { cachedLanguage: cachedInsight.content.language ?? DEFAULT_LANGUAGE, language });
+        cachedInsight = null;
+      }
+
+      if (cachedInsight) {
+        log.info('Cache hit', { hash: snapshot.hash.substring(0, 12) });
+
+        const response: InsightsResponse = {
+          ...cachedInsight.content,
+          insightType: config.type,
+          period,
+          annotations: cachedInsight.content.annotations || [],
+          entriesAnalyzed: cachedInsight.entries_analyzed_count,
+          entriesSource,
+          generatedAt: cachedInsight.generated_at,
+          fromCache: true,
+          cacheExpiresAt: cachedInsight.expires_at,
+          newSinceCache: [],
+          refreshing: false,
+          safety,
+          language,
+          trends: cachedInsight.content.trends ?? null
+        };
+
+        // Stale: return it now, regenerate after responding
+        // (closed weeks/months can't change, so they never go stale)
+        const generatedAt = new Date(cachedInsight.generated_at);
+        const hoursOld = (Date.now() - generatedAt.getTime()) / (1000 * 60 * 60);
+
+        if (hoursOld > config.staleHours && isOpenPeriod(period)) {
+          log.info('Cache stale: refreshing in background', { hoursOld: Math.round(hoursOld) });
+          runInBackground(refreshInBackground(supabase, user.id, config, period, entries, snapshot, language, safety.riskLevel));
+          response.refreshing = true;
+        }
+
+        return jsonResponse(response, 200);
+      }
+
+      log.info('Cache miss', { hash: snapshot.hash.substring(0, 12) });
+    }
+
+    // Compare against the latest cached insight to report what changed
+    const previousInsight = await getCachedInsight(supabase, user.id, config, period, null);
+    const newSinceCache = await diffAgainstCache(entries, previousInsight?.entries_snapshot ?? null);
+
+    // ============================================================
+    // 3. JOIN IN-FLIGHT GENERATION (single-flight)
+    // ============================================================
+
+    const flight = await joinFlight(supabase, user.id, fingerprint, idempotencyKey);
+
+    if (flight.state === 'replay' || flight.state === 'shared') {
+      return jsonResponse(flight.response, flight.status, { [REPLAYED_HEADER]: 'true' });
+    }
+
+    if (flight.state === 'key_conflict') {
+      return jsonResponse(
+        { error: 'Idempotency-Key was already used for a different request', code: 'IDEMPOTENCY_KEY_REUSED' },
+        422
+      );
+    }
+
+    if (flight.state === 'timeout') {
+      return jsonResponse(
+        {
+          error: 'An identical request is still being generated. Please try again shortly.',
+          code: 'GENERATION_IN_PROGRESS',
+          retryAfter: flight.retryAfter
+        },
+        409,
+        { 'Retry-After': String(flight.retryAfter) }
+      );
+    }
+
+    // Null when the flight table is unavailable: generate without sharing
+    const lockId = flight.state === 'acquired' ? flight.lockId : null;
+
+    try {
+      // ============================================================
+      // 4. GENERATE INSIGHTS WITH LLM PROVIDER
+      // ============================================================
+
+      const budget = await checkTokenBudget(supabase, user.id);
+      if (budget.exceeded) {
+        log.warn('Monthly token budget exceeded', { used: budget.used, budget: budget.budget });
+        if (lockId) await abortFlight(supabase, user.id, fingerprint, lockId);
+        return errorResponse(
+          429,
+          SharedErrorCode.RATE_LIMITED,
+          'Monthly insights limit reached. It resets at the start of next month.',
+          { retryAfter: budget.retryAfter },
+          { 'Retry-After': String(budget.retryAfter) }
+        );
+      }
+
+      const { content: openaiResponse, stats } = await runGeneration(supabase, user.id, entries, config, period, language, safety.riskLevel);
+
+      // ============================================================
+      // 5. SAVE TO CACHE
+      // ============================================================
+
+      const trends = await buildTrends(supabase, user.id, config, period, openaiResponse, entries.length, previousInsight, language);
+
+      const now = new Date().toISOString();
+      await log.time('cache_save', () =>
+        saveToCache(supabase, user.id, config, period, { ...openaiResponse, trends, language }, entries.length, snapshot, stats)
+      );
+
+      // ============================================================
+      // 6. RETURN RESPONSE (and share it with waiting requests)
+      // ============================================================
+
+      const response: InsightsResponse = {
+        ...openaiResponse,
+        insightType: config.type,
+        period,
+        entriesAnalyzed: entries.length,
+        entriesSource,
+        generatedAt: now,
+        fromCache: false,
+        newSinceCache,
+        refreshing: false,
+        safety,
+        language,
+        trends
+      };
+
+      if (lockId) await completeFlight(supabase, user.id, fingerprint, lockId, response);
+
+      log.info('Fresh insights generated', { themes: openaiResponse.themes.length, annotations: openaiResponse.annotations.length });
+      return jsonResponse(response, 200);
+    } catch (error) {
+      // Release the flight so waiters and retries generate again
+      if (lockId) await abortFlight(supabase, user.id, fingerprint, lockId);
+      throw error;
+    }
+
+  } catch (error) {
+    // ============================================================
+    // ERROR HANDLING
+    // ============================================================
+
+    // Stack traces stay in the logs; `debug` is only sent when DEV_MODE=true
+    log.error('Insights request failed', { error: describeError(error, true) });
+
+    if (error instanceof InsightValidationError) {
+      return errorResponse(
+        502,
+        'INVALID_RESPONSE',
+        'AI returned an unusable response. Please try again.',
+        { details: error.errors }
+      );
+    }
+
+    if (error instanceof ProviderError) {
+      if (error.status === 429) {
+        return errorResponse(
+          429,
+          SharedErrorCode.RATE_LIMITED,
+          'Too many requests. Please try again in a few minutes.',
+          { retryAfter: 60, debug: `${error.provider} rate limit: ${error.message}` },
+          { 'Retry-After': '60' }
+        );
+      }
+      return errorResponse(
+        502,
+        'OPENAI_ERROR',
+        'AI service temporarily unavailable. Please try again.',
+        { debug: `${error.provider} API error (${error.status}): ${error.message}` }
+      );
+    }
+
+    return errorResponse(
+      500,
+      'INTERNAL_ERROR',
+      'Failed to generate insights. Please try again.',
+      { debug: describeError(error, true) }
+    );
+  }
+});
+
+// ============================================================
+// HELPER FUNCTIONS
+// ============================================================
+
+/**
+ * Check if cached insights exist for user
+ * With an entries hash, only an insight for exactly that entry set matches;
+ * with null, the latest valid insight for the type/period is returned
+ */
+async function getCachedInsight(
+  supabase: SupabaseClient,
+  userId: string,
+  config: InsightTypeConfig,
+  period: InsightPeriod | null,
+  entriesHash: string | null
+): Promise<CachedInsight | null> {
+  try {
+    const result = await supabase.rpc('get_cached_insight', {
+      p_user_id: userId,
+      p_insight_type: config.type,
+      p_date_start: period?.start ?? null,
+      p_date_end: period?.end ?? null,
+      p_entries_hash: entriesHash
+    });
+
+    if (result.error) {
+      log.error('Cache check failed', { error: result.error });
+      return null;
+    }
+
+    if (!result.data || result.data.length === 0) {
+      return null;
+    }
+
+    const cached = result.data[0];
+    return {
+      id: cached.id,
+      content: cached.content,
+      generated_at: cached.generated_at,
+      entries_analyzed_count: cached.entries_analyzed_count,
+      expires_at: cached.expires_at,
+      entries_snapshot: cached.entries_snapshot ?? null
+    };
+  } catch (error) {
+    log.error('Cache retrieval failed', { error });
+    return null;
+  }
+}
+
+/**
+ * Save insights to cache
+ */
+async function saveToCache(
+  supabase: SupabaseClient,
+  userId: string,
+  config: InsightTypeConfig,
+  period: InsightPeriod | null,
+  insights: StoredInsightContent,
+  entriesCount: number,
+  snapshot: EntriesSnapshot,
+  stats: GenerationStats
+): Promise<void> {
+  try {
+    const result = await supabase.rpc('save_insight_cache', {
+      p_user_id: userId,
+      p_insight_type: config.type,
+      p_content: insights,
+      p_entries_count: entriesCount,
+      p_date_start: period?.start ?? null,
+      p_date_end: period?.end ?? null,
+      p_ttl_hours: config.ttlHours,
+      p_entries_snapshot: snapshot,
+      p_generation_time_ms: stats.generationTimeMs,
+      p_model_version: stats.usage.model,
+      p_prompt_tokens: stats.usage.promptTokens,
+      p_completion_tokens: stats.usage.completionTokens,
+      p_prompt_version: stats.promptVersion,
+      p_repair_attempts: stats.repairAttempts
+    });
+
+    if (result.error) {
+      log.error('Cache save failed', { error: result.error });
+      // Don't throw - cache failure shouldn't block response
+    } else {
+      log.info('Saved to cache', { insightType: config.type, ttlHours: config.ttlHours });
+    }
+  } catch (error) {
+    log.error('Cache save failed', { error });
+    // Don't throw - cache failure shouldn't block response
+  }
+}
+
+/**
+ * Regenerate a stale cached insight after the response has been sent
+ * Guarded by the per-user refresh lock; if another request already holds
+ * it, that refresh will produce the newer version
+ */
+async function refreshInBackground(
+  supabase: SupabaseClient,
+  userId: string,
+  config: InsightTypeConfig,
+  period: InsightPeriod | null,
+  entries: JournalEntry[],
+  snapshot: EntriesSnapshot,
+  language: string,
+  riskLevel: RiskLevel
+): Promise<void> {
+  const lockId = await acquireRefreshLock(supabase, userId, config.type);
+  if (!lockId) {
+    log.info('Background refresh already running: skipping');
+    return;
+  }
+
+  try {
+    const budget = await checkTokenBudget(supabase, userId);
+    if (budget.exceeded) {
+      log.info('Monthly token budget exceeded: skipping background refresh');
+      return;
+    }
+
+    const latest = await getCachedInsight(supabase, userId, config, period, null);
+    const { content, stats } = await runGeneration(supabase, userId, entries, config, period, language, riskLevel);
+    const trends = await buildTrends(supabase, userId, config, period, content, entries.length, latest, language);
+    await saveToCache(supabase, userId, config, period, { ...content, trends, language }, entries.length, snapshot, stats);
+    log.info('Background refresh completed');
+  } catch (error) {
+    log.error('Background refresh failed', { error });
+  } finally {
+    await releaseRefreshLock(supabase, userId, config.type, lockId);
+  }
+}
+
+/**
+ * Entries new or edited since the previous cached insight
+ * Null when there's nothing to compare against (no cache, or a row cached
+ * before snapshots were stored)
+ */
+async function diffAgainstCache(
+  entries: JournalEntry[],
+  previous: EntriesSnapshot | null
+): Promise<EntryReference[] | null> {
+  if (!previous || !Array.isArray(previous.entry_hashes)) {
+    return null;
+  }
+  return await findNewEntries(entries, previous);
+}
+
+/**
+ * Theme trends against the previous generation: the latest cached insight
+ * of this type, or for weekly/monthly insights the preceding window
+ * Null when there is nothing to compare against
+ */
+async function buildTrends(
+  supabase: SupabaseClient,
+  userId: string,
+  config: InsightTypeConfig,
+  period: InsightPeriod | null,
+  content: InsightContent,
+  entriesCount: number,
+  latest: CachedInsight | null,
+  language: string
+): Promise<InsightTrends | null> {
+  let baseline = latest;
+  if (period) {
+    const previous = previousPeriod(config.window, period);
+    baseline = previous ? await getCachedInsight(supabase, userId, config, previous, null) : null;
+  }
+
+  if (!baseline || !Array.isArray(baseline.content?.themes)) {
+    return null;
+  }
+
+  // Theme names can't be matched across languages
+  if ((baseline.content.language ?? DEFAULT_LANGUAGE) !== language) {
+    return null;
+  }
+
+  const trends = diffThemes(
+    { themes: content.themes, entriesAnalyzed: entriesCount },
+    { themes: baseline.content.themes, entriesAnalyzed: baseline.entries_analyzed_count },
+    baseline.generated_at
+  );
+  log.info('Trends computed', { comparedTo: baseline.generated_at, statuses: trends.themes.map(t => t.status) });
+  return trends;
+}
+
+/**
+ * Run one full generation (map step if needed, then the insight itself)
+ * and measure its latency and token usage across every provider call
+ * Responses that never validate are logged against the prompt version
+ */
+async function runGeneration(
+  supabase: SupabaseClient,
+  userId: string,
+  entries: JournalEntry[],
+  config: InsightTypeConfig,
+  period: InsightPeriod | null,
+  language: string,
+  riskLevel: RiskLevel
+): Promise<{ content: InsightContent; stats: GenerationStats }> {
+  const startedAt = performance.now();
+  const usage = createUsageTotals();
+  const provider = getProvider();
+  const prompt = assignPromptVersion(userId);
+
+  // PII never reaches the provider; placeholders are mapped back afterwards
+  const redactor = createRedactor(entries.flatMap(entry => [entry.title ?? '', entry.content]));
+
+  // Too many entries for one prompt: digest them chunk by chunk first
+  const digests = entries.length > MAX_ENTRIES
+    ? await summarizeChunks(supabase, provider, userId, await chunkEntries(entries), usage, redactor)
+    : null;
+
+  let content: InsightContent;
+  let repairAttempts: number;
+  try {
+    ({ content, repairAttempts } = await generateInsights(
+      provider,
+      redactEntries(redactor, entries),
+      config,
+      period,
+      digests && redactor.redactValue(digests),
+      usage,
+      prompt,
+      language,
+      riskLevel,
+      redactor
+    ));
+    log.info('PII redacted', { redactions: redactor.summary() });
+  } catch (error) {
+    if (error instanceof InsightValidationError) {
+      await recordGenerationFailure(supabase, userId, config.type, prompt.id, usage, Math.round(performance.now() - startedAt));
+    }
+    throw error;
+  }
+
+  const stats: GenerationStats = {
+    generationTimeMs: Math.round(performance.now() - startedAt),
+    usage,
+    promptVersion: prompt.id,
+    repairAttempts
+  };
+
+  const cost = calculateCost(usage.model, usage.promptTokens, usage.completionTokens);
+  log.info('Generation completed', {
+    calls: usage.calls,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    costUsd: Number(cost.toFixed(6)),
+    generationTimeMs: stats.generationTimeMs,
+    promptVersion: prompt.id
+  });
+
+  return { content, stats };
+}
+
+/**
+ * Get the configured LLM provider (lazily created from env)
+ */
+function getProvider(): LLMProvider {
+  if (!providerCache) {
+    providerCache = createProviderFromEnv(fixtureResponders);
+    log.info('LLM provider configured', { provider: providerCache.name, model: providerCache.model });
+  }
+  return providerCache;
+}
+
+/**
+ * Generate insights using the configured LLM provider
+ * With digests (reduce step), the prompt carries the digests and an entry
+ * index instead of the entry texts. The response is restored before it is
+ * validated, so length limits apply to the text the user sees
+ */
+async function generateInsights(
+  provider: LLMProvider,
+  entries: JournalEntry[],
+  config: InsightTypeConfig,
+  period: InsightPeriod | null,
+  digests: ChunkDigest[] | null,
+  usage: UsageTotals,
+  prompt: PromptVersion,
+  language: string,
+  riskLevel: RiskLevel,
+  redactor: Redactor
+): Promise<{ content: InsightContent; repairAttempts: number }> {
+  const messages: ChatMessage[] = [{ role: 'system', content: prompt.systemPrompt }];
+
+  // Crisis language changes how the insight may be written; screened once,
+  // on the original text, before redaction
+  const safetyNote = safetyPromptNote(riskLevel);
+  if (safetyNote) {
+    messages.push({ role: 'system', content: safetyNote });
+  }
+
+  const languageNote = languagePromptNote(language, languageName(language));
+  if (languageNote) {
+    messages.push({ role: 'system', content: languageNote });
+  }
+
+  if (digests) {
+    messages.push(
+      { role: 'system', content: REDUCE_SYSTEM_NOTE },
+      { role: 'user', content: config.buildUserPrompt(buildReducePayload(entries, digests), period, prompt.toneGuidelines) }
+    );
+  } else {
+    // Format entries for prompt (limit content length to save tokens)
+    const entriesData = {
+      entries: entries.map(entry => ({
+        date: formatDate(entry.date),
+        title: entry.title || 'Untitled',
+        content: entry.content.substring(0, MAX_CONTENT_LENGTH),
+        word_count: entry.word_count,
+        mood: entry.mood || 'neutral'
+      }))
+    };
+    messages.push({ role: 'user', content: config.buildUserPrompt(JSON.stringify(entriesData), period, prompt.toneGuidelines) });
+  }
+
+  log.info('Calling provider', { provider: provider.name, entryCount: entries.length, digests: digests?.length ?? 0, promptVersion: prompt.id });
+
+  // First attempt + bounded repair attempts with the validation errors
+  let errors: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const completion: CompletionResult = await log.time('model', () => provider.complete({
+      purpose: config.purpose,
+      messages,
+      temperature: INSIGHTS_TEMPERATURE,
+      maxTokens: config.maxTokens,
+      jsonMode: true
+    }), { purpose: config.purpose, attempt: attempt + 1 });
+
+    recordUsage(usage, completion);
+
+    const responseText = completion.content ?? '';
+    log.info('Provider response received', { model: completion.model, totalTokens: completion.usage?.totalTokens, chars: responseText.length });
+
+    const parsed = parseJsonObject(responseText);
+    if (parsed.ok) {
+      const result = validateInsightResponse(redactor.restore(parsed.value), entries, config.shape);
+      if (result.valid) {
+        log.info('Response validated', { themes: result.value.themes.length, annotations: result.value.annotations.length });
+        return { content: result.value, repairAttempts: attempt };
+      }
+      errors = result.errors;
+    } else {
+      errors = [parsed.error];
+    }
+
+    // Validation errors name paths and dates, never entry text
+    log.warn('Response failed validation', { attempt: attempt + 1, errorCount: errors.length, errors: errors.slice(0, 3) });
+
+    // Show the model its own answer and what was wrong with it
+    messages.push(
+      { role: 'assistant', content: responseText },
+      { role: 'user', content: `${buildRepairPrompt(errors, entries)}\n${PLACEHOLDER_LENGTH_NOTE}` }
+    );
+  }
+
+  log.error('Response still invalid after repairs', { repairAttempts: MAX_REPAIR_ATTEMPTS });
+  throw new InsightValidationError(errors);
+}
+
+/**
+ * Format ISO8601 date to YYYY-MM-DD
+ */
+function formatDate(isoDate: string): string {
+  try {
+    const date = new Date(isoDate);
+    return date.toISOString().split('T')[0];
+  } catch {
+    return isoDate;
+  }
+}
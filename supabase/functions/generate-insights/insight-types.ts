@@ -0,0 +1,303 @@
+// insight-types.ts
+//
+// Insight types supported by generate-insights
+//
+// - theme_summary     Themes across the submitted/selected entries (default)
+// - weekly_recap      One ISO week (Monday-Sunday, UTC)
+// - monthly_insights  One calendar month (UTC)
+//
+// Each type has its own prompt, response shape, token budget and TTL.
+// The system prompt and tone guidelines come from the user's prompt
+// version (prompts.ts).
+// Weekly and monthly insights are cached per calendar window
+// (user_insights.date_range_start/end), which is what lets the app list
+// past weeks and months.
+//
+
+import { requiredString, THEME_SUMMARY_SHAPE, weekSummaries } from './validation.ts';
+import type { FieldValidator, InsightShape } from './validation.ts';
+import type { InsightPeriod, InsightType } from './types.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type InsightWindow = 'none' | 'week' | 'month';
+
+export interface InsightTypeConfig {
+  type: InsightType;
+  purpose: string;           // CompletionRequest.purpose (selects the fixture)
+  window: InsightWindow;
+  ttlHours: number;          // Cache TTL
+  staleHours: number;        // Background refresh after this (open windows only)
+  maxTokens: number;
+  shape: InsightShape;
+  buildUserPrompt(entriesJson: string, period: InsightPeriod | null, toneGuidelines: string): string;
+}
+
+export type PeriodResult =
+  | { ok: true; period: InsightPeriod | null }
+  | { ok: false; error: string };
+
+// ============================================================
+// PROMPTS
+// ============================================================
+
+// System prompt and tone guidelines are versioned in prompts.ts
+
+/**
+ * Theme object of every type's JSON structure; `period` goes into the
+ * frequency format ("X times this week")
+ */
+function themeSchema(period: string): string {
+  return `{
+      "name": "2-4 word theme name (be specific, not generic)",
+      "icon": "single emoji",
+      "explanation": "One sentence (max 60 words) explaining why this theme matters",
+      "frequency": "Use format: 'X times this ${period}' with actual numbers",
+      "source_entries": [
+        {"date": "YYYY-MM-DD", "title": "exact entry title"}
+      ]
+    }`;
+}
+
+function buildThemeSummaryPrompt(entriesJson: string, _period: InsightPeriod | null, toneGuidelines: string): string {
+  return `Generate an insight from these journal entries using this exact JSON structure:
+
+{
+  "summary": "One sentence capturing main emotional themes (max 140 characters)",
+  "description": "A 150-180 word paragraph describing the user's emotional landscape, recurring themes, and signs of growth or tension. Speak directly to the user. Focus on patterns and emotional arcs WITHOUT mentioning specific dates or entry titles - use time references like 'recently', 'this past week', 'early on', 'over time' instead.",
+  "annotations": [
+    {
+      "date": "YYYY-MM-DD",
+      "summary": "2-3 sentence paragraph explaining what happened emotionally on this date and why it matters to the overall emotional narrative"
+    }
+  ],
+  "themes": [
+    ${themeSchema('week/month')}
+  ]
+}
+
+Critical requirements:
+1. RETURN ONLY VALID JSON - no text before or after the JSON object
+2. Identify exactly 4-5 themes (not fewer, not more)
+3. Themes must be SPECIFIC: "Presentation performance anxiety" not "work stress"
+4. source_entries must be an array of objects with BOTH date and title - never use a simple string array
+5. Description should focus on emotional patterns WITHOUT specific dates - use temporal references like "recently" or "over the past week"
+6. Frequency must include actual numbers ("3 times" not "multiple times")
+7. Annotations: Identify 3-5 significant emotional moments from the journal entries. For each:
+   - Use YYYY-MM-DD format for the date
+   - Write 2-3 sentences explaining what happened emotionally that day and its significance
+   - Example: {"date": "2025-01-03", "summary": "This was the presentation that kept replaying in your mind. The performance anxiety peaked here, revealing patterns of self-criticism even when others saw success. It marked a turning point in recognizing the gap between internal experience and external reality."}
+
+${toneGuidelines}
+
+Journal entries to analyze:
+${entriesJson}`;
+}
+
+function buildWeeklyRecapPrompt(entriesJson: string, period: InsightPeriod | null, toneGuidelines: string): string {
+  return `Write a recap of the user's week (${describePeriod(period)}) from these journal entries using this exact JSON structure:
+
+{
+  "summary": "One sentence capturing how this week felt (max 140 characters)",
+  "description": "An 80-120 word paragraph about the emotional shape of the week: where it started, what shifted, where it ended. Speak directly to the user and use day references ('early in the week', 'by the weekend') instead of dates or entry titles.",
+  "highlight": "One sentence naming the moment of the week that mattered most and why",
+  "intention": "One open question the user could carry into next week (a question, not advice)",
+  "annotations": [
+    {
+      "date": "YYYY-MM-DD",
+      "summary": "1-2 sentences about what happened emotionally on this day"
+    }
+  ],
+  "themes": [
+    ${themeSchema('week')}
+  ]
+}
+
+Critical requirements:
+1. RETURN ONLY VALID JSON - no text before or after the JSON object
+2. Identify 2-3 themes that defined this week
+3. Annotations: 2-4 moments, only on dates that have entries
+4. source_entries must be an array of objects with BOTH date and title
+5. Frequency must include actual numbers ("3 times this week")
+6. "intention" must end with a question mark and must not tell the user what to do
+
+${toneGuidelines}
+
+Journal entries from this week:
+${entriesJson}`;
+}
+
+function buildMonthlyInsightsPrompt(entriesJson: string, period: InsightPeriod | null, toneGuidelines: string): string {
+  return `Write a monthly insight for ${describePeriod(period)} from these journal entries using this exact JSON structure:
+
+{
+  "summary": "One sentence capturing the month's main emotional themes (max 140 characters)",
+  "description": "A 150-200 word paragraph describing the month's emotional landscape and how it evolved. Speak directly to the user and use time references ('early in the month', 'by the end') instead of dates or entry titles.",
+  "shift": "One or two sentences on how the end of the month differs emotionally from the start",
+  "weeks": [
+    {
+      "week_start": "YYYY-MM-DD (Monday of that week)",
+      "summary": "1-2 sentences about that week"
+    }
+  ],
+  "annotations": [
+    {
+      "date": "YYYY-MM-DD",
+      "summary": "2-3 sentences explaining what happened emotionally on this date and why it mattered this month"
+    }
+  ],
+  "themes": [
+    ${themeSchema('month')}
+  ]
+}
+
+Critical requirements:
+1. RETURN ONLY VALID JSON - no text before or after the JSON object
+2. Identify exactly 4-5 themes (not fewer, not more)
+3. "weeks": one item per week that has entries, in order
+4. Annotations: 3-5 significant moments, only on dates that have entries
+5. source_entries must be an array of objects with BOTH date and title
+6. Frequency must include actual numbers ("5 times this month")
+
+${toneGuidelines}
+
+Journal entries from this month:
+${entriesJson}`;
+}
+
+// ============================================================
+// TYPE REGISTRY
+// ============================================================
+
+const reflectiveQuestion: FieldValidator = (value, path, entryDates) => {
+  const errors = requiredString(200)(value, path, entryDates);
+  if (errors.length === 0 && !(value as string).trim().endsWith('?')) {
+    errors.push(`${path} must be a question ending with "?"`);
+  }
+  return errors;
+};
+
+export const INSIGHT_TYPES: Record<InsightType, InsightTypeConfig> = {
+  theme_summary: {
+    type: 'theme_summary',
+    purpose: 'insights',
+    window: 'none',
+    ttlHours: 168,                 // 7 days
+    staleHours: 24,
+    maxTokens: 1500,
+    shape: THEME_SUMMARY_SHAPE,
+    buildUserPrompt: buildThemeSummaryPrompt
+  },
+  weekly_recap: {
+    type: 'weekly_recap',
+    purpose: 'weekly_recap',
+    window: 'week',
+    ttlHours: 24 * 90,             // Kept around as history
+    staleHours: 24,
+    maxTokens: 1000,
+    shape: {
+      minThemes: 2,
+      maxThemes: 3,
+      minAnnotations: 2,
+      maxAnnotations: 4,
+      extraFields: {
+        highlight: requiredString(300),
+        intention: reflectiveQuestion
+      }
+    },
+    buildUserPrompt: buildWeeklyRecapPrompt
+  },
+  monthly_insights: {
+    type: 'monthly_insights',
+    purpose: 'monthly_insights',
+    window: 'month',
+    ttlHours: 24 * 365,            // Kept around as history
+    staleHours: 72,
+    maxTokens: 2000,
+    shape: {
+      minThemes: 4,
+      maxThemes: 5,
+      minAnnotations: 3,
+      maxAnnotations: 5,
+      extraFields: {
+        shift: requiredString(400),
+        weeks: weekSummaries(1, 6)
+      }
+    },
+    buildUserPrompt: buildMonthlyInsightsPrompt
+  }
+};
+
+export function isInsightType(value: unknown): value is InsightType {
+  return typeof value === 'string' && Object.hasOwn(INSIGHT_TYPES, value);
+}
+
+// ============================================================
+// CALENDAR WINDOWS
+// ============================================================
+
+/**
+ * Calendar window containing `period` (default: now), in UTC
+ * Null for types without a window; future windows are rejected
+ */
+export function resolvePeriod(window: InsightWindow, period?: unknown): PeriodResult {
+  if (window === 'none') {
+    return { ok: true, period: null };
+  }
+
+  let anchor = new Date();
+  if (period !== undefined) {
+    if (typeof period !== 'string' || isNaN(new Date(period).getTime())) {
+      return { ok: false, error: 'period must be an ISO8601 date' };
+    }
+    anchor = new Date(period);
+  }
+
+  const start = window === 'week' ? startOfISOWeek(anchor) : startOfMonth(anchor);
+  if (start.getTime() > Date.now()) {
+    return { ok: false, error: 'period cannot be in the future' };
+  }
+
+  const end = new Date(start);
+  if (window === 'week') {
+    end.setUTCDate(end.getUTCDate() + 7);
+  } else {
+    end.setUTCMonth(end.getUTCMonth() + 1);
+  }
+
+  return { ok: true, period: { start: start.toISOString(), end: end.toISOString() } };
+}
+
+/**
+ * The window immediately before `period` (same length)
+ */
+export function previousPeriod(window: InsightWindow, period: InsightPeriod): InsightPeriod | null {
+  const result = resolvePeriod(window, new Date(new Date(period.start).getTime() - 1).toISOString());
+  return result.ok ? result.period : null;
+}
+
+/**
+ * True while the window is still collecting entries
+ */
+export function isOpenPeriod(period: InsightPeriod | null): boolean {
+  return period === null || new Date(period.end).getTime() > Date.now();
+}
+
+function startOfISOWeek(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  return start;
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function describePeriod(period: InsightPeriod | null): string {
+  if (!period) return 'recent entries';
+  const lastDay = new Date(new Date(period.end).getTime() - 1);
+  return `${period.start.split('T')[0]} to ${lastDay.toISOString().split('T')[0]}`;
+}
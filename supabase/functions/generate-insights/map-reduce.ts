@@ -0,0 +1,306 @@
+// map-reduce.ts
+//
+// Hierarchical summarization for long journal histories
+//
+// A single prompt holds ~20 truncated entries. For longer histories:
+// 1. Map:    entries are chunked by ISO week (large weeks are split) and
+//            each chunk is summarized into a ChunkDigest
+// 2. Cache:  digests are stored per chunk hash in insight_chunk_digests,
+//            so only new or edited weeks are summarized again
+// 3. Reduce: the insight prompt receives the digests plus a compact index
+//            of every entry (date, title) instead of the full texts
+//
+// Chunking by calendar week keeps chunk boundaries stable as new entries
+// are written, which is what makes the per-chunk cache effective.
+//
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildEntriesSnapshot } from './snapshot.ts';
+import { InsightValidationError, parseJsonObject, validateChunkDigest } from './validation.ts';
+import { recordUsage } from './usage.ts';
+import { log } from '../_shared/logger.ts';
+import { redactEntries } from './redaction.ts';
+import type { Redactor } from './redaction.ts';
+import type { UsageTotals } from './usage.ts';
+import type { ChatMessage, LLMProvider } from './providers.ts';
+import type { ChunkDigest, JournalEntry } from './types.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const CHUNK_MAX_ENTRIES = 12;          // Busy weeks are split into chunks of this size
+const DIGEST_CONTENT_LENGTH = 1500;    // Chars per entry in the map step
+const DIGEST_TEMPERATURE = 0.3;
+const DIGEST_MAX_TOKENS = 600;
+const DIGEST_CONCURRENCY = 3;          // Parallel map calls
+const DIGEST_VERSION = 'v1';           // Bump when the digest prompt/shape changes
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface EntryChunk {
+  key: string;                  // DIGEST_VERSION + hash of the chunk's entries
+  entries: JournalEntry[];      // Oldest first
+}
+
+// ============================================================
+// CHUNKING
+// ============================================================
+
+/**
+ * Split entries into chronological chunks: one per ISO week, with weeks
+ * above CHUNK_MAX_ENTRIES split into consecutive runs
+ */
+export async function chunkEntries(entries: JournalEntry[]): Promise<EntryChunk[]> {
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+
+  const byWeek = new Map<string, JournalEntry[]>();
+  for (const entry of sorted) {
+    const week = weekStartOf(entry.date);
+    byWeek.set(week, [...(byWeek.get(week) ?? []), entry]);
+  }
+
+  const chunks: EntryChunk[] = [];
+  for (const weekEntries of byWeek.values()) {
+    for (let i = 0; i < weekEntries.length; i += CHUNK_MAX_ENTRIES) {
+      const run = weekEntries.slice(i, i + CHUNK_MAX_ENTRIES);
+      const snapshot = await buildEntriesSnapshot(run);
+      chunks.push({ key: `${DIGEST_VERSION}:${snapshot.hash}`, entries: run });
+    }
+  }
+  return chunks;
+}
+
+// ============================================================
+// MAP STEP
+// ============================================================
+
+/**
+ * Digest every chunk, reusing cached digests where the chunk is unchanged
+ * Chunks are redacted for the prompt; digests are restored before caching,
+ * so cache keys and stored digests never depend on placeholder numbering
+ * Returned in chronological order
+ */
+export async function summarizeChunks(
+  supabase: SupabaseClient,
+  provider: LLMProvider,
+  userId: string,
+  chunks: EntryChunk[],
+  usage: UsageTotals,
+  redactor: Redactor
+): Promise<ChunkDigest[]> {
+  const cached = await loadCachedDigests(supabase, userId, chunks.map(c => c.key));
+  const missing = chunks.filter(c => !cached.has(c.key));
+
+  log.info('Map step', { chunks: chunks.length, cached: chunks.length - missing.length, toSummarize: missing.length });
+
+  // Bounded parallelism so a long backfill doesn't trip provider rate limits
+  for (let i = 0; i < missing.length; i += DIGEST_CONCURRENCY) {
+    const batch = missing.slice(i, i + DIGEST_CONCURRENCY);
+    const digests = await Promise.all(batch.map(chunk => summarizeChunk(provider, chunk, usage, redactor)));
+    batch.forEach((chunk, j) => cached.set(chunk.key, digests[j]));
+    await saveDigests(supabase, userId, provider.model, batch, digests);
+  }
+
+  return chunks.map(chunk => cached.get(chunk.key) as ChunkDigest);
+}
+
+/**
+ * Summarize one chunk (one repair attempt on invalid output)
+ */
+async function summarizeChunk(
+  provider: LLMProvider,
+  chunk: EntryChunk,
+  usage: UsageTotals,
+  redactor: Redactor
+): Promise<ChunkDigest> {
+  const entries = redactEntries(redactor, chunk.entries);
+  const entriesData = {
+    entries: entries.map(entry => ({
+      date: toDateOnly(entry.date),
+      title: entry.title || 'Untitled',
+      content: entry.content.substring(0, DIGEST_CONTENT_LENGTH),
+      word_count: entry.word_count,
+      mood: entry.mood || 'neutral'
+    }))
+  };
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: DIGEST_SYSTEM_PROMPT },
+    { role: 'user', content: buildDigestPrompt(JSON.stringify(entriesData)) }
+  ];
+
+  let errors: string[] = [];
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const completion = await log.time('model', () => provider.complete({
+      purpose: 'chunk_digest',
+      messages,
+      temperature: DIGEST_TEMPERATURE,
+      maxTokens: DIGEST_MAX_TOKENS,
+      jsonMode: true
+    }), { purpose: 'chunk_digest', attempt: attempt + 1 });
+    recordUsage(usage, completion);
+
+    const responseText = completion.content ?? '';
+    const parsed = parseJsonObject(responseText);
+    if (parsed.ok) {
+      const result = validateChunkDigest(parsed.value, entries);
+      if (result.valid) {
+        const dates = entriesData.entries.map(e => e.date);
+        return {
+          period_start: dates[0],
+          period_end: dates[dates.length - 1],
+          entry_count: chunk.entries.length,
+          ...redactor.restore(result.value)
+        };
+      }
+      errors = result.errors;
+    } else {
+      errors = [parsed.error];
+    }
+
+    log.warn('Digest failed validation', { attempt: attempt + 1, errorCount: errors.length, errors: errors.slice(0, 3) });
+    messages.push(
+      { role: 'assistant', content: responseText },
+      { role: 'user', content: `Your previous response failed validation:\n${errors.slice(0, 10).map(e => `- ${e}`).join('\n')}\n\nReturn the corrected JSON object only.` }
+    );
+  }
+
+  throw new InsightValidationError(errors);
+}
+
+// ============================================================
+// REDUCE STEP
+// ============================================================
+
+/**
+ * Explains the reduce payload to the model (sent as a second system message)
+ */
+export const REDUCE_SYSTEM_NOTE = `This journal is too long to include in full. The payload has two parts:
+- "digests": summaries of consecutive stretches of entries, oldest first, each with its own themes and moments
+- "entries": every entry's date, title, word count and mood, for references
+
+Base themes, annotations and the description on the digests, and take dates and titles for "annotations" and "source_entries" from "entries".`;
+
+/**
+ * Reduce payload: digests plus a compact index of every entry
+ */
+export function buildReducePayload(entries: JournalEntry[], digests: ChunkDigest[]): string {
+  return JSON.stringify({
+    entries: [...entries]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(entry => ({
+        date: toDateOnly(entry.date),
+        title: entry.title || 'Untitled',
+        word_count: entry.word_count,
+        mood: entry.mood || 'neutral'
+      })),
+    digests
+  });
+}
+
+// ============================================================
+// DIGEST CACHE
+// ============================================================
+
+async function loadCachedDigests(
+  supabase: SupabaseClient,
+  userId: string,
+  keys: string[]
+): Promise<Map<string, ChunkDigest>> {
+  const digests = new Map<string, ChunkDigest>();
+  if (keys.length === 0) return digests;
+
+  const { data, error } = await supabase
+    .from('insight_chunk_digests')
+    .select('chunk_hash, digest')
+    .eq('user_id', userId)
+    .in('chunk_hash', keys);
+
+  if (error) {
+    log.error('Digest cache read failed', { error });
+    return digests;
+  }
+
+  for (const row of data ?? []) {
+    digests.set(row.chunk_hash, row.digest as ChunkDigest);
+  }
+  return digests;
+}
+
+async function saveDigests(
+  supabase: SupabaseClient,
+  userId: string,
+  model: string,
+  chunks: EntryChunk[],
+  digests: ChunkDigest[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('insight_chunk_digests')
+    .upsert(chunks.map((chunk, i) => ({
+      user_id: userId,
+      chunk_hash: chunk.key,
+      digest: digests[i],
+      entry_count: chunk.entries.length,
+      model_version: model
+    })), { onConflict: 'user_id,chunk_hash' });
+
+  if (error) {
+    // Don't throw - the digests are still used for this request
+    log.error('Digest cache save failed', { error });
+  }
+}
+
+// ============================================================
+// PROMPTS
+// ============================================================
+
+const DIGEST_SYSTEM_PROMPT = `You condense a stretch of someone's journal into a compact digest that a later step will use to find patterns across months of writing. Be faithful to what the entries say; don't interpret beyond them.
+
+Output structure:
+- Return ONLY the JSON object, no other text
+- Follow the provided schema exactly`;
+
+function buildDigestPrompt(entriesJson: string): string {
+  return `Summarize these journal entries using this exact JSON structure:
+
+{
+  "summary": "60-120 words on the emotional arc of this stretch: what came up, what changed, what stayed the same",
+  "themes": [
+    {
+      "name": "2-4 word specific theme name",
+      "entries": [{"date": "YYYY-MM-DD", "title": "exact entry title"}]
+    }
+  ],
+  "moments": [
+    {"date": "YYYY-MM-DD", "summary": "1-2 sentences on why this day stood out"}
+  ]
+}
+
+Requirements:
+1. 1-4 themes, each citing the entries it came from
+2. 0-3 moments, only on dates that have entries
+3. Use only dates and titles from the entries below
+
+Journal entries:
+${entriesJson}`;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function toDateOnly(isoDate: string): string {
+  const date = new Date(isoDate);
+  return isNaN(date.getTime()) ? isoDate : date.toISOString().split('T')[0];
+}
+
+function weekStartOf(isoDate: string): string {
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return isoDate;
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  return day.toISOString().split('T')[0];
+}
@@ -0,0 +1,167 @@
+// prompts.ts
+//
+// Versioned prompt registry and A/B assignment for generate-insights
+//
+// Each prompt version has a stable ID that is saved with every generated
+// insight (user_insights.prompt_version, insight_usage_log.prompt_version),
+// so variants can be compared by feedback and validation failure rate
+// (get_prompt_version_stats). Versions are immutable: to change the tone,
+// add a new version instead of editing one that has already served users.
+//
+// A version covers the system prompt and the tone guidelines; the JSON
+// structure each insight type asks for stays in insight-types.ts because
+// validation depends on it.
+//
+// Environment:
+// - INSIGHTS_PROMPT_VARIANTS  Weighted versions, e.g. 'v1:50,v2-curious:50'
+//                             (default: v1 only). Users are assigned by a
+//                             hash of their ID, so assignment is stable.
+//
+
+import { log } from '../_shared/logger.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface PromptVersion {
+  id: string;                // Stored as prompt_version
+  description: string;
+  systemPrompt: string;
+  toneGuidelines: string;    // Appended to every user prompt
+}
+
+export interface PromptVariant {
+  version: PromptVersion;
+  weight: number;
+}
+
+// ============================================================
+// SHARED PROMPT PARTS
+// ============================================================
+
+const OUTPUT_RULES = `Output structure:
+- CRITICAL: Return ONLY the JSON object, absolutely no other text before or after
+- No markdown, code blocks, explanations, or commentary
+- Follow the provided schema exactly
+- The response must be parseable by JSON.parse()
+- Start with { and end with }`;
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+export const DEFAULT_PROMPT_VERSION = 'v1';
+
+export const PROMPT_VERSIONS: Record<string, PromptVersion> = {
+  'v1': {
+    id: 'v1',
+    description: 'Warm, direct companion voice (original prompt)',
+    systemPrompt: `You are a journaling companion who helps users see emotional patterns. Write warmly and directly—skip clinical or therapy jargon and avoid hedging.
+
+Core principles:
+- Reference concrete details from journal entries (activities, emotions)
+- Acknowledge struggles and growth, but avoid toxic positivity
+- Use active voice and avoid "it seems," "perhaps," or "it's important to note"
+- Write in second person ("you"), as if talking to a friend
+- Never diagnose, prescribe, or give therapeutic advice
+
+${OUTPUT_RULES}`,
+    toneGuidelines: `Tone guidelines:
+- Write like a perceptive friend, not a therapist
+- Acknowledge difficulty without dramatizing ("you've been processing" not "you're suffering")
+- Note growth without cheerleading ("you recognized" not "you're doing amazing!")
+- Use metaphors sparingly and only when they illuminate`
+  },
+  'v2-curious': {
+    id: 'v2-curious',
+    description: 'Observational voice that mirrors the user\'s own words and leaves conclusions open',
+    systemPrompt: `You are a journaling companion who notices patterns and reflects them back. Describe what the entries show in plain, concrete language and let the user draw their own conclusions.
+
+Core principles:
+- Quote or closely paraphrase the user's own words when naming a pattern
+- Describe what happened and how it felt; don't explain why
+- Prefer short sentences and everyday vocabulary
+- Write in second person ("you")
+- Never diagnose, prescribe, or give therapeutic advice
+
+${OUTPUT_RULES}`,
+    toneGuidelines: `Tone guidelines:
+- Sound curious, not certain ("you kept coming back to" not "you clearly need")
+- Name tensions without resolving them for the user
+- No praise, no pep talk, no metaphors
+- Keep every sentence grounded in something the user wrote`
+  }
+};
+
+/**
+ * Extra system note for insights written in a language other than English
+ * (null for English, which the prompts are already written in)
+ */
+export function languagePromptNote(language: string, name: string): string | null {
+  if (language === 'en') return null;
+  return `Language: the user writes in ${name}. Write every text value in ${name}, in the same natural, informal register.
+- Keep JSON keys and enum values in English, exactly as specified
+- Copy entry titles and dates exactly as given, without translating them
+- Write counts as digits (frequency must still contain a number)
+- Keep placeholders such as [PERSON_1] unchanged`;
+}
+
+// ============================================================
+// ASSIGNMENT
+// ============================================================
+
+/**
+ * Variants from INSIGHTS_PROMPT_VARIANTS; unknown versions and invalid
+ * weights are skipped, and an empty result falls back to the default
+ */
+export function getPromptVariants(): PromptVariant[] {
+  const raw = Deno.env.get('INSIGHTS_PROMPT_VARIANTS')?.trim();
+  const variants: PromptVariant[] = [];
+
+  for (const part of (raw ?? '').split(',')) {
+    if (!part.trim()) continue;
+    const [id, weightText = '1'] = part.split(':').map(s => s.trim());
+    const weight = Number(weightText);
+    const version = PROMPT_VERSIONS[id];
+    if (!version || !Number.isInteger(weight) || weight <= 0) {
+      log.warn('Ignoring invalid prompt variant', { variant: part.trim() });
+      continue;
+    }
+    variants.push({ version, weight });
+  }
+
+  return variants.length > 0
+    ? variants
+    : [{ version: PROMPT_VERSIONS[DEFAULT_PROMPT_VERSION], weight: 1 }];
+}
+
+/**
+ * Deterministic variant for a user: the same user always lands in the same
+ * bucket, and changing one weight only moves the users at that boundary
+ */
+export function assignPromptVersion(
+  userId: string,
+  variants: PromptVariant[] = getPromptVariants()
+): PromptVersion {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let bucket = fnv1a(userId) % total;
+
+  for (const variant of variants) {
+    if (bucket < variant.weight) return variant.version;
+    bucket -= variant.weight;
+  }
+  return variants[variants.length - 1].version;
+}
+
+/**
+ * 32-bit FNV-1a hash (unsigned)
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
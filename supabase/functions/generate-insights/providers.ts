@@ -0,0 +1,272 @@
+// providers.ts
+//
+// Pluggable LLM provider layer for generate-insights
+//
+// Providers:
+// - openai             OpenAI API via the official Deno SDK (default)
+// - openai-compatible  Any server exposing POST {baseUrl}/chat/completions
+//                      (vLLM, Ollama, LM Studio, llama.cpp server, ...)
+// - fixture            Deterministic offline responses, no network or API key
+//
+// Environment:
+// - LLM_PROVIDER   openai | openai-compatible | fixture  (default: openai)
+// - LLM_MODEL      Model name (default depends on provider)
+// - LLM_BASE_URL   Required for openai-compatible (e.g. http://localhost:8000/v1)
+// - LLM_API_KEY    Optional for openai-compatible; falls back to OPENAI_API_KEY
+// - OPENAI_API_KEY Required for openai
+//
+
+import OpenAI from 'https://deno.land/x/openai@v4.20.1/mod.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Provider-agnostic completion request
+ */
+export interface CompletionRequest {
+  purpose: string;           // What the call is for (e.g. "insights"); used by fixtures and logs
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  jsonMode: boolean;         // Ask the model for a bare JSON object
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string | null;
+  model: string;             // Model that actually served the request
+  usage: TokenUsage | null;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * Error raised by any provider; status mirrors the upstream HTTP status
+ * so the handler can map 429s to RATE_LIMITED regardless of provider
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly provider: string
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// ============================================================
+// OPENAI
+// ============================================================
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4.1-nano-2025-04-14';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_OPENAI_MODEL) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      });
+
+      return {
+        content: completion.choices[0]?.message?.content ?? null,
+        model: completion.model ?? this.model,
+        usage: completion.usage
+          ? {
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+              totalTokens: completion.usage.total_tokens
+            }
+          : null
+      };
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        throw new ProviderError(error.message, error.status ?? 502, this.name);
+      }
+      throw error;
+    }
+  }
+}
+
+// ============================================================
+// OPENAI-COMPATIBLE (self-hosted)
+// ============================================================
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private baseUrl: string;
+
+  constructor(
+    baseUrl: string,
+    readonly model: string,
+    private apiKey?: string
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {})
+        })
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ProviderError(`Could not reach ${this.baseUrl}: ${message}`, 503, this.name);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderError(
+        `Upstream returned ${response.status}: ${detail.substring(0, 200)}`,
+        response.status,
+        this.name
+      );
+    }
+
+    const data = await response.json();
+    const usage = data.usage;
+
+    return {
+      content: data.choices?.[0]?.message?.content ?? null,
+      model: data.model ?? this.model,
+      usage: usage
+        ? {
+            promptTokens: usage.prompt_tokens ?? 0,
+            completionTokens: usage.completion_tokens ?? 0,
+            totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0)
+          }
+        : null
+    };
+  }
+}
+
+// ============================================================
+// FIXTURE (offline, deterministic)
+// ============================================================
+
+/**
+ * Produces the raw model output for a request
+ */
+export type FixtureResponder = (request: CompletionRequest) => string;
+
+export const FIXTURE_MODEL = 'fixture-v1';
+
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+
+  constructor(
+    private responders: Record<string, FixtureResponder>,
+    readonly model: string = FIXTURE_MODEL
+  ) {}
+
+  complete(request: CompletionRequest): Promise<CompletionResult> {
+    const responder = this.responders[request.purpose];
+    if (!responder) {
+      return Promise.reject(
+        new ProviderError(`No fixture registered for purpose "${request.purpose}"`, 500, this.name)
+      );
+    }
+
+    const content = responder(request);
+    const promptChars = request.messages.reduce((sum, m) => sum + m.content.length, 0);
+
+    // Rough 4 chars/token so usage accounting has realistic numbers offline
+    const promptTokens = Math.ceil(promptChars / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return Promise.resolve({
+      content,
+      model: this.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    });
+  }
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+/**
+ * Build the provider selected by env config
+ * Fixture responders are passed in by the caller since they know the
+ * response shapes for each purpose
+ */
+export function createProviderFromEnv(
+  fixtures: Record<string, FixtureResponder>
+): LLMProvider {
+  const providerName = (Deno.env.get('LLM_PROVIDER') ?? 'openai').toLowerCase();
+  const model = Deno.env.get('LLM_MODEL');
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY not configured');
+      }
+      return new OpenAIProvider(apiKey, model || DEFAULT_OPENAI_MODEL);
+    }
+
+    case 'openai-compatible': {
+      const baseUrl = Deno.env.get('LLM_BASE_URL');
+      if (!baseUrl) {
+        throw new Error('LLM_BASE_URL not configured for openai-compatible provider');
+      }
+      if (!model) {
+        throw new Error('LLM_MODEL not configured for openai-compatible provider');
+      }
+      const apiKey = Deno.env.get('LLM_API_KEY') ?? Deno.env.get('OPENAI_API_KEY') ?? undefined;
+      return new OpenAICompatibleProvider(baseUrl, model, apiKey);
+    }
+
+    case 'fixture':
+      return new FixtureProvider(fixtures, model || FIXTURE_MODEL);
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}"`);
+  }
+}
@@ -0,0 +1,203 @@
+// redaction.ts
+//
+// PII redaction with reversible placeholders for generate-insights
+//
+// Journal text is redacted before any prompt is built: names, emails,
+// phone numbers and street addresses become stable placeholders such as
+// [PERSON_1] or [EMAIL_1]. The same value always gets the same placeholder
+// within one generation, so the model can still tell people apart. The
+// generated insight is restored afterwards.
+//
+// The mapping lives only in the redactor's closure for one generation: it
+// is never logged, returned or saved. Log summary() (counts per type) only.
+//
+// Detection is offline and deliberately simple:
+// - EMAIL, PHONE, ADDRESS by pattern
+// - PERSON by context ("my friend Sarah", "lunch with Tom Baker", "@handle");
+//   once learned, a name is replaced everywhere it appears
+//
+
+import type { JournalEntry } from './types.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type PiiType = 'PERSON' | 'EMAIL' | 'PHONE' | 'ADDRESS';
+
+export interface Redactor {
+  redact(text: string): string;
+  redactValue<T>(value: T): T;       // Every string inside value
+  restore<T>(value: T): T;           // Every string inside value
+  summary(): Record<PiiType, number>;
+}
+
+// ============================================================
+// PATTERNS
+// ============================================================
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// +1 (555) 123-4567, 555.123.4567, +44 20 7946 0958, 07700 900123, 5551234567
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,5}\)[\s.-]?|\d{2,5}[\s.-])\d{3,4}(?:[\s.-]?\d{3,4})?(?!\w)|(?<![\w+])\d{10,11}(?!\w)/g;
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+const ADDRESS_PATTERN = /\b\d{1,5}\s+(?:[A-Z][\p{L}'-]*\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle|Parkway|Pkwy|Highway|Hwy)\b\.?(?:,?\s+(?:Apt|Apartment|Suite|Unit|#)\.?\s*[\w-]+)?/gu;
+
+const HANDLE_PATTERN = /(?<![\w@])@[A-Za-z0-9_]{2,30}\b/g;
+
+// A capitalized name of one or two words
+const NAME = "([A-Z][\\p{L}'-]+(?:\\s+[A-Z][\\p{L}'-]+)?)";
+
+// Cue words match at the start of a sentence too ("Met Ana for coffee")
+const NAME_CUES = [
+  new RegExp(`\\b${anyCase('my')} (?:best |close |old )?(?:friend|boss|manager|coworker|co-worker|colleague|sister|brother|son|daughter|partner|husband|wife|boyfriend|girlfriend|fiancée?|ex|therapist|roommate|neighbou?r|cousin|niece|nephew|aunt|uncle|teacher|doctor|coach|mentor)\\s+${NAME}`, 'gu'),
+  new RegExp(`\\b(?:${['with', 'and', 'to', 'from', 'told', 'texted', 'called', 'met', 'saw', 'asked', 'visited', 'hugged', 'thanked', 'messaged', 'emailed', 'invited', 'married', 'dating', 'miss', 'missed'].map(anyCase).join('|')})\\s+${NAME}`, 'gu'),
+  new RegExp(`\\b(?:Dr|Mr|Mrs|Ms|Mx)\\.?\\s+${NAME}`, 'gu')
+];
+
+// Capitalized words the cues pick up that aren't names
+const NOT_NAMES = new Set([
+  'I', "I'm", "I've", "I'd", "I'll", 'The', 'A', 'An', 'My', 'This', 'That', 'It', 'We', 'They',
+  'Mom', 'Mum', 'Dad', 'Grandma', 'Grandpa', 'God', 'Dr', 'Mr', 'Mrs', 'Ms', 'Mx',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
+  'September', 'October', 'November', 'December',
+  'Christmas', 'Easter', 'Thanksgiving', 'Halloween', 'English', 'Spanish', 'French', 'German'
+]);
+
+const PLACEHOLDER_PATTERN = /\[?\b(PERSON|EMAIL|PHONE|ADDRESS)_(\d+)\b\]?/g;
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Create a redactor for one generation
+ * Names are learned from all texts up front, so a name introduced in one
+ * entry ("my sister Ana") is also redacted where it appears bare
+ */
+export function createRedactor(texts: string[]): Redactor {
+  const placeholders = new Map<string, string>();    // original -> placeholder
+  const originals = new Map<string, string>();       // placeholder -> original
+  const counts: Record<PiiType, number> = { PERSON: 0, EMAIL: 0, PHONE: 0, ADDRESS: 0 };
+
+  const placeholderFor = (type: PiiType, original: string): string => {
+    const key = `${type}:${original}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      counts[type] += 1;
+      placeholder = `[${type}_${counts[type]}]`;
+      placeholders.set(key, placeholder);
+      originals.set(placeholder, original);
+    }
+    return placeholder;
+  };
+
+  // Longest first, so "Tom Baker" wins over "Tom"
+  const names = learnNames(texts).sort((a, b) => b.length - a.length);
+  const namePattern = names.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.map(escapeRegex).join('|')})(?![\\p{L}\\p{N}])`, 'gu')
+    : null;
+
+  const redact = (text: string): string => {
+    let result = text
+      .replace(EMAIL_PATTERN, match => placeholderFor('EMAIL', match))
+      .replace(ADDRESS_PATTERN, match => placeholderFor('ADDRESS', match))
+      .replace(PHONE_PATTERN, match => isPhoneNumber(match) ? placeholderFor('PHONE', match) : match)
+      .replace(HANDLE_PATTERN, match => placeholderFor('PERSON', match));
+    if (namePattern) {
+      result = result.replace(namePattern, match => placeholderFor('PERSON', match));
+    }
+    return result;
+  };
+
+  const restoreText = (text: string): string =>
+    text.replace(PLACEHOLDER_PATTERN, (match, type, n) => originals.get(`[${type}_${n}]`) ?? match);
+
+  return {
+    redact,
+    redactValue: <T>(value: T): T => mapStrings(value, redact),
+    restore: <T>(value: T): T => mapStrings(value, restoreText),
+    summary: () => ({ ...counts })
+  };
+}
+
+/**
+ * Entries with title and content redacted (other fields unchanged)
+ */
+export function redactEntries(redactor: Redactor, entries: JournalEntry[]): JournalEntry[] {
+  return entries.map(entry => ({
+    ...entry,
+    title: entry.title ? redactor.redact(entry.title) : entry.title,
+    content: redactor.redact(entry.content)
+  }));
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Names introduced by a cue in any of the texts, plus the first name of
+ * two-word names
+ */
+export function learnNames(texts: string[]): string[] {
+  const names = new Set<string>();
+
+  for (const text of texts) {
+    for (const cue of NAME_CUES) {
+      for (const match of text.matchAll(cue)) {
+        const name = trimName(match[1]);
+        if (!name) continue;
+        names.add(name);
+        // "Tom Baker" is usually "Tom" afterwards
+        const first = name.split(' ')[0];
+        if (first !== name && first.length >= 2) names.add(first);
+      }
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Drop words that aren't part of the name ("Sarah Monday" -> "Sarah")
+ */
+function trimName(candidate: string): string | null {
+  const words: string[] = [];
+  for (const word of candidate.split(/\s+/)) {
+    if (NOT_NAMES.has(word) || NOT_NAMES.has(word.replace(/'s$/, ''))) break;
+    words.push(word.replace(/'s$/, ''));
+  }
+  const name = words.join(' ');
+  return name.length >= 2 ? name : null;
+}
+
+/**
+ * Cue word pattern matching a lowercase or capitalized first letter
+ * ("met" -> "[Mm]et"); the name after it must still be capitalized
+ */
+function anyCase(word: string): string {
+  return `[${word[0]}${word[0].toUpperCase()}]${word.slice(1)}`;
+}
+
+function isPhoneNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '').length;
+  return digits >= MIN_PHONE_DIGITS && digits <= MAX_PHONE_DIGITS;
+}
+
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === 'string') return fn(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])
+    ) as T;
+  }
+  return value;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,88 @@
+// refresh.ts
+//
+// Stale-while-revalidate support for generate-insights
+//
+// A stale cache hit is returned immediately and regenerated after the
+// response is sent. The per-user lock lives in the database
+// (insight_refresh_locks) so concurrent requests on different instances
+// don't all call the LLM; an in-memory set short-circuits repeats on the
+// same instance without a round trip.
+//
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { log } from '../_shared/logger.ts';
+
+// Supabase Edge Runtime global (absent when running under plain Deno)
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const REFRESH_LOCK_TTL_SECONDS = 120;  // Longer than a generation incl. repairs
+
+const refreshesInFlight = new Set<string>();
+
+/**
+ * Try to take the refresh lock for a user's insight type
+ * Returns the lock id, or null if a refresh is already running
+ */
+export async function acquireRefreshLock(
+  supabase: SupabaseClient,
+  userId: string,
+  insightType: string
+): Promise<string | null> {
+  const key = `${userId}:${insightType}`;
+  if (refreshesInFlight.has(key)) {
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc('try_acquire_insight_refresh_lock', {
+    p_user_id: userId,
+    p_insight_type: insightType,
+    p_ttl_seconds: REFRESH_LOCK_TTL_SECONDS
+  });
+
+  if (error) {
+    log.error('Refresh lock failed', { error });
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  refreshesInFlight.add(key);
+  return data as string;
+}
+
+/**
+ * Release a lock taken with acquireRefreshLock()
+ * Errors are logged only - the lock expires on its own
+ */
+export async function releaseRefreshLock(
+  supabase: SupabaseClient,
+  userId: string,
+  insightType: string,
+  lockId: string
+): Promise<void> {
+  refreshesInFlight.delete(`${userId}:${insightType}`);
+
+  const { error } = await supabase.rpc('release_insight_refresh_lock', {
+    p_user_id: userId,
+    p_insight_type: insightType,
+    p_lock_id: lockId
+  });
+
+  if (error) {
+    log.error('Refresh lock release failed', { error });
+  }
+}
+
+/**
+ * Keep work running after the response has been sent
+ * Uses EdgeRuntime.waitUntil when deployed; under plain Deno the promise
+ * simply runs to completion in the background
+ */
+export function runInBackground(task: Promise<unknown>): void {
+  const guarded = task.catch(error => log.error('Background task failed', { error }));
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(guarded);
+  }
+}
@@ -0,0 +1,208 @@
+// single-flight.ts
+//
+// Request deduplication and idempotency keys for generate-insights
+//
+// Identical requests that miss the cache at the same time (pull-to-refresh
+// plus a milestone trigger) would each pay for a generation. On a cache
+// miss the request joins a "flight" for its fingerprint (insight type,
+// period, entry set, language, force flag) in the database
+// (insight_generation_flights): the first request generates, the others
+// wait and return the same response.
+//
+// An optional Idempotency-Key header ties a request to its outcome for
+// 24 hours: a retry with the same key replays the stored response, even
+// with force_refresh. Reusing a key for a different request is rejected.
+// Only successful responses are stored; a failed generation releases its
+// flight and keys so a retry generates again.
+//
+// Database errors fail open: the request generates without a flight.
+//
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { log } from '../_shared/logger.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type FlightResult =
+  | { state: 'acquired'; lockId: string }
+  | { state: 'replay' | 'shared'; response: unknown; status: number }
+  | { state: 'key_conflict' }
+  | { state: 'timeout'; retryAfter: number }
+  | { state: 'unavailable' };            // Database error: generate unlocked
+
+export interface StoredResponse {
+  fingerprint: string;
+  response: unknown | null;              // Null while the generation runs
+  status: number | null;
+}
+
+export type IdempotencyKeyResult =
+  | { ok: true; key: string | null }
+  | { ok: false; error: string };
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const FLIGHT_TTL_SECONDS = 120;     // Longer than a generation incl. repairs
+const SHARE_WINDOW_SECONDS = 60;    // Completed flights answer late joiners
+const MAX_WAIT_MS = 60_000;         // Then 409 GENERATION_IN_PROGRESS
+const POLL_INTERVAL_MS = 750;
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]{1,255}$/;   // Printable ASCII, no spaces
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Read the optional Idempotency-Key header
+ */
+export function parseIdempotencyKey(req: Request): IdempotencyKeyResult {
+  const raw = req.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (raw === null) return { ok: true, key: null };
+
+  const key = raw.trim();
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return { ok: false, error: 'Idempotency-Key must be 1-255 printable ASCII characters' };
+  }
+  return { ok: true, key };
+}
+
+/**
+ * Stable fingerprint of everything that determines the generated insight
+ */
+export async function requestFingerprint(parts: Array<string | boolean | null>): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(parts));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Outcome stored for an idempotency key (null when unknown or expired)
+ */
+export async function findIdempotentResponse(
+  supabase: SupabaseClient,
+  userId: string,
+  key: string
+): Promise<StoredResponse | null> {
+  const { data, error } = await supabase.rpc('get_insight_idempotency_key', {
+    p_user_id: userId,
+    p_idempotency_key: key
+  });
+
+  if (error) {
+    log.error('Idempotency key lookup failed', { error });
+    return null;
+  }
+
+  const row = Array.isArray(data) ? data[0] : null;
+  return row
+    ? { fingerprint: row.fingerprint, response: row.response ?? null, status: row.response_status ?? null }
+    : null;
+}
+
+/**
+ * Join the flight for a fingerprint, waiting while an identical
+ * generation runs elsewhere
+ */
+export async function joinFlight(
+  supabase: SupabaseClient,
+  userId: string,
+  fingerprint: string,
+  idempotencyKey: string | null
+): Promise<FlightResult> {
+  const deadline = Date.now() + MAX_WAIT_MS;
+  let waited = false;
+
+  while (true) {
+    const { data, error } = await supabase.rpc('begin_insight_generation', {
+      p_user_id: userId,
+      p_fingerprint: fingerprint,
+      p_idempotency_key: idempotencyKey,
+      p_ttl_seconds: FLIGHT_TTL_SECONDS,
+      p_share_seconds: SHARE_WINDOW_SECONDS
+    });
+
+    if (error) {
+      log.error('Flight begin failed', { error });
+      return { state: 'unavailable' };
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    switch (row?.state) {
+      case 'acquired':
+        return { state: 'acquired', lockId: row.lock_id };
+      case 'replay':
+      case 'shared':
+        log.info('Sharing generation result', { state: row.state, waited });
+        return { state: row.state, response: row.response, status: row.response_status ?? 200 };
+      case 'key_conflict':
+        return { state: 'key_conflict' };
+      case 'wait':
+        break;
+      default:
+        log.error('Unexpected flight state', { state: row?.state ?? null });
+        return { state: 'unavailable' };
+    }
+
+    if (Date.now() + POLL_INTERVAL_MS > deadline) {
+      log.warn('Timed out waiting for identical generation');
+      return { state: 'timeout', retryAfter: Math.ceil(FLIGHT_TTL_SECONDS / 4) };
+    }
+
+    if (!waited) log.info('Waiting for identical generation in progress');
+    waited = true;
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Publish the response to waiting requests and pending idempotency keys
+ * Errors are logged only - waiters time out and the flight expires
+ */
+export async function completeFlight(
+  supabase: SupabaseClient,
+  userId: string,
+  fingerprint: string,
+  lockId: string,
+  response: unknown,
+  status = 200
+): Promise<void> {
+  const { error } = await supabase.rpc('complete_insight_generation', {
+    p_user_id: userId,
+    p_fingerprint: fingerprint,
+    p_lock_id: lockId,
+    p_response: response,
+    p_response_status: status
+  });
+
+  if (error) {
+    log.error('Flight complete failed', { error });
+  }
+}
+
+/**
+ * Release a failed flight so waiters and retries generate again
+ */
+export async function abortFlight(
+  supabase: SupabaseClient,
+  userId: string,
+  fingerprint: string,
+  lockId: string
+): Promise<void> {
+  const { error } = await supabase.rpc('abort_insight_generation', {
+    p_user_id: userId,
+    p_fingerprint: fingerprint,
+    p_lock_id: lockId
+  });
+
+  if (error) {
+    log.error('Flight abort failed', { error });
+  }
+}
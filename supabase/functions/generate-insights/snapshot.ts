@@ -0,0 +1,65 @@
+// snapshot.ts
+//
+// Content-addressed cache keys for generate-insights
+//
+// Each entry is hashed from its id and contents; the entry set is hashed
+// from the sorted entry hashes, so order doesn't matter and any added,
+// removed or edited entry produces a new key. The snapshot is stored in
+// user_insights.entries_snapshot next to the cached insight.
+//
+
+import type { EntriesSnapshot, EntryReference, JournalEntry } from './types.ts';
+
+const encoder = new TextEncoder();
+
+/**
+ * Build the snapshot (set hash + per-entry hashes) for a set of entries
+ */
+export async function buildEntriesSnapshot(entries: JournalEntry[]): Promise<EntriesSnapshot> {
+  const entryHashes = await Promise.all(entries.map(hashEntry));
+  const sorted = [...entryHashes].sort();
+
+  return {
+    hash: await sha256(sorted.join('\n')),
+    entry_hashes: sorted
+  };
+}
+
+/**
+ * Entries whose hash isn't in the previous snapshot (new or edited since)
+ */
+export async function findNewEntries(
+  entries: JournalEntry[],
+  previous: EntriesSnapshot
+): Promise<EntryReference[]> {
+  const known = new Set(previous.entry_hashes ?? []);
+  const hashes = await Promise.all(entries.map(hashEntry));
+
+  return entries
+    .filter((_, i) => !known.has(hashes[i]))
+    .map(entry => ({
+      ...(entry.id ? { id: entry.id } : {}),
+      date: entry.date,
+      title: entry.title
+    }));
+}
+
+/**
+ * Hash one entry from the fields that affect the generated insight
+ */
+function hashEntry(entry: JournalEntry): Promise<string> {
+  return sha256(JSON.stringify([
+    entry.id ?? '',
+    entry.date,
+    entry.title ?? '',
+    entry.content,
+    entry.mood ?? ''
+  ]));
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,174 @@
+// trends.ts
+//
+// Theme trends between consecutive insight generations
+//
+// A new insight's themes are matched against the previous generation's
+// themes by name (fuzzy: the model rarely repeats a name word for word),
+// then classified:
+// - emerging      No matching theme last time
+// - continuing    Matched, about as frequent as before
+// - intensifying  Matched, clearly more frequent relative to the entries analyzed
+// - faded         Last time's theme with no match now
+//
+// The baseline is picked by the caller (previous cached insight of the
+// same type, or the preceding week/month for windowed types).
+//
+
+import type { InsightTrends, Theme, ThemeTrend } from './types.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const MATCH_THRESHOLD = 0.5;       // Dice similarity of theme name tokens
+const INTENSIFY_RATIO = 1.25;      // Share of entries must grow by 25%
+const MIN_PREFIX_MATCH = 4;        // "connect" ~ "connection"
+
+const NAME_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'with', 'to', 'in', 'on', 'for', 'at',
+  'around', 'about', 'from', 'your', 'my', 'vs'
+]);
+
+/**
+ * One side of the comparison
+ */
+export interface TrendInput {
+  themes: Theme[];
+  entriesAnalyzed: number;
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Classify current themes against the previous generation's themes
+ * Faded themes are listed after the current ones
+ */
+export function diffThemes(
+  current: TrendInput,
+  previous: TrendInput,
+  comparedTo: string
+): InsightTrends {
+  const matches = matchThemes(current.themes, previous.themes);
+  const themes: ThemeTrend[] = [];
+
+  current.themes.forEach((theme, i) => {
+    const count = themeCount(theme);
+    const j = matches.get(i);
+
+    if (j === undefined) {
+      themes.push({ name: theme.name, icon: theme.icon, status: 'emerging', count, previousCount: null });
+      return;
+    }
+
+    const before = previous.themes[j];
+    const previousCount = themeCount(before);
+    themes.push({
+      name: theme.name,
+      icon: theme.icon,
+      status: isIntensifying(count, current.entriesAnalyzed, previousCount, previous.entriesAnalyzed)
+        ? 'intensifying'
+        : 'continuing',
+      previousName: before.name,
+      count,
+      previousCount
+    });
+  });
+
+  const matched = new Set(matches.values());
+  previous.themes.forEach((theme, j) => {
+    if (matched.has(j)) return;
+    themes.push({
+      name: theme.name,
+      icon: theme.icon,
+      status: 'faded',
+      count: 0,
+      previousCount: themeCount(theme)
+    });
+  });
+
+  return { comparedTo, themes };
+}
+
+/**
+ * Similarity of two theme names (0-1)
+ */
+export function themeNameSimilarity(a: string, b: string): number {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const used = new Set<number>();
+  let shared = 0;
+  for (const token of left) {
+    const k = right.findIndex((other, idx) => !used.has(idx) && tokensMatch(token, other));
+    if (k >= 0) {
+      used.add(k);
+      shared++;
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Greedy one-to-one matching, best pairs first
+ * Returns current index -> previous index
+ */
+function matchThemes(current: Theme[], previous: Theme[]): Map<number, number> {
+  const pairs: Array<{ i: number; j: number; score: number }> = [];
+  current.forEach((theme, i) => {
+    previous.forEach((before, j) => {
+      const score = themeNameSimilarity(theme.name, before.name);
+      if (score >= MATCH_THRESHOLD) pairs.push({ i, j, score });
+    });
+  });
+  pairs.sort((x, y) => y.score - x.score);
+
+  const matches = new Map<number, number>();
+  const taken = new Set<number>();
+  for (const { i, j } of pairs) {
+    if (matches.has(i) || taken.has(j)) continue;
+    matches.set(i, j);
+    taken.add(j);
+  }
+  return matches;
+}
+
+function isIntensifying(
+  count: number | null,
+  entries: number,
+  previousCount: number | null,
+  previousEntries: number
+): boolean {
+  if (count === null || previousCount === null || count <= previousCount) return false;
+  if (entries <= 0 || previousEntries <= 0 || previousCount === 0) return true;
+  return count / entries >= (previousCount / previousEntries) * INTENSIFY_RATIO;
+}
+
+/**
+ * Occurrences from "X times this week", else the number of source entries
+ */
+function themeCount(theme: Theme): number | null {
+  const match = typeof theme.frequency === 'string' ? theme.frequency.match(/\d+/) : null;
+  if (match) return Number(match[0]);
+  return Array.isArray(theme.source_entries) ? theme.source_entries.length : null;
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0 && !NAME_STOP_WORDS.has(token))
+    .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= MIN_PREFIX_MATCH && longer.startsWith(shorter);
+}
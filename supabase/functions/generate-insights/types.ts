@@ -4,6 +4,8 @@
 // Defines request/response interfaces for journal insights generation
 //
 
+import type { SafetyAssessment } from '../_shared/safety.ts';
+
 // ============================================================
 // REQUEST TYPES (from Swift app)
 // ============================================================
@@ -12,6 +14,7 @@
  * A single journal entry from the Swift app
  */
 export interface JournalEntry {
+  id?: string;           // Entry UUID (always set for server-sourced entries)
   date: string;          // ISO8601 format: "2025-10-23T10:30:00Z"
   title: string;         // Entry title (may be empty string)
   content: string;       // Entry text content
@@ -19,14 +22,41 @@ export interface JournalEntry {
   mood?: string;         // Optional mood tag (e.g., "anxious", "happy")
 }
 
+/**
+ * Server-side entry selection (alternative to uploading entries)
+ * Exactly one of `all`, `latest` or a `date_start`/`date_end` range
+ */
+export interface EntrySelection {
+  all?: boolean;             // Full history (up to the server's history limit)
+  latest?: number;           // Most recent N non-archived entries
+  date_start?: string;       // ISO8601, inclusive
+  date_end?: string;         // ISO8601, exclusive (defaults to now)
+}
+
+/**
+ * Kind of insight to generate (user_insights.insight_type)
+ */
+export type InsightType = 'theme_summary' | 'weekly_recap' | 'monthly_insights';
+
 /**
  * Request body from Swift app
+ * theme_summary: send either `entries` (client-sourced) or `selection` (server-sourced)
+ * weekly_recap / monthly_insights: entries are loaded for the calendar window around `period`
  */
 export interface GenerateInsightsRequest {
-  entries: JournalEntry[];
-  force_refresh?: boolean;   // Optional: Skip cache and generate fresh insights
+  insight_type?: InsightType;  // Default: 'theme_summary'
+  entries?: JournalEntry[];
+  selection?: EntrySelection;
+  period?: string;             // ISO8601 date inside the week/month to recap (default: now)
+  force_refresh?: boolean;     // Optional: Skip cache and generate fresh insights
+  locale?: string;             // BCP 47 tag for the insight language (default: detected from entries)
 }
 
+/**
+ * Where the analyzed entries came from
+ */
+export type EntriesSource = 'client' | 'server';
+
 // ============================================================
 // OPENAI RESPONSE TYPES (matches prompt schema)
 // ============================================================
@@ -68,6 +98,97 @@ export interface OpenAIInsightResponse {
   themes: Theme[];         // Exactly 4-5 themes (not fewer, not more)
 }
 
+/**
+ * One week inside a monthly insight
+ */
+export interface WeekSummary {
+  week_start: string;    // YYYY-MM-DD (Monday)
+  summary: string;       // 1-2 sentences about that week
+}
+
+/**
+ * weekly_recap response: base shape + highlight and intention
+ */
+export interface WeeklyRecapResponse extends OpenAIInsightResponse {
+  highlight: string;     // The moment of the week, one sentence
+  intention: string;     // One open reflective question for next week
+}
+
+/**
+ * monthly_insights response: base shape + week-by-week arc
+ */
+export interface MonthlyInsightResponse extends OpenAIInsightResponse {
+  weeks: WeekSummary[];  // One item per week with entries
+  shift: string;         // How the month's start and end differ emotionally
+}
+
+/**
+ * Content of any insight type (as cached in user_insights.content)
+ */
+export type InsightContent = OpenAIInsightResponse | WeeklyRecapResponse | MonthlyInsightResponse;
+
+/**
+ * How a theme changed since the previous generation (trends.ts)
+ */
+export type ThemeTrendStatus = 'emerging' | 'continuing' | 'intensifying' | 'faded';
+
+export interface ThemeTrend {
+  name: string;                 // Current name (previous name for faded themes)
+  icon: string;
+  status: ThemeTrendStatus;
+  previousName?: string;        // Matched theme from last time (continuing/intensifying)
+  count: number | null;         // Occurrences now (0 when faded)
+  previousCount: number | null; // Occurrences last time (null when emerging)
+}
+
+/**
+ * Theme changes against the previous generation
+ */
+export interface InsightTrends {
+  comparedTo: string;           // generated_at of the baseline insight
+  themes: ThemeTrend[];         // Current themes first, then faded ones
+}
+
+/**
+ * Content as stored in user_insights.content: the insight plus the trends
+ * computed when it was generated and the language it was written in
+ * (absent on rows cached before multilingual support: English)
+ */
+export type StoredInsightContent = InsightContent & { trends?: InsightTrends | null; language?: string };
+
+/**
+ * Calendar window a weekly/monthly insight covers (UTC)
+ */
+export interface InsightPeriod {
+  start: string;         // ISO8601, inclusive
+  end: string;           // ISO8601, exclusive
+}
+
+// ============================================================
+// MAP-REDUCE TYPES (full history)
+// ============================================================
+
+/**
+ * Theme noticed within one chunk of entries
+ */
+export interface DigestTheme {
+  name: string;
+  entries: SourceEntry[];
+}
+
+/**
+ * Intermediate summary of one chunk of entries (map step)
+ * Cached in insight_chunk_digests, keyed on the chunk's entry hash
+ */
+export interface ChunkDigest {
+  period_start: string;  // YYYY-MM-DD, first entry in the chunk
+  period_end: string;    // YYYY-MM-DD, last entry in the chunk
+  entry_count: number;
+  summary: string;       // 60-120 words on the chunk's emotional arc
+  themes: DigestTheme[]; // 1-4 themes with the entries they came from
+  moments: Annotation[]; // 0-3 significant moments
+}
+
 // ============================================================
 // DATABASE TYPES (Supabase cache)
 // ============================================================
@@ -77,29 +198,59 @@ export interface OpenAIInsightResponse {
  */
 export interface CachedInsight {
   id: string;                         // UUID
-  content: OpenAIInsightResponse;     // JSONB content
+  content: StoredInsightContent;      // JSONB content
   generated_at: string;               // ISO8601 timestamp
   entries_analyzed_count: number;     // How many entries analyzed
   expires_at: string;                 // When cache expires
+  entries_snapshot: EntriesSnapshot | null;  // Null for rows cached before snapshots
+}
+
+/**
+ * Content-addressed cache key stored in user_insights.entries_snapshot
+ */
+export interface EntriesSnapshot {
+  hash: string;                       // SHA-256 of the sorted entry hashes
+  entry_hashes: string[];             // SHA-256 per entry (id + contents)
 }
 
 // ============================================================
 // API RESPONSE TYPE (to Swift app)
 // ============================================================
 
+/**
+ * Entry that wasn't part of the previously cached insight
+ */
+export interface EntryReference {
+  id?: string;           // Set when the entry has an id
+  date: string;          // ISO8601, as sent/loaded
+  title: string;
+}
+
 /**
  * Response sent back to Swift app
  * Matches Swift JournalInsights model
  */
 export interface InsightsResponse {
+  insightType: InsightType;     // Which insight this is
+  period: InsightPeriod | null; // Calendar window (null for theme_summary)
   summary: string;              // From OpenAI response
   description: string;          // From OpenAI response
   annotations: Annotation[];    // From OpenAI response
   themes: Theme[];              // From OpenAI response
   entriesAnalyzed: number;      // How many entries were analyzed
+  entriesSource: EntriesSource; // 'server' when loaded from the entries table
   generatedAt: string;          // ISO8601 timestamp
   fromCache: boolean;           // True if served from cache, false if freshly generated
   cacheExpiresAt?: string;      // Optional: when cache expires (ISO8601)
+  newSinceCache: EntryReference[] | null;  // Entries new/edited since the previous cached insight (null if none cached)
+  refreshing: boolean;          // True if this cached insight is stale and a newer one is being generated
+  trends: InsightTrends | null; // Theme changes since the previous generation (null if none to compare)
+  safety: SafetyAssessment;     // Crisis-language screen of the analyzed entries
+  language: string;             // Base language the insight is written in ('en', 'es', …)
+  highlight?: string;           // weekly_recap only
+  intention?: string;           // weekly_recap only
+  weeks?: WeekSummary[];        // monthly_insights only
+  shift?: string;               // monthly_insights only
 }
 
 // ============================================================
@@ -107,16 +258,14 @@ export interface InsightsResponse {
 // ============================================================
 
 /**
- * Error response sent to client
+ * Error response sent to client (shared envelope)
  */
-export interface ErrorResponse {
-  error: string;          // User-friendly error message
-  code: string;           // Error code for client handling
-  retryAfter?: number;    // Optional: seconds to wait before retry (for rate limits)
-}
+export type { ErrorResponse } from '../_shared/types.ts';
 
 /**
  * Error codes used in responses
+ * The shared pipeline adds ORIGIN_NOT_ALLOWED, METHOD_NOT_ALLOWED,
+ * PAYLOAD_TOO_LARGE and RATE_LIMITED (_shared/types.ts)
  */
 export enum ErrorCode {
   AUTH_REQUIRED = 'AUTH_REQUIRED',
@@ -124,11 +273,18 @@ export enum ErrorCode {
   INVALID_JSON = 'INVALID_JSON',
   MISSING_ENTRIES = 'MISSING_ENTRIES',
   INVALID_ENTRIES = 'INVALID_ENTRIES',
+  INVALID_SELECTION = 'INVALID_SELECTION',
+  INVALID_INSIGHT_TYPE = 'INVALID_INSIGHT_TYPE',
+  INVALID_PERIOD = 'INVALID_PERIOD',
+  INVALID_LOCALE = 'INVALID_LOCALE',
+  INVALID_IDEMPOTENCY_KEY = 'INVALID_IDEMPOTENCY_KEY',
+  IDEMPOTENCY_KEY_REUSED = 'IDEMPOTENCY_KEY_REUSED',
+  GENERATION_IN_PROGRESS = 'GENERATION_IN_PROGRESS',
+  ENTRIES_ERROR = 'ENTRIES_ERROR',
   TOO_MANY_ENTRIES = 'TOO_MANY_ENTRIES',
   EMPTY_CONTENT = 'EMPTY_CONTENT',
   CACHE_ERROR = 'CACHE_ERROR',
   OPENAI_ERROR = 'OPENAI_ERROR',
-  RATE_LIMIT = 'RATE_LIMIT',
   NETWORK_ERROR = 'NETWORK_ERROR',
   INVALID_RESPONSE = 'INVALID_RESPONSE',
   INTERNAL_ERROR = 'INTERNAL_ERROR'
@@ -0,0 +1,190 @@
+// usage.ts
+//
+// Token usage, cost and monthly budget for generate-insights
+//
+// Every provider call (map-step digests, first attempt, repairs) is added
+// to a UsageTotals for the generation. The totals are saved with the
+// insight through save_insight_cache, which also appends them to
+// insight_usage_log; get_insight_usage_summary sums that log per calendar
+// month (UTC) for budget checks. Generations that fail validation are
+// logged too (recordGenerationFailure).
+//
+// Environment:
+// - INSIGHTS_MONTHLY_TOKEN_BUDGET  Tokens per user per month (default 300000, 0 = unlimited)
+//
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { log } from '../_shared/logger.ts';
+import type { CompletionResult } from './providers.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const DEFAULT_MONTHLY_TOKEN_BUDGET = 300_000;
+
+/**
+ * USD per 1M tokens (input, output); unknown models cost 0 (self-hosted, fixture)
+ */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4.1-nano': { input: 0.10, output: 0.40 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1': { input: 2.00, output: 8.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 }
+};
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Usage accumulated across all provider calls of one generation
+ */
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  calls: number;
+  model: string | null;      // Model that served the last call
+}
+
+/**
+ * Row returned by get_insight_usage_summary
+ */
+export interface UsageSummary {
+  generations: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  periodStart: string;       // ISO8601, first day of the month (UTC)
+}
+
+export interface BudgetStatus {
+  exceeded: boolean;
+  used: number;
+  budget: number;            // 0 = unlimited
+  retryAfter: number;        // Seconds until the budget resets
+}
+
+// ============================================================
+// ACCOUNTING
+// ============================================================
+
+export function createUsageTotals(): UsageTotals {
+  return { promptTokens: 0, completionTokens: 0, calls: 0, model: null };
+}
+
+/**
+ * Add one completion's usage to the totals
+ */
+export function recordUsage(totals: UsageTotals, completion: CompletionResult): void {
+  totals.calls += 1;
+  totals.model = completion.model;
+  if (completion.usage) {
+    totals.promptTokens += completion.usage.promptTokens;
+    totals.completionTokens += completion.usage.completionTokens;
+  }
+}
+
+/**
+ * Exact cost in USD from prompt/completion tokens
+ * Dated model names (gpt-4.1-nano-2025-04-14) match their base model
+ */
+export function calculateCost(model: string | null, promptTokens: number, completionTokens: number): number {
+  if (!model) return 0;
+
+  const base = Object.keys(MODEL_PRICING)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!base) return 0;
+
+  const pricing = MODEL_PRICING[base];
+  return (promptTokens / 1_000_000 * pricing.input) + (completionTokens / 1_000_000 * pricing.output);
+}
+
+/**
+ * Log a generation whose response never validated
+ * Its tokens still count toward the budget, and the failure counts against
+ * its prompt version (get_prompt_version_stats)
+ */
+export async function recordGenerationFailure(
+  supabase: SupabaseClient,
+  userId: string,
+  insightType: string,
+  promptVersion: string,
+  usage: UsageTotals,
+  generationTimeMs: number
+): Promise<void> {
+  const { error } = await supabase.rpc('log_insight_generation_failure', {
+    p_user_id: userId,
+    p_insight_type: insightType,
+    p_prompt_version: promptVersion,
+    p_model_version: usage.model,
+    p_prompt_tokens: usage.promptTokens,
+    p_completion_tokens: usage.completionTokens,
+    p_generation_time_ms: generationTimeMs
+  });
+
+  if (error) {
+    log.error('Failure log failed', { error });
+  }
+}
+
+// ============================================================
+// BUDGET
+// ============================================================
+
+export function getMonthlyTokenBudget(): number {
+  const raw = Deno.env.get('INSIGHTS_MONTHLY_TOKEN_BUDGET');
+  if (raw === undefined || raw.trim() === '') return DEFAULT_MONTHLY_TOKEN_BUDGET;
+
+  const budget = Number(raw);
+  return Number.isFinite(budget) && budget >= 0 ? Math.floor(budget) : DEFAULT_MONTHLY_TOKEN_BUDGET;
+}
+
+/**
+ * This month's usage for a user, or null if it couldn't be read
+ */
+export async function getUsageSummary(supabase: SupabaseClient, userId: string): Promise<UsageSummary | null> {
+  const { data, error } = await supabase.rpc('get_insight_usage_summary', {
+    p_user_id: userId
+  });
+
+  if (error) {
+    log.error('Usage summary failed', { error });
+    return null;
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) return null;
+
+  return {
+    generations: row.generations ?? 0,
+    promptTokens: Number(row.prompt_tokens ?? 0),
+    completionTokens: Number(row.completion_tokens ?? 0),
+    totalTokens: Number(row.total_tokens ?? 0),
+    periodStart: row.period_start
+  };
+}
+
+/**
+ * Check the user's monthly token budget
+ * Fails open: if usage can't be read, generation is allowed
+ */
+export async function checkTokenBudget(supabase: SupabaseClient, userId: string): Promise<BudgetStatus> {
+  const budget = getMonthlyTokenBudget();
+  const retryAfter = secondsUntilNextMonth(new Date());
+
+  if (budget === 0) {
+    return { exceeded: false, used: 0, budget, retryAfter };
+  }
+
+  const summary = await getUsageSummary(supabase, userId);
+  const used = summary?.totalTokens ?? 0;
+  return { exceeded: used >= budget, used, budget, retryAfter };
+}
+
+function secondsUntilNextMonth(now: Date): number {
+  const nextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.ceil((nextMonth - now.getTime()) / 1000);
+}
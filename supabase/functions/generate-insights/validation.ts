@@ -0,0 +1,421 @@
+// validation.ts
+//
+// Strict schema validation for insight responses
+//
+// The model is asked for an exact JSON schema, but nothing guarantees it
+// follows it. Every insight type shares the base shape (summary,
+// description, annotations, themes) with its own counts, plus optional
+// type-specific fields. Every response is checked here before it is cached or
+// returned; failures are reported as a list of human-readable errors that
+// are fed back to the model in a bounded repair prompt.
+//
+
+import type {
+  Annotation,
+  ChunkDigest,
+  DigestTheme,
+  InsightContent,
+  JournalEntry,
+  Theme
+} from './types.ts';
+
+// ============================================================
+// LIMITS (mirror the prompt's schema description)
+// ============================================================
+
+export const MAX_SUMMARY_LENGTH = 140;
+export const MIN_THEMES = 4;
+export const MAX_THEMES = 5;
+export const MIN_ANNOTATIONS = 3;
+export const MAX_ANNOTATIONS = 5;
+
+/**
+ * Expected counts and extra fields for one insight type
+ */
+export interface InsightShape {
+  minThemes: number;
+  maxThemes: number;
+  minAnnotations: number;      // Capped at the number of distinct entry dates
+  maxAnnotations: number;
+  extraFields?: Record<string, FieldValidator>;
+}
+
+/**
+ * Validates one type-specific field; returns error messages
+ */
+export type FieldValidator = (value: unknown, path: string, entryDates: Set<string>) => string[];
+
+export const THEME_SUMMARY_SHAPE: InsightShape = {
+  minThemes: MIN_THEMES,
+  maxThemes: MAX_THEMES,
+  minAnnotations: MIN_ANNOTATIONS,
+  maxAnnotations: MAX_ANNOTATIONS
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const KEYCAP_PATTERN = /^[#*0-9]\uFE0F?\u20E3$/u;
+const PICTOGRAPHIC_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+// ============================================================
+// ERRORS
+// ============================================================
+
+/**
+ * Raised when the model keeps returning invalid output after repair attempts
+ */
+export class InsightValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid insight response: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'InsightValidationError';
+  }
+}
+
+export type ValidationResult =
+  | { valid: true; value: InsightContent }
+  | { valid: false; errors: string[] };
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Parse model output as a JSON object
+ * Tolerates surrounding prose or code fences, but the extracted object
+ * still has to pass validateInsightResponse()
+ */
+export function parseJsonObject(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    // Fall through to extraction
+  }
+
+  const firstBrace = text.indexOf('{');
+  const lastBrace = text.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace <= firstBrace) {
+    return { ok: false, error: 'Response is not a JSON object' };
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(text.substring(firstBrace, lastBrace + 1)) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, error: `Response is not valid JSON (${message})` };
+  }
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Validate a parsed response against the schema and the submitted entries
+ */
+export function validateInsightResponse(
+  value: unknown,
+  entries: JournalEntry[],
+  shape: InsightShape = THEME_SUMMARY_SHAPE
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const entryDates = new Set(entries.map(e => toDateOnly(e.date)));
+
+  // summary
+  if (!isNonEmptyString(value.summary)) {
+    errors.push('"summary" must be a non-empty string');
+  } else if (charLength(value.summary) > MAX_SUMMARY_LENGTH) {
+    errors.push(`"summary" must be at most ${MAX_SUMMARY_LENGTH} characters (got ${charLength(value.summary)})`);
+  }
+
+  // description
+  if (!isNonEmptyString(value.description)) {
+    errors.push('"description" must be a non-empty string');
+  }
+
+  // annotations
+  if (!Array.isArray(value.annotations)) {
+    errors.push('"annotations" must be an array');
+  } else {
+    // Can't ask for more distinct moments than there are entry dates
+    const minAnnotations = Math.min(shape.minAnnotations, entryDates.size);
+    if (value.annotations.length < minAnnotations || value.annotations.length > shape.maxAnnotations) {
+      errors.push(`"annotations" must contain ${minAnnotations}-${shape.maxAnnotations} items (got ${value.annotations.length})`);
+    }
+    value.annotations.forEach((annotation, i) => {
+      errors.push(...validateAnnotation(annotation, `annotations[${i}]`, entryDates));
+    });
+  }
+
+  // themes
+  if (!Array.isArray(value.themes)) {
+    errors.push('"themes" must be an array');
+  } else {
+    if (value.themes.length < shape.minThemes || value.themes.length > shape.maxThemes) {
+      errors.push(`"themes" must contain ${shape.minThemes}-${shape.maxThemes} items (got ${value.themes.length})`);
+    }
+    value.themes.forEach((theme, i) => {
+      errors.push(...validateTheme(theme, `themes[${i}]`, entryDates));
+    });
+  }
+
+  // type-specific fields
+  const extraFields = Object.entries(shape.extraFields ?? {});
+  for (const [field, validate] of extraFields) {
+    errors.push(...validate(value[field], `"${field}"`, entryDates));
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const extras = Object.fromEntries(extraFields.map(([field]) => [field, value[field]]));
+
+  return {
+    valid: true,
+    value: {
+      summary: value.summary as string,
+      description: value.description as string,
+      annotations: value.annotations as Annotation[],
+      themes: value.themes as Theme[],
+      ...extras
+    }
+  };
+}
+
+function validateAnnotation(value: unknown, path: string, entryDates: Set<string>): string[] {
+  if (!isObject(value)) {
+    return [`${path} must be an object with "date" and "summary"`];
+  }
+
+  const errors: string[] = [];
+  errors.push(...validateEntryDate(value.date, `${path}.date`, entryDates));
+  if (!isNonEmptyString(value.summary)) {
+    errors.push(`${path}.summary must be a non-empty string`);
+  }
+  return errors;
+}
+
+function validateTheme(value: unknown, path: string, entryDates: Set<string>): string[] {
+  if (!isObject(value)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(value.name)) {
+    errors.push(`${path}.name must be a non-empty string`);
+  }
+
+  if (typeof value.icon !== 'string' || !isSingleEmoji(value.icon)) {
+    errors.push(`${path}.icon must be a single emoji`);
+  }
+
+  if (!isNonEmptyString(value.explanation)) {
+    errors.push(`${path}.explanation must be a non-empty string`);
+  }
+
+  if (!isNonEmptyString(value.frequency) || !/\d/.test(value.frequency)) {
+    errors.push(`${path}.frequency must include an actual number (e.g. "3 times this week")`);
+  }
+
+  if (!Array.isArray(value.source_entries) || value.source_entries.length === 0) {
+    errors.push(`${path}.source_entries must be a non-empty array of {date, title} objects`);
+  } else {
+    value.source_entries.forEach((source, i) => {
+      errors.push(...validateSourceEntry(source, `${path}.source_entries[${i}]`, entryDates));
+    });
+  }
+
+  return errors;
+}
+
+function validateSourceEntry(value: unknown, path: string, entryDates: Set<string>): string[] {
+  if (!isObject(value)) {
+    return [`${path} must be an object with "date" and "title"`];
+  }
+
+  const errors = validateEntryDate(value.date, `${path}.date`, entryDates);
+  if (typeof value.title !== 'string') {
+    errors.push(`${path}.title must be a string`);
+  }
+  return errors;
+}
+
+function validateEntryDate(value: unknown, path: string, entryDates: Set<string>): string[] {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return [`${path} must be a YYYY-MM-DD string`];
+  }
+  if (!entryDates.has(value)) {
+    return [`${path} "${value}" does not match any journal entry date`];
+  }
+  return [];
+}
+
+// ============================================================
+// CHUNK DIGESTS (map step of map-reduce)
+// ============================================================
+
+export const MAX_DIGEST_THEMES = 4;
+export const MAX_DIGEST_MOMENTS = 3;
+
+export type DigestValidationResult =
+  | { valid: true; value: Pick<ChunkDigest, 'summary' | 'themes' | 'moments'> }
+  | { valid: false; errors: string[] };
+
+/**
+ * Validate a chunk digest against the entries in that chunk
+ */
+export function validateChunkDigest(value: unknown, entries: JournalEntry[]): DigestValidationResult {
+  if (!isObject(value)) {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const entryDates = new Set(entries.map(e => toDateOnly(e.date)));
+
+  if (!isNonEmptyString(value.summary)) {
+    errors.push('"summary" must be a non-empty string');
+  }
+
+  if (!Array.isArray(value.themes) || value.themes.length === 0 || value.themes.length > MAX_DIGEST_THEMES) {
+    errors.push(`"themes" must contain 1-${MAX_DIGEST_THEMES} items`);
+  } else {
+    value.themes.forEach((theme, i) => {
+      const path = `themes[${i}]`;
+      if (!isObject(theme)) {
+        errors.push(`${path} must be an object with "name" and "entries"`);
+        return;
+      }
+      if (!isNonEmptyString(theme.name)) {
+        errors.push(`${path}.name must be a non-empty string`);
+      }
+      if (!Array.isArray(theme.entries) || theme.entries.length === 0) {
+        errors.push(`${path}.entries must be a non-empty array of {date, title} objects`);
+      } else {
+        theme.entries.forEach((source, j) => {
+          errors.push(...validateSourceEntry(source, `${path}.entries[${j}]`, entryDates));
+        });
+      }
+    });
+  }
+
+  if (!Array.isArray(value.moments) || value.moments.length > MAX_DIGEST_MOMENTS) {
+    errors.push(`"moments" must be an array of at most ${MAX_DIGEST_MOMENTS} items`);
+  } else {
+    value.moments.forEach((moment, i) => {
+      errors.push(...validateAnnotation(moment, `moments[${i}]`, entryDates));
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      summary: value.summary as string,
+      themes: value.themes as DigestTheme[],
+      moments: value.moments as Annotation[]
+    }
+  };
+}
+
+// ============================================================
+// FIELD VALIDATORS (for InsightShape.extraFields)
+// ============================================================
+
+/**
+ * Non-empty string, optionally capped in characters
+ */
+export function requiredString(maxLength?: number): FieldValidator {
+  return (value, path) => {
+    if (!isNonEmptyString(value)) {
+      return [`${path} must be a non-empty string`];
+    }
+    if (maxLength !== undefined && charLength(value) > maxLength) {
+      return [`${path} must be at most ${maxLength} characters (got ${charLength(value)})`];
+    }
+    return [];
+  };
+}
+
+/**
+ * Array of { week_start: YYYY-MM-DD, summary } objects
+ */
+export function weekSummaries(minItems: number, maxItems: number): FieldValidator {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return [`${path} must be an array`];
+    }
+
+    const errors: string[] = [];
+    if (value.length < minItems || value.length > maxItems) {
+      errors.push(`${path} must contain ${minItems}-${maxItems} items (got ${value.length})`);
+    }
+    value.forEach((week, i) => {
+      const itemPath = `${path}[${i}]`;
+      if (!isObject(week)) {
+        errors.push(`${itemPath} must be an object with "week_start" and "summary"`);
+        return;
+      }
+      if (typeof week.week_start !== 'string' || !DATE_PATTERN.test(week.week_start)) {
+        errors.push(`${itemPath}.week_start must be a YYYY-MM-DD string`);
+      }
+      if (!isNonEmptyString(week.summary)) {
+        errors.push(`${itemPath}.summary must be a non-empty string`);
+      }
+    });
+    return errors;
+  };
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * True if the string is exactly one emoji grapheme (ZWJ sequences,
+ * skin tones, flags and keycaps count as one)
+ */
+export function isSingleEmoji(value: string): boolean {
+  const trimmed = value.trim();
+  const graphemes = [...graphemeSegmenter.segment(trimmed)];
+  if (graphemes.length !== 1) return false;
+  return PICTOGRAPHIC_PATTERN.test(trimmed) || KEYCAP_PATTERN.test(trimmed);
+}
+
+/**
+ * Build the repair instruction sent back to the model after a failure
+ */
+export function buildRepairPrompt(errors: string[], entries: JournalEntry[]): string {
+  const validDates = [...new Set(entries.map(e => toDateOnly(e.date)))].sort();
+  return `Your previous response failed validation:
+${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}
+
+Return the corrected JSON object only, using the exact same schema.
+Only use these entry dates for "annotations" and "source_entries": ${validDates.join(', ')}`;
+}
+
+function toDateOnly(isoDate: string): string {
+  const date = new Date(isoDate);
+  return isNaN(date.getTime()) ? isoDate : date.toISOString().split('T')[0];
+}
+
+function charLength(value: string): number {
+  return Array.from(value).length;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
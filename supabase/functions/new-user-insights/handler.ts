@@ -0,0 +1,392 @@
+// new-user-insights/handler.ts
+//
+// Request handler for analyzing user self-reflection text and returning
+// personalized themes (served by index.ts)
+//
+// Features:
+// - Server-side input validation (20-2000 chars, sanitization)
+// - One fresh analysis per 24h: a similar reflection (Jaccard >= 0.7)
+//   replays the stored response, a changed one gets RATE_LIMITED
+// - Theme caching, reloaded when the catalog version changes (_shared/themes.ts)
+// - Last response stored on the profile (window start and exact replay),
+//   written with the service role: clients can't reset the window
+// - BM25 keyword scoring with stemming and negation (_shared/theme-scoring.ts)
+// - Smart theme count (3-6 based on match quality)
+// - Explainable matches: relative score, matched keywords and excerpts per
+//   theme; optional runners-up (`includeRunnersUp`)
+// - Multilingual: `locale` or detected language picks the keyword set and
+//   the language of the returned titles and summaries
+
+import type { Theme, ThemeScore, AnalysisResponse, SuggestedTheme } from './types.ts';
+import { buildExcerpts, scoreThemes } from '../_shared/theme-scoring.ts';
+import { getThemeCatalog } from '../_shared/themes.ts';
+import { createHandler, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient } from '../_shared/auth.ts';
+import { SharedErrorCode } from '../_shared/types.ts';
+import { describeError, log } from '../_shared/logger.ts';
+import { assessTexts } from '../_shared/safety.ts';
+import { countLetters, parseLocaleParam, resolveLocale } from '../_shared/locale.ts';
+import type { RateLimitPolicy } from '../_shared/rate-limit.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const MAX_TEXT_LENGTH = 2000;
+const MIN_TEXT_LENGTH = 20;
+const MIN_LETTERS = 10;             // Letters in any script
+const MAX_BODY_BYTES = 16 * 1024;   // MAX_TEXT_LENGTH chars of UTF-8, plus markup
+const RATE_LIMIT_HOURS = 24;        // Between fresh analyses of a changed reflection
+const SIMILARITY_THRESHOLD = 0.7;   // Jaccard index: at or above replays the stored analysis
+const REPLAYED_HEADER = 'Idempotent-Replayed';
+const STRONG_MATCH_SCORE = 0.6;     // Normalized theme scores (theme-scoring.ts)
+const MEDIUM_MATCH_SCORE = 0.3;
+const MAX_RUNNERS_UP = 3;           // With includeRunnersUp
+
+// Request rate limits (overridable via RATE_LIMIT_NEW_USER_INSIGHTS_USER / _IP)
+const FUNCTION_NAME = 'new-user-insights';
+const RATE_LIMITS: RateLimitPolicy = {
+  user: { capacity: 5, refillPerHour: 5 },
+  ip: { capacity: 20, refillPerHour: 40 }
+};
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+// CORS, method, rate limits, authentication and JSON parsing: _shared/http.ts
+export const handler = createHandler({
+  name: FUNCTION_NAME,
+  maxBodyBytes: MAX_BODY_BYTES,
+  rateLimits: RATE_LIMITS
+}, async ({ req, user, supabase, body }) => {
+  try {
+    log.info('Theme analysis request');
+
+    // ============================================================
+    // 1. VALIDATE INPUT
+    // ============================================================
+
+    const { selfReflectionText, locale: localeParam, includeRunnersUp = false } = body;
+
+    // Validate text exists
+    if (!selfReflectionText || typeof selfReflectionText !== 'string') {
+      return jsonResponse(
+        { error: 'Missing selfReflectionText field', code: 'MISSING_TEXT' },
+        400
+      );
+    }
+
+    const localeResult = parseLocaleParam(localeParam);
+    if (!localeResult.ok) {
+      return jsonResponse(
+        { error: localeResult.error, code: 'INVALID_LOCALE' },
+        400
+      );
+    }
+
+    if (typeof includeRunnersUp !== 'boolean') {
+      return jsonResponse(
+        { error: 'includeRunnersUp must be a boolean', code: 'INVALID_RUNNERS_UP' },
+        400
+      );
+    }
+
+    // Sanitize HTML tags (prevent XSS); NFC so accented keywords match
+    const sanitized = selfReflectionText.replace(/<[^>]*>/g, '').trim().normalize('NFC');
+
+    // Validate length (in characters, not UTF-16 units)
+    const textLength = [...sanitized].length;
+    if (textLength < MIN_TEXT_LENGTH) {
+      return jsonResponse(
+        {
+          error: `Text must be at least ${MIN_TEXT_LENGTH} characters`,
+          code: 'TEXT_TOO_SHORT'
+        },
+        400
+      );
+    }
+
+    if (textLength > MAX_TEXT_LENGTH) {
+      return jsonResponse(
+        {
+          error: `Text must be less than ${MAX_TEXT_LENGTH} characters`,
+          code: 'TEXT_TOO_LONG'
+        },
+        413
+      );
+    }
+
+    // Validate meaningful content (letters in any script)
+    if (countLetters(sanitized) < MIN_LETTERS) {
+      return jsonResponse(
+        {
+          error: 'Text must contain meaningful content',
+          code: 'INSUFFICIENT_CONTENT'
+        },
+        400
+      );
+    }
+
+    const { locale, language, source: localeSource } = resolveLocale(localeResult.locale, [sanitized], req);
+
+    log.info('Input validated', { characters: textLength, language, localeSource });
+
+    // Offline crisis-language screen (no user content is logged)
+    const safety = assessTexts([sanitized], locale);
+    if (safety.riskLevel !== 'none') {
+      log.warn('Safety risk detected', { riskLevel: safety.riskLevel, categories: safety.categories });
+    }
+
+    // ============================================================
+    // 2. RATE LIMITING & REPLAY
+    // ============================================================
+
+    const { data: profile, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('themes_analyzed_at, onboarding_self_reflection, themes_analysis')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      log.error('Profile fetch failed', { error: profileError });
+      return jsonResponse(
+        { error: 'Failed to fetch user profile', code: 'PROFILE_ERROR' },
+        500
+      );
+    }
+
+    if (profile?.themes_analyzed_at && profile.onboarding_self_reflection) {
+      const similarity = Number(calculateSimilarity(sanitized, profile.onboarding_self_reflection).toFixed(2));
+      const stored = profile.themes_analysis as AnalysisResponse | null;
+
+      if (similarity >= SIMILARITY_THRESHOLD) {
+        // Same reflection: the stored analysis, exactly as first returned
+        if (stored?.language === language) {
+          log.info('Replaying previous analysis', { similarity });
+          return jsonResponse(forRequest(stored, includeRunnersUp), 200, { [REPLAYED_HEADER]: 'true' });
+        }
+        log.info('Similar text, no stored analysis in this language', { similarity });
+      } else {
+        const retryAfter = secondsUntilNextAnalysis(profile.themes_analyzed_at);
+        if (retryAfter > 0) {
+          log.warn('Rate limited', { scope: 'analysis', similarity, retryAfter });
+          return errorResponse(
+            429,
+            SharedErrorCode.RATE_LIMITED,
+            `You can analyze a new reflection once every ${RATE_LIMIT_HOURS} hours`,
+            { retryAfter },
+            { 'Retry-After': String(retryAfter) }
+          );
+        }
+        log.info('Text changed significantly from previous analysis', { similarity });
+      }
+    }
+
+    // ============================================================
+    // 3. LOAD THEMES FROM DATABASE (CACHED)
+    // ============================================================
+
+    const catalog = await getThemeCatalog(supabase);
+    if (!catalog) {
+      return jsonResponse(
+        { error: 'Failed to load themes', code: 'THEMES_ERROR' },
+        500
+      );
+    }
+
+    // ============================================================
+    // 4. ANALYZE TEXT & SCORE THEMES
+    // ============================================================
+
+    const scoredThemes = scoreThemes(sanitized, catalog.themes, language);
+
+    // Sort by score descending
+    scoredThemes.sort((a, b) => b.score - a.score);
+
+    // Log top scores for debugging (no user content!)
+    log.info('Themes scored', {
+      top: scoredThemes.slice(0, 3).map(t => ({ theme: t.theme.name, score: Number(t.score.toFixed(2)), rawScore: Number(t.rawScore.toFixed(2)) }))
+    });
+
+    // ============================================================
+    // 5. DETERMINE THEME COUNT (3-6 based on quality)
+    // ============================================================
+
+    const themeCount = determineThemeCount(scoredThemes);
+    const selectedThemes = scoredThemes.slice(0, themeCount).map(st => suggestTheme(st, sanitized, language));
+    const recommendedCount = Math.max(3, themeCount - 1);
+
+    // Next-best themes for a "show more" list (always stored, so a replay
+    // can include them)
+    const runnersUp = scoredThemes
+      .slice(themeCount, themeCount + MAX_RUNNERS_UP)
+      .map(st => suggestTheme(st, sanitized, language));
+
+    log.info('Themes selected', { themeCount, recommendedCount, runnersUp: runnersUp.length });
+
+    const analyzedAt = new Date().toISOString();
+
+    const response: AnalysisResponse = {
+      themes: selectedThemes,
+      runnersUp,
+      recommendedCount,
+      analyzedAt,
+      themeCount,
+      language,
+      safety
+    };
+
+    // ============================================================
+    // 6. SAVE TO DATABASE (CRITICAL: Enables rate limiting and replay)
+    // ============================================================
+
+    // Clients can't write these columns (20261018000013): the window and
+    // the replay payload must not be resettable from the app
+    const serviceClient = createServiceClient();
+    if (!serviceClient) {
+      log.error('Analysis save skipped: SUPABASE_SERVICE_ROLE_KEY not configured');
+    } else {
+      const { error: upsertError } = await serviceClient
+        .from('user_profiles')
+        .upsert({
+          user_id: user.id,
+          onboarding_self_reflection: sanitized,
+          themes_analyzed_at: analyzedAt,
+          themes_analysis: response
+        }, {
+          onConflict: 'user_id'
+        });
+
+      if (upsertError) {
+        log.error('Analysis save failed', { error: upsertError });
+        // Don't fail the request, but log error
+      } else {
+        log.info('Analysis saved');
+      }
+    }
+
+    // ============================================================
+    // 7. RETURN RESPONSE
+    // ============================================================
+
+    // Log the response structure for debugging
+    log.debug('Sending response', {
+      themesCount: selectedThemes.length,
+      recommendedCount,
+      themeCount,
+      firstTheme: selectedThemes[0]?.name
+    });
+
+    return jsonResponse(forRequest(response, includeRunnersUp), 200);
+
+  } catch (error) {
+    // ============================================================
+    // ERROR HANDLING
+    // ============================================================
+
+    // Log full error server-side
+    log.error('Theme analysis failed', { error: describeError(error, true) });
+
+    // Generic error to client (stack traces only with DEV_MODE=true)
+    return errorResponse(
+      500,
+      'INTERNAL_ERROR',
+      'Analysis failed. Please try again.',
+      { debug: describeError(error, true) }
+    );
+  }
+});
+
+// ============================================================
+// HELPER FUNCTIONS
+// ============================================================
+
+/**
+ * Theme as returned to the client, with its score relative to the best
+ * theme, the keywords that matched and excerpts of the reflection that
+ * explain the match
+ */
+function suggestTheme(scored: ThemeScore, text: string, language: string): SuggestedTheme {
+  return {
+    ...localizeTheme(scored.theme, language),
+    relativeScore: Number(scored.score.toFixed(2)),
+    matchedKeywords: scored.matchedKeywords,
+    excerpts: buildExcerpts(text, scored.spans)
+  };
+}
+
+/**
+ * Catalog theme in the user's language: title, summary and keywords from
+ * the translation where one exists
+ */
+function localizeTheme(theme: Theme, language: string): Theme {
+  const { translations, ...base } = theme;
+  const translation = translations?.[language];
+  if (!translation) return base;
+
+  return {
+    ...base,
+    title: translation.title ?? base.title,
+    summary: translation.summary ?? base.summary,
+    keywords: translation.keywords?.length ? translation.keywords : base.keywords
+  };
+}
+
+/**
+ * Determine how many themes to return (3-6) based on match quality
+ * Scores are normalized to the best theme, so the thresholds mean the same
+ * for short and long reflections; themes without any match never add to
+ * the count
+ */
+function determineThemeCount(scoredThemes: ThemeScore[]): number {
+  const strongMatches = scoredThemes.filter(t => t.score >= STRONG_MATCH_SCORE).length;
+  const mediumMatches = scoredThemes.filter(t => t.score >= MEDIUM_MATCH_SCORE).length;
+  const matched = scoredThemes.filter(t => t.rawScore > 0).length;
+
+  let count = 3;
+
+  // 6 if: 4+ strong matches
+  if (strongMatches >= 4) count = 6;
+
+  // 5 if: 3+ strong matches OR 5+ medium matches
+  else if (strongMatches >= 3 || mediumMatches >= 5) count = 5;
+
+  // 4 if: 2+ strong matches OR 3+ medium matches
+  else if (strongMatches >= 2 || mediumMatches >= 3) count = 4;
+
+  // 3 minimum (even for weak/general input)
+  return Math.max(3, Math.min(count, matched));
+}
+
+/**
+ * Stored analysis as returned to this request: runnersUp only when asked for
+ */
+function forRequest(analysis: AnalysisResponse, includeRunnersUp: boolean): AnalysisResponse {
+  if (includeRunnersUp) return analysis;
+  const { runnersUp: _runnersUp, ...rest } = analysis;
+  return rest;
+}
+
+/**
+ * Seconds until a changed reflection may be analyzed again (0 if now)
+ */
+function secondsUntilNextAnalysis(analyzedAt: string): number {
+  const nextAt = new Date(analyzedAt).getTime() + RATE_LIMIT_HOURS * 3_600_000;
+  return Math.max(0, Math.ceil((nextAt - Date.now()) / 1000));
+}
+
+/**
+ * Calculate similarity between two texts (Jaccard index)
+ * Used for replay - similar text gets the stored analysis, changed text
+ * counts against the rate limit
+ */
+function calculateSimilarity(text1: string, text2: string): number {
+  const words1 = new Set(text1.toLowerCase().split(/\s+/));
+  const words2 = new Set(text2.toLowerCase().split(/\s+/));
+
+  const intersection = new Set([...words1].filter(w => words2.has(w)));
+  const union = new Set([...words1, ...words2]);
+
+  return intersection.size / union.size;
+}
@@ -3,35 +3,37 @@
 // TypeScript type definitions for new-user-insights edge function
 //
 
-export interface Theme {
-  id?: string;  // Optional - database UUID, not sent in response
-  name: string;
-  title: string;
-  summary: string;
-  keywords: string[];
-  emoji: string;
-  category: string;
-}
+import type { SafetyAssessment } from '../_shared/safety.ts';
+import type { Theme } from '../_shared/themes.ts';
+import type { MatchExcerpt } from '../_shared/theme-scoring.ts';
+
+// Catalog and scoring types live in _shared (also used by admin-themes)
+export type { Theme, ThemeTranslation } from '../_shared/themes.ts';
+export type { MatchExcerpt, TextSpan, ThemeScore } from '../_shared/theme-scoring.ts';
 
-export interface ThemeScore {
-  theme: Theme;
-  score: number;
-  matchedKeywords: string[];
+/**
+ * Theme as returned to the client, with why it was suggested
+ */
+export interface SuggestedTheme extends Theme {
+  relativeScore: number;      // Score relative to the best theme for this text (best = 1), not a probability
+  matchedKeywords: string[];  // Catalog keywords found in the reflection
+  excerpts: MatchExcerpt[];   // Up to 2 snippets with the matches highlighted
 }
 
 export interface AnalysisRequest {
   selfReflectionText: string;
+  locale?: string;            // BCP 47 tag (default: detected from the text)
+  includeRunnersUp?: boolean; // Also return the next-best themes
 }
 
 export interface AnalysisResponse {
-  themes: Theme[];
+  themes: SuggestedTheme[];
+  runnersUp?: SuggestedTheme[];  // Only with includeRunnersUp
   recommendedCount: number;
   analyzedAt: string;
   themeCount: number;
+  language: string;           // Base language the themes are written in
+  safety: SafetyAssessment;   // Crisis-language screen of the reflection text
 }
 
-export interface ErrorResponse {
-  error: string;
-  code?: string;
-  retryAfter?: string;
-}
+export type { ErrorResponse } from '../_shared/types.ts';
@@ -0,0 +1,235 @@
+// handler.ts
+//
+// Request handler for tagging journal entries with the themes they are
+// about (served by index.ts)
+//
+// Features:
+// - Service role only (`auth: 'service'`): called by a database webhook on
+//   entries, or by an operator for backfills
+// - Webhook: tags the inserted or edited entry; updates that leave the
+//   title and text alone (including this function's own tag writes) are
+//   skipped
+// - Backfill (`mode: 'backfill'`): tags a batch of entries whose tags are
+//   older than the catalog, oldest first; `hasMore` says to call again
+// - Same scorer and catalog cache as new-user-insights: the best themes
+//   above a score threshold, at most 3 per entry
+// - Writes are conditional on updated_at, so tags for an older version of
+//   the text never overwrite a newer one
+//
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { EntryRecord, EntryTags, EntryWebhookPayload, TagEntriesResponse } from './types.ts';
+import type { Theme } from '../_shared/themes.ts';
+import { getThemeCatalog } from '../_shared/themes.ts';
+import { scoreThemes } from '../_shared/theme-scoring.ts';
+import { createHandler, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { describeError, log } from '../_shared/logger.ts';
+import { DEFAULT_LANGUAGE, detectLanguage } from '../_shared/locale.ts';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const FUNCTION_NAME = 'tag-entries';
+const MAX_TAGS = 3;
+const DEFAULT_MIN_TAG_SCORE = 1.0;    // BM25 raw score (override: ENTRY_TAG_MIN_SCORE)
+const MIN_RELATIVE_SCORE = 0.5;       // Of the entry's best theme
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_BATCH_SIZE = 500;
+const WEBHOOK_TYPES = ['INSERT', 'UPDATE', 'DELETE'];
+const ENTRY_COLUMNS = 'id, title, text, updated_at';
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+// CORS, method, service-role check and JSON parsing: _shared/http.ts
+export const handler = createHandler({
+  name: FUNCTION_NAME,
+  auth: 'service'
+}, async ({ supabase, body }) => {
+  try {
+    // ============================================================
+    // 1. VALIDATE REQUEST
+    // ============================================================
+
+    const backfill = body.mode === 'backfill';
+    if (!backfill && !isEntriesWebhook(body)) {
+      return invalidPayload('Expected a database webhook on entries or { "mode": "backfill" }');
+    }
+
+    const { limit = DEFAULT_BATCH_SIZE } = body;
+    if (backfill && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_SIZE)) {
+      return jsonResponse(
+        { error: `limit must be an integer from 1 to ${MAX_BATCH_SIZE}`, code: 'INVALID_LIMIT' },
+        400
+      );
+    }
+
+    // ============================================================
+    // 2. LOAD THEMES (CACHED)
+    // ============================================================
+
+    const catalog = await getThemeCatalog(supabase);
+    if (!catalog) {
+      return jsonResponse(
+        { error: 'Failed to load themes', code: 'THEMES_ERROR' },
+        500
+      );
+    }
+
+    // ============================================================
+    // 3. WEBHOOK: ONE ENTRY
+    // ============================================================
+
+    if (!backfill) {
+      const { type, record, old_record: oldRecord } = body as unknown as EntryWebhookPayload;
+
+      if (type === 'DELETE') {
+        return jsonResponse(tagResponse('webhook', catalog.version, [], 1), 200);
+      }
+
+      if (!isEntryRecord(record)) {
+        return invalidPayload('record must have id, text and updated_at');
+      }
+
+      if (type === 'UPDATE' && oldRecord && !contentChanged(oldRecord, record)) {
+        log.info('Entry unchanged, skipped');
+        return jsonResponse(tagResponse('webhook', catalog.version, [], 1), 200);
+      }
+
+      const tags = selectTags(record, catalog.themes);
+      const saved = await saveTags(supabase, record, tags, catalog.version);
+      if (saved === null) return saveError();
+
+      log.info(saved ? 'Entry tagged' : 'Entry edited while tagging', { type, tags: tags.length });
+      const tagged = saved ? [{ id: record.id, tags }] : [];
+      return jsonResponse(tagResponse('webhook', catalog.version, tagged, saved ? 0 : 1), 200);
+    }
+
+    // ============================================================
+    // 4. BACKFILL: ENTRIES TAGGED WITH AN OLDER CATALOG
+    // ============================================================
+
+    // Without the version, every entry would look outdated
+    if (catalog.version === null) {
+      return jsonResponse(
+        { error: 'Theme catalog version unavailable', code: 'THEMES_ERROR' },
+        500
+      );
+    }
+
+    const { data: entries, error: entriesError } = await supabase
+      .from('entries')
+      .select(ENTRY_COLUMNS)
+      .lt('tags_catalog_version', catalog.version)
+      .order('created_at')
+      .limit(limit as number);   // Checked in step 1 for backfills
+
+    if (entriesError || !entries) {
+      log.error('Entries fetch failed', { error: entriesError });
+      return jsonResponse(
+        { error: 'Failed to fetch entries', code: 'ENTRIES_ERROR' },
+        500
+      );
+    }
+
+    const tagged: EntryTags[] = [];
+    let skipped = 0;
+    for (const entry of entries as EntryRecord[]) {
+      const tags = selectTags(entry, catalog.themes);
+      const saved = await saveTags(supabase, entry, tags, catalog.version);
+      if (saved === null) return saveError();
+      if (saved) tagged.push({ id: entry.id, tags });
+      else skipped++;
+    }
+
+    log.info('Backfill batch tagged', { version: catalog.version, tagged: tagged.length, skipped });
+
+    return jsonResponse({
+      ...tagResponse('backfill', catalog.version, tagged, skipped),
+      hasMore: entries.length === limit
+    }, 200);
+
+  } catch (error) {
+    log.error('Entry tagging failed', { error: describeError(error, true) });
+
+    return errorResponse(
+      500,
+      'INTERNAL_ERROR',
+      'Entry tagging failed. Please try again.',
+      { debug: describeError(error, true) }
+    );
+  }
+});
+
+// ============================================================
+// HELPER FUNCTIONS
+// ============================================================
+
+function isEntriesWebhook(body: Record<string, unknown>): boolean {
+  return body.table === 'entries' && WEBHOOK_TYPES.includes(body.type as string);
+}
+
+function isEntryRecord(record: unknown): record is EntryRecord {
+  const r = record as EntryRecord | null;
+  return !!r && typeof r.id === 'string' && typeof r.text === 'string' && typeof r.updated_at === 'string';
+}
+
+function contentChanged(oldRecord: EntryRecord, record: EntryRecord): boolean {
+  return oldRecord.text !== record.text || (oldRecord.title ?? null) !== (record.title ?? null);
+}
+
+/**
+ * Best-matching theme names for the entry's title and text, best first
+ * A theme needs a raw score above the threshold (one clear match in a
+ * short entry, more in a long one) and at least half the best theme's
+ */
+function selectTags(entry: EntryRecord, themes: Theme[]): string[] {
+  const text = [entry.title, entry.text].filter(Boolean).join('\n').normalize('NFC');
+  const language = detectLanguage(text) ?? DEFAULT_LANGUAGE;
+  const minScore = minTagScore();
+
+  return scoreThemes(text, themes, language)
+    .filter(t => t.rawScore >= minScore && t.score >= MIN_RELATIVE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_TAGS)
+    .map(t => t.theme.name);
+}
+
+/**
+ * Write the tags if the entry is still at the scored version
+ * true: saved; false: edited or deleted since (its own webhook re-tags
+ * it); null: the write failed
+ */
+async function saveTags(supabase: SupabaseClient, entry: EntryRecord, tags: string[], version: number | null): Promise<boolean | null> {
+  const { data, error } = await supabase
+    .from('entries')
+    .update({ tags, tags_catalog_version: version ?? 0 })
+    .eq('id', entry.id)
+    .eq('updated_at', entry.updated_at)
+    .select('id');
+
+  if (error) {
+    log.error('Tag save failed', { error });
+    return null;
+  }
+  return (data ?? []).length > 0;
+}
+
+function minTagScore(): number {
+  const value = Number(Deno.env.get('ENTRY_TAG_MIN_SCORE') ?? DEFAULT_MIN_TAG_SCORE);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MIN_TAG_SCORE;
+}
+
+function tagResponse(mode: TagEntriesResponse['mode'], catalogVersion: number | null, tagged: EntryTags[], skipped: number): TagEntriesResponse {
+  return { mode, catalogVersion, tagged, skipped };
+}
+
+function invalidPayload(message: string): Response {
+  return jsonResponse({ error: message, code: 'INVALID_PAYLOAD' }, 400);
+}
+
+function saveError(): Response {
+  return jsonResponse({ error: 'Failed to save entry tags', code: 'SAVE_ERROR' }, 500);
+}
@@ -0,0 +1,15 @@
+// index.ts
+//
+// Edge function for tagging journal entries with themes (service role only:
+// database webhook on entries, or backfill)
+//
+// The request handler lives in handler.ts so tests can call it without
+// binding a port (supabase/functions/tests).
+//
+// Deploy: supabase functions deploy tag-entries
+//
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { handler } from './handler.ts';
+
+serve(handler);
@@ -0,0 +1,77 @@
+// types.ts
+//
+// TypeScript type definitions for tag-entries edge function
+//
+
+// ============================================================
+// REQUEST TYPES
+// ============================================================
+
+/**
+ * The columns of an entries row that tagging reads
+ */
+export interface EntryRecord {
+  id: string;
+  title: string | null;
+  text: string;
+  updated_at: string;          // Version of the text the tags are for
+}
+
+/**
+ * Database webhook on entries (Supabase sends the whole row)
+ */
+export interface EntryWebhookPayload {
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  table: string;
+  schema: string;
+  record: EntryRecord | null;       // null on DELETE
+  old_record: EntryRecord | null;   // UPDATE and DELETE only
+}
+
+/**
+ * Tag a batch of entries whose tags are older than the catalog
+ */
+export interface BackfillRequest {
+  mode: 'backfill';
+  limit?: number;              // Entries per call (default 100, max 500)
+}
+
+export type TagEntriesRequest = EntryWebhookPayload | BackfillRequest;
+
+// ============================================================
+// RESPONSE TYPES
+// ============================================================
+
+export type TagMode = 'webhook' | 'backfill';
+
+export interface EntryTags {
+  id: string;
+  tags: string[];              // Best match first; may be empty
+}
+
+export interface TagEntriesResponse {
+  mode: TagMode;
+  catalogVersion: number | null;
+  tagged: EntryTags[];
+  skipped: number;             // Deleted, title and text unchanged, or edited while tagging
+  hasMore?: boolean;           // backfill: call again for the next batch
+}
+
+// ============================================================
+// ERROR TYPES
+// ============================================================
+
+export type { ErrorResponse } from '../_shared/types.ts';
+
+/**
+ * Error codes used in responses
+ * The shared pipeline adds AUTH_REQUIRED, FORBIDDEN, METHOD_NOT_ALLOWED,
+ * INVALID_JSON and PAYLOAD_TOO_LARGE (_shared/types.ts)
+ */
+export enum ErrorCode {
+  INVALID_PAYLOAD = 'INVALID_PAYLOAD',    // Neither a webhook on entries nor a backfill
+  INVALID_LIMIT = 'INVALID_LIMIT',
+  THEMES_ERROR = 'THEMES_ERROR',
+  ENTRIES_ERROR = 'ENTRIES_ERROR',
+  SAVE_ERROR = 'SAVE_ERROR'
+}
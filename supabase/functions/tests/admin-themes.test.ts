@@ -0,0 +1,198 @@
+// tests/admin-themes.test.ts
+//
+// admin-themes handler against a fake Supabase server, and the
+// new-user-insights catalog reload after an edit
+//
+// Run: deno test --allow-net --allow-env supabase/functions/tests/
+//
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handler } from '../admin-themes/handler.ts';
+import { handler as analyzeHandler } from '../new-user-insights/handler.ts';
+import type { Theme } from '../admin-themes/types.ts';
+import { SharedErrorCode } from '../_shared/types.ts';
+import { ALICE, BOB, callHandler, handlerTests, startTestEnv, theme, THEMES } from './helpers.ts';
+import type { CallOptions } from './helpers.ts';
+
+const env = startTestEnv();
+
+const NATURE = theme('nature-outdoors', 'wellness', ['nature', 'garden', 'hiking', 'outdoors']);
+
+const SERVICE: CallOptions = { token: env.supabase.serviceRoleKey };
+
+// Every test starts with the themes catalog seeded
+const { call, test, assertError } = handlerTests(env, handler, {
+  callOptions: SERVICE,
+  seed: () => { env.supabase.tables.themes = structuredClone(THEMES); }
+});
+
+function storedTheme(name: string): Theme | undefined {
+  return env.supabase.tables.themes.find(t => t.name === name) as Theme | undefined;
+}
+
+// ============================================================
+// AUTHORIZATION
+// ============================================================
+
+test('requires an authorization header', async () => {
+  await assertError(null, 401, SharedErrorCode.AUTH_REQUIRED, { method: 'GET', token: null });
+});
+
+test('rejects user tokens', async () => {
+  await assertError(null, 403, SharedErrorCode.FORBIDDEN, { method: 'GET', token: 'alice-access-token' });
+  assertEquals(env.supabase.calls, []);
+});
+
+// ============================================================
+// READ
+// ============================================================
+
+test('lists the catalog with its version', async () => {
+  const result = await call(null, { method: 'GET' });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.version, 1);
+  assertEquals(result.body.themes.map((t: Theme) => t.name), THEMES.map(t => t.name));
+});
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+test('rejects unknown actions', async () => {
+  await assertError({ action: 'rename', name: 'sleep-rest' }, 400, 'INVALID_ACTION');
+});
+
+test('reports every constraint a theme breaks', async () => {
+  const body = await assertError({
+    action: 'create',
+    theme: { ...NATURE, name: 'Nature Outdoors', summary: 'Too short', category: 'hobbies', keywords: ['Garden', 'garden'] }
+  }, 400, 'INVALID_THEME');
+
+  assertEquals(body.details, [
+    'name must be lowercase words joined by hyphens, at most 50 characters',
+    'summary must be at least 20 characters',
+    'category must be one of: wellness, emotional, growth, social',
+    'keywords[0] must be lowercase without surrounding spaces'
+  ]);
+  assertEquals(storedTheme('nature-outdoors'), undefined);
+});
+
+test('validates translations', async () => {
+  const body = await assertError({
+    action: 'create',
+    theme: { ...NATURE, translations: { 'es-MX': {}, fr: { title: '', keywords: ['Nature'] } } }
+  }, 400, 'INVALID_THEME');
+  assertEquals(body.details?.length, 3);
+});
+
+test('requires a name to update or delete', async () => {
+  await assertError({ action: 'update', theme: { emoji: '🌙' } }, 400, 'MISSING_NAME');
+  await assertError({ action: 'delete' }, 400, 'MISSING_NAME');
+});
+
+test('returns THEME_NOT_FOUND for unknown themes', async () => {
+  await assertError({ action: 'update', name: 'missing', theme: { emoji: '🌙' } }, 404, 'THEME_NOT_FOUND');
+});
+
+test('rejects duplicate names', async () => {
+  await assertError({ action: 'create', theme: THEMES[0] }, 409, 'THEME_EXISTS');
+});
+
+// ============================================================
+// DRY RUN
+// ============================================================
+
+test('dry runs preview scores without writing', async () => {
+  const result = await call({
+    action: 'create',
+    theme: { ...NATURE, keywords: [...NATURE.keywords, 'fresh air'] },
+    dryRun: true,
+    sampleText: 'Work has been hard, but hiking and my garden keep me going.'
+  });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+
+  const { dryRun, version, warnings, preview } = result.body;
+  assertEquals(dryRun, true);
+  assertEquals(version, 1);
+  assertEquals(warnings, ['keywords[4] "fresh air" never matches: the scorer matches single words']);
+  assertEquals(preview.language, 'en');
+  assertEquals(preview.current.map((t: { name: string }) => t.name), ['career-purpose']);
+  assertEquals(preview.proposed[0].name, 'nature-outdoors');
+  assertEquals(preview.proposed[0].matchedKeywords.sort(), ['garden', 'hiking']);
+
+  assertEquals(storedTheme('nature-outdoors'), undefined);
+  assert(!env.supabase.calls.includes('post:themes'));
+});
+
+// ============================================================
+// WRITES
+// ============================================================
+
+test('creates a theme and bumps the catalog version', async () => {
+  const result = await call({ action: 'create', theme: NATURE });
+  assertEquals(result.status, 201, JSON.stringify(result.body));
+  assertEquals(result.body.theme.name, 'nature-outdoors');
+  assertEquals(result.body.version, 2);
+  assertEquals(storedTheme('nature-outdoors')?.keywords, NATURE.keywords);
+});
+
+test('updates only the given fields', async () => {
+  const result = await call({ action: 'update', name: 'sleep-rest', theme: { keywords: ['sleep', 'insomnia', 'dreams'] } });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+  assertEquals(result.body.theme.title, THEMES[4].title);
+  assertEquals(storedTheme('sleep-rest')?.keywords, ['sleep', 'insomnia', 'dreams']);
+  assertEquals(result.body.version, 2);
+});
+
+test('does not rename themes', async () => {
+  const body = await assertError({ action: 'update', name: 'sleep-rest', theme: { name: 'sleep' } }, 400, 'INVALID_THEME');
+  assertEquals(body.details, ['name cannot be changed']);
+});
+
+test('keeps at least six themes', async () => {
+  await assertError({ action: 'delete', name: 'sleep-rest' }, 409, 'CATALOG_TOO_SMALL');
+
+  env.supabase.tables.themes.push(structuredClone(NATURE));
+  const result = await call({ action: 'delete', name: 'sleep-rest' });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+  assertEquals(storedTheme('sleep-rest'), undefined);
+});
+
+test('does not delete themes selected in user profiles', async () => {
+  env.supabase.tables.themes.push(structuredClone(NATURE));
+  env.supabase.tables.user_profiles = [
+    { user_id: ALICE.id, identified_themes: ['anxiety-worry', 'sleep-rest', 'stress-energy'], theme_selection_count: 3 }
+  ];
+
+  await assertError({ action: 'delete', name: 'sleep-rest' }, 409, 'THEME_IN_USE');
+  await assertError({ action: 'delete', name: 'sleep-rest', dryRun: true }, 409, 'THEME_IN_USE');
+  assert(storedTheme('sleep-rest'));
+
+  const result = await call({ action: 'delete', name: 'habits-routine' });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+});
+
+// ============================================================
+// CACHE INVALIDATION
+// ============================================================
+
+test('new-user-insights picks up catalog edits', async () => {
+  Deno.env.set('THEMES_VERSION_CHECK_SECONDS', '0');
+  try {
+    const reflection = 'Work has been hard lately, but hiking and my garden keep me going.';
+    // One user per analysis: the same reflection would replay the first
+    const analyze = (token: string) => callHandler(analyzeHandler, { selfReflectionText: reflection }, { token });
+
+    const before = await analyze(ALICE.token);
+    assertEquals(before.status, 200, JSON.stringify(before.body));
+    assert(!before.body.themes.some((t: Theme) => t.name === 'nature-outdoors'));
+
+    assertEquals((await call({ action: 'create', theme: NATURE })).status, 201);
+
+    const after = await analyze(BOB.token);
+    assertEquals(after.status, 200);
+    assertEquals(after.body.themes[0].name, 'nature-outdoors');
+  } finally {
+    Deno.env.delete('THEMES_VERSION_CHECK_SECONDS');
+  }
+});
@@ -0,0 +1,136 @@
+// tests/confirm-themes.test.ts
+//
+// confirm-themes handler against a fake Supabase server
+//
+// Run: deno test --allow-net --allow-env supabase/functions/tests/
+//
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handler } from '../confirm-themes/handler.ts';
+import { SharedErrorCode } from '../_shared/types.ts';
+import { ALICE, BOB, handlerTests, patchAsUser, startTestEnv } from './helpers.ts';
+
+const env = startTestEnv();
+
+const ANALYZED_AT = '2026-10-18T09:30:00.000Z';
+
+const SUGGESTED = ['anxiety-worry', 'career-purpose', 'sleep-rest', 'stress-energy', 'habits-routine'];
+const RUNNERS_UP = ['relationships-connection', 'self-compassion'];
+
+// Every test starts with ALICE's stored analysis (5 themes,
+// recommendedCount 4: 3-5 can be selected)
+const { call, test, assertError } = handlerTests(env, handler, {
+  callOptions: { token: ALICE.token },
+  seed: () => {
+    env.supabase.tables.user_profiles = [{
+      user_id: ALICE.id,
+      // Postgres' spelling of ANALYZED_AT
+      themes_analyzed_at: '2026-10-18 09:30:00+00',
+      themes_analysis: {
+        themes: SUGGESTED.map(name => ({ name })),
+        runnersUp: RUNNERS_UP.map(name => ({ name })),
+        recommendedCount: 4,
+        analyzedAt: ANALYZED_AT,
+        themeCount: SUGGESTED.length,
+        language: 'en'
+      }
+    }];
+  }
+});
+
+function aliceProfile() {
+  return env.supabase.tables.user_profiles.find(p => p.user_id === ALICE.id)!;
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+test('requires authentication', async () => {
+  await assertError({ themes: SUGGESTED, analyzedAt: ANALYZED_AT }, 401, SharedErrorCode.AUTH_REQUIRED, { token: null });
+});
+
+test('rejects malformed selections', async () => {
+  await assertError({ analyzedAt: ANALYZED_AT }, 400, 'INVALID_THEMES');
+  await assertError({ themes: [], analyzedAt: ANALYZED_AT }, 400, 'INVALID_THEMES');
+  await assertError({ themes: ['sleep-rest', 7], analyzedAt: ANALYZED_AT }, 400, 'INVALID_THEMES');
+  await assertError({ themes: ['sleep-rest', 'sleep-rest', 'stress-energy'], analyzedAt: ANALYZED_AT }, 400, 'INVALID_THEMES');
+  await assertError({ themes: SUGGESTED.slice(0, 4), analyzedAt: 'yesterday' }, 400, 'INVALID_ANALYZED_AT');
+});
+
+test('lists the themes that were not suggested', async () => {
+  const body = await assertError(
+    { themes: ['anxiety-worry', 'gratitude-joy', 'sleep-rest', 'grief-loss'], analyzedAt: ANALYZED_AT },
+    400,
+    'THEMES_NOT_SUGGESTED'
+  );
+  assertEquals(body.details, ['gratitude-joy', 'grief-loss']);
+  assertEquals(aliceProfile().identified_themes, undefined);
+});
+
+test('keeps the count within one of recommendedCount', async () => {
+  await assertError({ themes: SUGGESTED.slice(0, 2), analyzedAt: ANALYZED_AT }, 400, 'INVALID_THEME_COUNT');
+  await assertError({ themes: [...SUGGESTED, RUNNERS_UP[0]], analyzedAt: ANALYZED_AT }, 400, 'INVALID_THEME_COUNT');
+  assertEquals(env.supabase.calls.includes('rpc:confirm_theme_selection'), false);
+});
+
+// ============================================================
+// ANALYSIS STATE
+// ============================================================
+
+test('requires an analysis', async () => {
+  await assertError({ themes: SUGGESTED.slice(0, 4), analyzedAt: ANALYZED_AT }, 409, 'NO_ANALYSIS', { token: BOB.token });
+});
+
+test('rejects selections from a replaced analysis', async () => {
+  await assertError({ themes: SUGGESTED.slice(0, 4), analyzedAt: '2026-10-17T09:30:00.000Z' }, 409, 'STALE_ANALYSIS');
+});
+
+test('reports an analysis replaced during the save', async () => {
+  env.supabase.rpcs.confirm_theme_selection = () => ({
+    data: [{ state: 'stale', identified_themes: null, theme_selection_count: null, themes_confirmed_at: null }]
+  });
+  await assertError({ themes: SUGGESTED.slice(0, 4), analyzedAt: ANALYZED_AT }, 409, 'STALE_ANALYSIS');
+});
+
+test('reports a count that no longer fits during the save', async () => {
+  env.supabase.rpcs.confirm_theme_selection = () => ({
+    data: [{ state: 'invalid_count', identified_themes: null, theme_selection_count: null, themes_confirmed_at: null }]
+  });
+  const body = await assertError({ themes: SUGGESTED.slice(0, 4), analyzedAt: ANALYZED_AT }, 400, 'INVALID_THEME_COUNT');
+  assertEquals(body.error, 'Select between 3 and 5 themes');
+  assertEquals(aliceProfile().identified_themes, undefined);
+});
+
+test('returns SAVE_ERROR when the save fails', async () => {
+  env.supabase.rpcs.confirm_theme_selection = () => ({ error: { message: 'check_themes_count', code: '23514' } });
+  await assertError({ themes: SUGGESTED.slice(0, 4), analyzedAt: ANALYZED_AT }, 500, 'SAVE_ERROR');
+});
+
+// ============================================================
+// CONFIRM
+// ============================================================
+
+test('the selection can only be written through confirm-themes', async () => {
+  const status = await patchAsUser(ALICE, 'user_profiles', { user_id: ALICE.id }, {
+    identified_themes: RUNNERS_UP,
+    theme_selection_count: RUNNERS_UP.length
+  });
+  assertEquals(status, 403);
+  assertEquals(aliceProfile().identified_themes, undefined);
+});
+
+test('saves a selection that includes runners-up', async () => {
+  const themes = ['sleep-rest', 'relationships-connection', 'anxiety-worry'];
+  const result = await call({ themes, analyzedAt: ANALYZED_AT });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+  assertEquals(result.body.themes, themes);
+  assertEquals(result.body.selectionCount, 3);
+  assertEquals(result.body.recommendedCount, 4);
+  assertEquals(typeof result.body.confirmedAt, 'string');
+
+  const profile = aliceProfile();
+  assertEquals(profile.identified_themes, themes);
+  assertEquals(profile.theme_selection_count, 3);
+  assertEquals(profile.themes_confirmed_at, result.body.confirmedAt);
+});
@@ -0,0 +1,115 @@
+// tests/fakes/openai.ts
+//
+// Stand-in for the OpenAI chat completions API
+//
+// Serves POST /v1/chat/completions on a random local port. By default it
+// answers like a well-behaved model: a valid insight for the entries in the
+// prompt, built by the same fixture builders as LLM_PROVIDER=fixture. Tests
+// swap `respond` to return invalid JSON or upstream errors.
+//
+
+import { fixtureResponders } from '../../generate-insights/fixtures.ts';
+import type { ChatMessage } from '../../generate-insights/providers.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ChatCompletionBody {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: string };
+}
+
+/**
+ * Model output for a request, or an upstream error
+ */
+export type FakeReply = { content: string } | { status: number; error: string };
+
+export interface FakeOpenAI {
+  baseUrl: string;            // For LLM_BASE_URL (ends in /v1)
+  requests: ChatCompletionBody[];
+  respond: (body: ChatCompletionBody) => FakeReply;
+  reset(): void;              // Default replies, no recorded requests
+  close(): Promise<void>;
+}
+
+export const FAKE_MODEL = 'fake-gpt';
+
+// ============================================================
+// SERVER
+// ============================================================
+
+export function startFakeOpenAI(): FakeOpenAI {
+  const fake: FakeOpenAI = {
+    baseUrl: '',
+    requests: [],
+    respond: fixtureReply,
+    reset() {
+      fake.requests = [];
+      fake.respond = fixtureReply;
+    },
+    close: () => server.shutdown()
+  };
+
+  const server = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen() {} }, async (req) => {
+    const url = new URL(req.url);
+    if (req.method !== 'POST' || url.pathname !== '/v1/chat/completions') {
+      return Response.json({ error: { message: 'Not found' } }, { status: 404 });
+    }
+
+    const body = await req.json() as ChatCompletionBody;
+    fake.requests.push(body);
+
+    const reply = fake.respond(body);
+    if ('status' in reply) {
+      return Response.json({ error: { message: reply.error, type: 'fake_error' } }, { status: reply.status });
+    }
+
+    const promptTokens = Math.ceil(body.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const completionTokens = Math.ceil(reply.content.length / 4);
+
+    return Response.json({
+      id: `chatcmpl-${crypto.randomUUID()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: body.model ?? FAKE_MODEL,
+      choices: [{ index: 0, message: { role: 'assistant', content: reply.content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+    });
+  });
+
+  fake.baseUrl = `http://127.0.0.1:${server.addr.port}/v1`;
+  return fake;
+}
+
+// ============================================================
+// DEFAULT REPLY
+// ============================================================
+
+/**
+ * Valid output for the prompt; the insight type is read from the JSON
+ * structure the prompt asks for. Repair requests are answered from the
+ * original prompt, which carries the entries
+ */
+export function fixtureReply(body: ChatCompletionBody): FakeReply {
+  const firstUser = body.messages.findIndex(m => m.role === 'user');
+  const messages = body.messages.slice(0, firstUser + 1);
+  const prompt = messages[firstUser]?.content ?? '';
+  const purpose = prompt.includes('"moments"') ? 'chunk_digest'
+    : prompt.includes('"intention"') ? 'weekly_recap'
+    : prompt.includes('"shift"') ? 'monthly_insights'
+    : 'insights';
+
+  return {
+    content: fixtureResponders[purpose]({
+      purpose,
+      messages,
+      temperature: body.temperature ?? 0,
+      maxTokens: body.max_tokens ?? 0,
+      jsonMode: body.response_format?.type === 'json_object'
+    })
+  };
+}
@@ -0,0 +1,473 @@
+// tests/fakes/supabase.ts
+//
+// In-memory stand-in for the Supabase endpoints the functions call
+//
+// Serves on a random local port:
+// - GET  /auth/v1/user            Users by access token (auth.getUser)
+// - POST /rest/v1/rpc/<name>      RPCs from `rpcs`; defaults model the
+//                                 migrations closely enough for the handlers
+// - GET  /rest/v1/<table>         eq./lt./gte./in./cs. filters, order, limit,
+//                                 single/maybeSingle
+// - POST /rest/v1/<table>         Insert or upsert (on_conflict, merge or
+//                                 ignore duplicates)
+// - PATCH / DELETE /rest/v1/<table>  Update or delete the filtered rows
+//
+// Writes to `themes` bump theme_catalog_state like the trigger in
+// 20261018000012_theme_catalog_versions.sql. Writes with a user token to a
+// `readOnlyColumns` column fail with 42501, like the column grants in
+// 20261018000013/14; the service-role key writes anything.
+//
+// Tests seed `tables`, override single RPCs to inject failures, and inspect
+// `calls` to see which RPCs a request made.
+//
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface FakeUser {
+  id: string;
+  email: string;
+  token: string;             // Access token the test sends as Bearer
+}
+
+// deno-lint-ignore no-explicit-any -- rows hold whatever columns a test seeds
+export type Row = Record<string, any>;
+
+/**
+ * Result of an RPC: data, or a PostgREST error
+ */
+export type RpcResult = { data: unknown } | { error: { message: string; code?: string }; status?: number };
+
+export type RpcHandler = (params: Row, user: FakeUser | null) => RpcResult;
+
+export interface FakeSupabase {
+  url: string;
+  anonKey: string;
+  serviceRoleKey: string;
+  users: FakeUser[];
+  tables: Record<string, Row[]>;
+  rpcs: Record<string, RpcHandler>;
+  calls: string[];           // 'rpc:<name>' / '<method>:<table>', in order
+  failTables: Set<string>;   // Tables that answer with a 500
+  readOnlyColumns: Record<string, string[]>;   // Per table: not writable with a user token
+  reset(): void;             // Clear data and overrides, keep users
+  close(): Promise<void>;
+}
+
+// ============================================================
+// SERVER
+// ============================================================
+
+export function startFakeSupabase(users: FakeUser[]): FakeSupabase {
+  const fake: FakeSupabase = {
+    url: '',
+    anonKey: 'fake-anon-key',
+    serviceRoleKey: 'fake-service-role-key',
+    users,
+    tables: {},
+    rpcs: {},
+    calls: [],
+    failTables: new Set(),
+    readOnlyColumns: {},
+    reset() {
+      fake.tables = {};
+      fake.rpcs = defaultRpcs(fake);
+      fake.calls = [];
+      fake.failTables = new Set();
+      fake.readOnlyColumns = defaultReadOnlyColumns();
+    },
+    close: () => server.shutdown()
+  };
+  fake.reset();
+
+  const server = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen() {} }, async (req) => {
+    const url = new URL(req.url);
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const user = users.find(u => u.token === token) ?? null;
+
+    if (url.pathname === '/auth/v1/user') {
+      if (!user) {
+        return json({ code: 401, error_code: 'bad_jwt', msg: 'invalid JWT' }, 401);
+      }
+      return json({
+        id: user.id,
+        aud: 'authenticated',
+        role: 'authenticated',
+        email: user.email,
+        app_metadata: {},
+        user_metadata: {},
+        created_at: '2026-01-01T00:00:00Z'
+      }, 200);
+    }
+
+    const rpc = url.pathname.match(/^\/rest\/v1\/rpc\/([\w-]+)$/);
+    if (rpc) {
+      const name = rpc[1];
+      fake.calls.push(`rpc:${name}`);
+      const handler = fake.rpcs[name];
+      if (!handler) {
+        return json({ code: 'PGRST202', message: `Could not find the function public.${name}` }, 404);
+      }
+      const result = handler(await req.json().catch(() => ({})), user);
+      return 'error' in result
+        ? json(result.error, result.status ?? 400)
+        : json(result.data ?? null, 200);
+    }
+
+    const table = url.pathname.match(/^\/rest\/v1\/([\w-]+)$/);
+    if (table) {
+      const name = table[1];
+      fake.calls.push(`${req.method.toLowerCase()}:${name}`);
+      if (fake.failTables.has(name)) {
+        return json({ code: 'XX000', message: `${name} is unavailable` }, 500);
+      }
+      if (req.method === 'GET') return selectRows(fake, name, url, req);
+      if (token !== fake.serviceRoleKey && req.method !== 'DELETE') {
+        const denied = await deniedColumns(fake, name, req.clone());
+        if (denied.length > 0) {
+          return json({ code: '42501', message: `permission denied for table ${name}` }, 403);
+        }
+      }
+      if (name === 'themes') bumpCatalogVersion(fake);
+      if (req.method === 'PATCH') return updateRows(fake, name, url, req);
+      if (req.method === 'DELETE') return deleteRows(fake, name, url, req);
+      return writeRows(fake, name, url, req);
+    }
+
+    return json({ message: 'Not found' }, 404);
+  });
+
+  fake.url = `http://127.0.0.1:${server.addr.port}`;
+  return fake;
+}
+
+// ============================================================
+// REST
+// ============================================================
+
+function selectRows(fake: FakeSupabase, table: string, url: URL, req: Request): Response {
+  let rows = (fake.tables[table] ?? []).filter(row => matchesFilters(row, url.searchParams));
+
+  const order = url.searchParams.get('order');
+  if (order) {
+    const [column, direction = 'asc'] = order.split('.');
+    rows = [...rows].sort((a, b) =>
+      String(a[column]).localeCompare(String(b[column])) * (direction === 'desc' ? -1 : 1));
+  }
+
+  const limit = url.searchParams.get('limit');
+  if (limit) rows = rows.slice(0, Number(limit));
+
+  const columns = (url.searchParams.get('select') ?? '*').split(',').map(c => c.trim());
+  const projected = columns.includes('*')
+    ? rows
+    : rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null])));
+
+  // .single() asks for one object; .maybeSingle() on GET reads an array
+  if (req.headers.get('Accept')?.includes('application/vnd.pgrst.object+json')) {
+    if (projected.length !== 1) {
+      return json({ code: 'PGRST116', message: `JSON object requested, ${projected.length} rows returned` }, 406);
+    }
+    return json(projected[0], 200);
+  }
+  return json(projected, 200);
+}
+
+async function writeRows(fake: FakeSupabase, table: string, url: URL, req: Request): Promise<Response> {
+  const body = await req.json();
+  const incoming: Row[] = Array.isArray(body) ? body : [body];
+  const rows = fake.tables[table] ??= [];
+  const prefer = req.headers.get('Prefer') ?? '';
+  const conflict = url.searchParams.get('on_conflict')?.split(',');
+
+  for (const row of incoming) {
+    const existing = conflict
+      ? rows.find(r => conflict.every(column => r[column] === row[column]))
+      : undefined;
+    if (existing && prefer.includes('resolution=merge-duplicates')) {
+      Object.assign(existing, row);
+    } else if (!existing || !prefer.includes('resolution=ignore-duplicates')) {
+      rows.push({ ...row });
+    }
+  }
+
+  return prefer.includes('return=representation')
+    ? json(incoming, 201)
+    : new Response(null, { status: 201 });
+}
+
+async function updateRows(fake: FakeSupabase, table: string, url: URL, req: Request): Promise<Response> {
+  const changes = await req.json();
+  const updated = (fake.tables[table] ?? []).filter(row => matchesFilters(row, url.searchParams));
+  for (const row of updated) Object.assign(row, changes);
+  return written(req, updated);
+}
+
+function deleteRows(fake: FakeSupabase, table: string, url: URL, req: Request): Response {
+  const rows = fake.tables[table] ?? [];
+  const deleted = rows.filter(row => matchesFilters(row, url.searchParams));
+  fake.tables[table] = rows.filter(row => !deleted.includes(row));
+  return written(req, deleted);
+}
+
+function written(req: Request, rows: Row[]): Response {
+  return (req.headers.get('Prefer') ?? '').includes('return=representation')
+    ? json(rows, 200)
+    : new Response(null, { status: 204 });
+}
+
+/**
+ * Columns of the write body a user token may not write
+ */
+async function deniedColumns(fake: FakeSupabase, table: string, req: Request): Promise<string[]> {
+  const readOnly = fake.readOnlyColumns[table] ?? [];
+  if (readOnly.length === 0) return [];
+  const body = await req.json().catch(() => ({}));
+  const rows: Row[] = Array.isArray(body) ? body : [body];
+  return readOnly.filter(column => rows.some(row => column in row));
+}
+
+/**
+ * Columns the migrations keep from clients
+ */
+function defaultReadOnlyColumns(): Record<string, string[]> {
+  return {
+    user_profiles: [
+      'onboarding_self_reflection', 'themes_analyzed_at', 'themes_analysis',
+      'identified_themes', 'theme_selection_count', 'themes_confirmed_at'
+    ]
+  };
+}
+
+function bumpCatalogVersion(fake: FakeSupabase): void {
+  const state = fake.tables.theme_catalog_state ??= [];
+  if (state.length === 0) state.push({ id: true, version: 1 });
+  state[0].version++;
+}
+
+/**
+ * PostgREST filters used by the functions: col=eq.value, col=lt.value,
+ * col=gte.value, col=in.(a,b), col=cs.{a,b} (array contains)
+ */
+function matchesFilters(row: Row, params: URLSearchParams): boolean {
+  for (const [column, filter] of params) {
+    if (['select', 'order', 'limit', 'offset', 'on_conflict', 'columns'].includes(column)) continue;
+
+    if (filter.startsWith('eq.')) {
+      if (String(row[column]) !== filter.slice(3)) return false;
+    } else if (filter.startsWith('lt.')) {
+      if (!(compare(row[column], filter.slice(3)) < 0)) return false;
+    } else if (filter.startsWith('gte.')) {
+      if (!(compare(row[column], filter.slice(4)) >= 0)) return false;
+    } else if (filter.startsWith('in.(')) {
+      const values = filter.slice(4, -1).split(',').map(v => v.replace(/^"|"$/g, ''));
+      if (!values.includes(String(row[column]))) return false;
+    } else if (filter.startsWith('cs.{')) {
+      const values = filter.slice(4, -1).split(',').map(v => v.replace(/^"|"$/g, ''));
+      if (!values.every(value => (row[column] ?? []).includes(value))) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Numbers compare as numbers, anything else (ISO timestamps) as strings
+ */
+function compare(value: unknown, filter: string): number {
+  if (typeof value === 'number') return value - Number(filter);
+  return String(value).localeCompare(filter);
+}
+
+// ============================================================
+// DEFAULT RPCS
+// ============================================================
+
+/**
+ * RPCs behind generate-insights, the themes catalog and the shared rate
+ * limiter and confirm-themes, backed by fake.tables (journal_entries,
+ * user_insights, insight_generation_flights, insight_idempotency_keys,
+ * insight_usage_log, theme_catalog_state, user_profiles)
+ */
+function defaultRpcs(fake: FakeSupabase): Record<string, RpcHandler> {
+  const table = (name: string): Row[] => fake.tables[name] ??= [];
+
+  return {
+    get_theme_catalog_version: () => ({ data: table('theme_catalog_state')[0]?.version ?? 1 }),
+
+    confirm_theme_selection: (p, user) => {
+      if (p.p_user_id !== user?.id) {
+        return { error: { message: 'Cannot confirm themes for another user', code: 'P0001' } };
+      }
+      const profile = table('user_profiles').find(r => r.user_id === p.p_user_id);
+      const none = { identified_themes: null, theme_selection_count: null, themes_confirmed_at: null };
+      if (!profile?.themes_analysis) return { data: [{ state: 'no_analysis', ...none }] };
+      if (profile.themes_analyzed_at !== p.p_analyzed_at) return { data: [{ state: 'stale', ...none }] };
+
+      const { themes = [], runnersUp = [] } = profile.themes_analysis;
+      const suggested = [...themes, ...runnersUp].map((t: Row) => t.name);
+      if (!p.p_themes.every((name: string) => suggested.includes(name))) {
+        return { data: [{ state: 'not_suggested', ...none }] };
+      }
+      const recommended = profile.themes_analysis.recommendedCount;
+      const count = p.p_themes.length;
+      if (count < Math.max(3, recommended - 1) || count > Math.min(6, recommended + 1)) {
+        return { data: [{ state: 'invalid_count', ...none }] };
+      }
+
+      Object.assign(profile, {
+        identified_themes: p.p_themes,
+        theme_selection_count: p.p_themes.length,
+        themes_confirmed_at: new Date().toISOString()
+      });
+      return {
+        data: [{
+          state: 'confirmed',
+          identified_themes: profile.identified_themes,
+          theme_selection_count: profile.theme_selection_count,
+          themes_confirmed_at: profile.themes_confirmed_at
+        }]
+      };
+    },
+
+    consume_rate_limit: () => ({ data: [{ allowed: true, remaining: 99, retry_after_seconds: 0 }] }),
+
+    get_entries_by_date_range: (p) => ({
+      data: table('journal_entries')
+        .filter(e => e.user_id === p.p_user_id && !e.is_archived)
+        .filter(e => p.p_start_date === '-infinity' || e.created_at >= p.p_start_date)
+        .filter(e => p.p_end_date === 'infinity' || e.created_at < p.p_end_date)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, p.p_limit)
+    }),
+
+    get_cached_insight: (p) => ({
+      data: table('user_insights')
+        .filter(i =>
+          i.user_id === p.p_user_id &&
+          i.insight_type === p.p_insight_type &&
+          i.date_range_start === p.p_date_start &&
+          i.date_range_end === p.p_date_end &&
+          (p.p_entries_hash === null || i.entries_snapshot?.hash === p.p_entries_hash) &&
+          i.expires_at > new Date().toISOString())
+        .sort((a, b) => b.generated_at.localeCompare(a.generated_at))
+        .slice(0, 1)
+    }),
+
+    save_insight_cache: (p) => {
+      const now = new Date();
+      const id = crypto.randomUUID();
+      table('user_insights').push({
+        id,
+        user_id: p.p_user_id,
+        insight_type: p.p_insight_type,
+        content: p.p_content,
+        entries_analyzed_count: p.p_entries_count,
+        date_range_start: p.p_date_start,
+        date_range_end: p.p_date_end,
+        entries_snapshot: p.p_entries_snapshot,
+        generated_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + p.p_ttl_hours * 3_600_000).toISOString(),
+        prompt_version: p.p_prompt_version
+      });
+      table('insight_usage_log').push({
+        user_id: p.p_user_id,
+        prompt_tokens: p.p_prompt_tokens,
+        completion_tokens: p.p_completion_tokens
+      });
+      return { data: id };
+    },
+
+    log_insight_generation_failure: (p) => {
+      table('insight_usage_log').push({
+        user_id: p.p_user_id,
+        prompt_tokens: p.p_prompt_tokens,
+        completion_tokens: p.p_completion_tokens,
+        failed: true
+      });
+      return { data: null };
+    },
+
+    get_insight_usage_summary: (p) => {
+      const rows = table('insight_usage_log').filter(r => r.user_id === p.p_user_id);
+      const promptTokens = rows.reduce((sum, r) => sum + r.prompt_tokens, 0);
+      const completionTokens = rows.reduce((sum, r) => sum + r.completion_tokens, 0);
+      return {
+        data: [{
+          generations: rows.length,
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+          period_start: new Date().toISOString().slice(0, 8) + '01'
+        }]
+      };
+    },
+
+    try_acquire_insight_refresh_lock: () => ({ data: crypto.randomUUID() }),
+    release_insight_refresh_lock: () => ({ data: null }),
+
+    get_insight_idempotency_key: (p) => ({
+      data: table('insight_idempotency_keys')
+        .filter(k => k.user_id === p.p_user_id && k.idempotency_key === p.p_idempotency_key)
+    }),
+
+    begin_insight_generation: (p) => {
+      const keys = table('insight_idempotency_keys');
+      const flights = table('insight_generation_flights');
+      const key = p.p_idempotency_key
+        ? keys.find(k => k.user_id === p.p_user_id && k.idempotency_key === p.p_idempotency_key)
+        : undefined;
+
+      if (key && key.fingerprint !== p.p_fingerprint) {
+        return { data: [{ state: 'key_conflict' }] };
+      }
+      if (key?.response) {
+        return { data: [{ state: 'replay', response: key.response, response_status: key.response_status }] };
+      }
+
+      const flight = flights.find(f => f.user_id === p.p_user_id && f.fingerprint === p.p_fingerprint);
+      if (flight?.status === 'in_progress') {
+        return { data: [{ state: 'wait' }] };
+      }
+      if (flight?.status === 'completed') {
+        return { data: [{ state: 'shared', response: flight.response, response_status: flight.response_status }] };
+      }
+
+      const lockId = crypto.randomUUID();
+      flights.push({ user_id: p.p_user_id, fingerprint: p.p_fingerprint, lock_id: lockId, status: 'in_progress' });
+      if (p.p_idempotency_key && !key) {
+        keys.push({ user_id: p.p_user_id, idempotency_key: p.p_idempotency_key, fingerprint: p.p_fingerprint, response: null });
+      }
+      return { data: [{ state: 'acquired', lock_id: lockId }] };
+    },
+
+    complete_insight_generation: (p) => {
+      const flight = table('insight_generation_flights')
+        .find(f => f.user_id === p.p_user_id && f.fingerprint === p.p_fingerprint && f.lock_id === p.p_lock_id);
+      if (flight) {
+        Object.assign(flight, { status: 'completed', response: p.p_response, response_status: p.p_response_status });
+      }
+      for (const key of table('insight_idempotency_keys')) {
+        if (key.user_id === p.p_user_id && key.fingerprint === p.p_fingerprint && !key.response) {
+          Object.assign(key, { response: p.p_response, response_status: p.p_response_status });
+        }
+      }
+      return { data: !!flight };
+    },
+
+    abort_insight_generation: (p) => {
+      fake.tables.insight_generation_flights = table('insight_generation_flights')
+        .filter(f => !(f.user_id === p.p_user_id && f.fingerprint === p.p_fingerprint && f.lock_id === p.p_lock_id));
+      fake.tables.insight_idempotency_keys = table('insight_idempotency_keys')
+        .filter(k => !(k.user_id === p.p_user_id && k.fingerprint === p.p_fingerprint && !k.response));
+      return { data: null };
+    }
+  };
+}
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
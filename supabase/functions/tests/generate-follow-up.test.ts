@@ -0,0 +1,85 @@
+// tests/generate-follow-up.test.ts
+//
+// generate-follow-up handler against a fake Supabase server
+//
+// Run: deno test --allow-net --allow-env supabase/functions/tests/
+//
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handler } from '../generate-follow-up/handler.ts';
+import { questionBank } from '../generate-follow-up/question-bank.ts';
+import { ALICE, handlerTests, startTestEnv } from './helpers.ts';
+
+const env = startTestEnv();
+
+// Every test starts with a few recent entries
+const { call, test } = handlerTests(env, handler, {
+  callOptions: { token: ALICE.token },
+  seed: () => {
+    const recent = (daysAgo: number) => new Date(Date.now() - daysAgo * 86_400_000).toISOString();
+    env.supabase.tables.entries = [
+      { user_id: ALICE.id, title: 'Deadlines', text: 'So much stress and pressure at work, I feel overwhelmed and exhausted.', created_at: recent(1) },
+      { user_id: ALICE.id, title: null, text: 'Tired and drained again, no energy for anything after work.', created_at: recent(3) },
+      { user_id: ALICE.id, title: 'Sunday', text: 'Slept badly, my routine is a mess and I feel anxious.', created_at: recent(5) }
+    ];
+    env.supabase.tables.follow_up_questions = [];
+  }
+});
+
+function storedQuestions(): string[] {
+  return env.supabase.tables.follow_up_questions.map(q => q.question_text);
+}
+
+test('accepts an empty body', async () => {
+  const result = await call(null, { rawBody: '' });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+  assertEquals(result.body.questions.length, 5);
+  assertEquals(result.body.metadata.reused, false);
+  assertEquals(storedQuestions().length, 5);
+});
+
+test('returns the stored set for the rest of the week', async () => {
+  const first = await call({ count: 3 });
+  assertEquals(first.status, 200);
+
+  const second = await call({ count: 3 });
+  assertEquals(second.status, 200);
+  assertEquals(second.body.metadata.reused, true);
+  assertEquals(second.body.questions, first.body.questions);
+  assertEquals(storedQuestions().length, 3);
+});
+
+test('skips questions from earlier weeks', async () => {
+  const first = await call({ count: 3, saveToDatabase: false });
+  const earlier = first.body.questions[0].text;
+  env.supabase.tables.follow_up_questions.push({
+    user_id: ALICE.id,
+    question_text: earlier,
+    relevance_score: 0.5,
+    generated_at: '2026-01-05T09:00:00.000Z',
+    week_number: 2,
+    year: 2026
+  });
+
+  const result = await call({ count: 3 });
+  assertEquals(result.body.metadata.reused, false);
+  assert(!result.body.questions.some((q: { text: string }) => q.text === earlier));
+});
+
+test('stores one set for concurrent requests', async () => {
+  const results = await Promise.all([call({ count: 4 }), call({ count: 4 })]);
+  for (const result of results) assertEquals(result.status, 200, JSON.stringify(result.body));
+
+  const stored = storedQuestions();
+  assertEquals(stored.length, 4);
+  assertEquals(new Set(stored).size, 4);
+  assert(stored.every(text => questionBank.some(q => q.text === text)));
+});
+
+test('returns no questions without recent entries', async () => {
+  env.supabase.tables.entries = [];
+  const result = await call({});
+  assertEquals(result.status, 200);
+  assertEquals(result.body.questions, []);
+  assertEquals(result.body.metadata.savedToDatabase, false);
+});
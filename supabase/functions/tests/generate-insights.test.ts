@@ -0,0 +1,430 @@
+// tests/generate-insights.test.ts
+//
+// generate-insights handler against fake Supabase and OpenAI servers
+//
+// Run: deno test --allow-net --allow-env supabase/functions/tests/
+//
+
+import { assert, assertEquals, assertExists } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handler } from '../generate-insights/handler.ts';
+import { ErrorCode } from '../generate-insights/types.ts';
+import type { JournalEntry } from '../generate-insights/types.ts';
+import { SharedErrorCode } from '../_shared/types.ts';
+import { ALICE, BOB, handlerTests, startTestEnv } from './helpers.ts';
+
+const env = startTestEnv();
+
+function entry(day: number, mood: string, content: string, title = `Day ${day}`): JournalEntry {
+  return {
+    id: `entry-${day}`,
+    date: `2026-10-${String(day).padStart(2, '0')}T09:00:00Z`,
+    title,
+    content,
+    word_count: content.split(/\s+/).length,
+    mood
+  };
+}
+
+const ENTRIES: JournalEntry[] = [
+  entry(5, 'anxious', 'I felt anxious about the deadline at work and barely slept.', 'Deadline'),
+  entry(6, 'calm', 'A long walk by the river helped me slow down and breathe.', 'River walk'),
+  entry(7, 'anxious', 'The meeting went fine, but I kept worrying about it all evening.', 'Meeting')
+];
+
+// Every test starts from empty fakes
+const { call, test, assertError } = handlerTests(env, handler);
+
+// ============================================================
+// PIPELINE
+// ============================================================
+
+test('preflight answers with CORS headers and a request id', async () => {
+  const result = await call(null, { method: 'OPTIONS', token: null });
+  assertEquals(result.status, 200);
+  assertExists(result.headers.get('Access-Control-Allow-Methods'));
+  assertExists(result.headers.get('X-Request-Id'));
+});
+
+test('rejects methods other than POST', async () => {
+  const result = await call(null, { method: 'GET' });
+  assertEquals(result.status, 405);
+  assertEquals(result.body.code, SharedErrorCode.METHOD_NOT_ALLOWED);
+  assertEquals(result.headers.get('Allow'), 'POST, OPTIONS');
+});
+
+test('rejects disallowed browser origins', async () => {
+  Deno.env.set('ALLOWED_ORIGINS', 'https://app.example.com');
+  try {
+    await assertError({ entries: ENTRIES }, 403, SharedErrorCode.ORIGIN_NOT_ALLOWED, {
+      headers: { Origin: 'https://evil.example.com' }
+    });
+  } finally {
+    Deno.env.delete('ALLOWED_ORIGINS');
+  }
+});
+
+test('requires an authorization header', async () => {
+  await assertError({ entries: ENTRIES }, 401, SharedErrorCode.AUTH_REQUIRED, { token: null });
+});
+
+test('rejects an invalid access token', async () => {
+  await assertError({ entries: ENTRIES }, 401, SharedErrorCode.AUTH_FAILED, { token: 'expired-token' });
+});
+
+test('returns RATE_LIMITED with Retry-After when the user bucket is empty', async () => {
+  env.supabase.rpcs.consume_rate_limit = () => ({
+    data: [{ allowed: false, remaining: 0, retry_after_seconds: 42 }]
+  });
+
+  const result = await call({ entries: ENTRIES });
+  assertEquals(result.status, 429);
+  assertEquals(result.body.code, SharedErrorCode.RATE_LIMITED);
+  assertEquals(result.body.retryAfter, 42);
+  assertEquals(result.headers.get('Retry-After'), '42');
+});
+
+test('rejects malformed JSON', async () => {
+  await assertError(null, 400, SharedErrorCode.INVALID_JSON, { rawBody: '{"entries": [' });
+});
+
+test('rejects a JSON body that is not an object', async () => {
+  await assertError([ENTRIES], 400, SharedErrorCode.INVALID_JSON);
+});
+
+test('rejects bodies over the size limit', async () => {
+  await assertError(null, 413, SharedErrorCode.PAYLOAD_TOO_LARGE, {
+    rawBody: JSON.stringify({ entries: ENTRIES, padding: 'x'.repeat(300 * 1024) })
+  });
+});
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+test('rejects an unknown insight_type', async () => {
+  await assertError({ insight_type: 'daily_digest', entries: ENTRIES }, 400, ErrorCode.INVALID_INSIGHT_TYPE);
+});
+
+test('rejects a period that is not a date', async () => {
+  await assertError({ insight_type: 'weekly_recap', period: 'last week' }, 400, ErrorCode.INVALID_PERIOD);
+});
+
+test('rejects a period in the future', async () => {
+  await assertError({ insight_type: 'monthly_insights', period: '2999-01-01' }, 400, ErrorCode.INVALID_PERIOD);
+});
+
+test('rejects an invalid locale', async () => {
+  await assertError({ entries: ENTRIES, locale: 'not a locale!' }, 400, ErrorCode.INVALID_LOCALE);
+});
+
+test('rejects a malformed Idempotency-Key', async () => {
+  await assertError({ entries: ENTRIES }, 400, ErrorCode.INVALID_IDEMPOTENCY_KEY, {
+    headers: { 'Idempotency-Key': 'has spaces in it' }
+  });
+});
+
+test('rejects entries and selection together', async () => {
+  await assertError({ entries: ENTRIES, selection: { latest: 5 } }, 400, ErrorCode.INVALID_SELECTION);
+});
+
+test('rejects entries for period-based insight types', async () => {
+  await assertError({ insight_type: 'weekly_recap', entries: ENTRIES }, 400, ErrorCode.INVALID_SELECTION);
+});
+
+test('rejects invalid selections', async () => {
+  const selections = [
+    'latest',
+    { all: true, latest: 5 },
+    { all: false },
+    { latest: 0 },
+    { latest: 501 },
+    {},
+    { date_start: 'yesterday' },
+    { date_start: '2026-10-10', date_end: 'tomorrow' },
+    { date_start: '2026-10-10', date_end: '2026-10-01' }
+  ];
+  for (const selection of selections) {
+    await assertError({ selection }, 400, ErrorCode.INVALID_SELECTION);
+  }
+});
+
+test('returns ENTRIES_ERROR when server entries cannot be loaded', async () => {
+  env.supabase.rpcs.get_entries_by_date_range = () => ({ error: { message: 'connection reset' }, status: 500 });
+  await assertError({ selection: { all: true } }, 500, ErrorCode.ENTRIES_ERROR);
+});
+
+test('rejects a selection that matches no entries', async () => {
+  await assertError({ selection: { latest: 10 } }, 400, ErrorCode.INVALID_ENTRIES);
+});
+
+test('requires an entries array', async () => {
+  await assertError({}, 400, ErrorCode.MISSING_ENTRIES);
+  await assertError({ entries: 'today was fine' }, 400, ErrorCode.MISSING_ENTRIES);
+});
+
+test('requires at least one entry', async () => {
+  await assertError({ entries: [] }, 400, ErrorCode.INVALID_ENTRIES);
+});
+
+test('caps client-uploaded entries', async () => {
+  const entries = Array.from({ length: 21 }, (_, i) => entry(i + 1, 'calm', `Entry number ${i + 1} about my day.`));
+  await assertError({ entries }, 400, ErrorCode.TOO_MANY_ENTRIES);
+});
+
+test('rejects entries without content', async () => {
+  await assertError({ entries: [...ENTRIES, entry(8, 'calm', '   ')] }, 400, ErrorCode.EMPTY_CONTENT);
+});
+
+// ============================================================
+// GENERATION AND CACHE
+// ============================================================
+
+test('generates on a cache miss and serves the same insight from cache', async () => {
+  const fresh = await call({ entries: ENTRIES });
+  assertEquals(fresh.status, 200, JSON.stringify(fresh.body));
+  assertEquals(fresh.body.fromCache, false);
+  assertEquals(fresh.body.insightType, 'theme_summary');
+  assertEquals(fresh.body.period, null);
+  assertEquals(fresh.body.entriesAnalyzed, 3);
+  assertEquals(fresh.body.entriesSource, 'client');
+  assertEquals(fresh.body.refreshing, false);
+  assertEquals(fresh.body.language, 'en');
+  assertEquals(fresh.body.newSinceCache, null);
+  assertEquals(fresh.body.trends, null);
+  assertEquals(fresh.body.safety.riskLevel, 'none');
+  assertEquals(typeof fresh.body.summary, 'string');
+  assertEquals(typeof fresh.body.description, 'string');
+  assert(fresh.body.themes.length >= 4 && fresh.body.themes.length <= 5);
+  for (const theme of fresh.body.themes) {
+    assertEquals(Object.keys(theme).sort(), ['explanation', 'frequency', 'icon', 'name', 'source_entries']);
+  }
+  assert(fresh.body.annotations.length >= 1);
+  assertEquals(env.openai.requests.length, 1);
+
+  const cached = await call({ entries: ENTRIES });
+  assertEquals(cached.status, 200);
+  assertEquals(cached.body.fromCache, true);
+  assertEquals(cached.body.summary, fresh.body.summary);
+  assertEquals(cached.body.themes, fresh.body.themes);
+  assertEquals(cached.body.newSinceCache, []);
+  assertExists(cached.body.cacheExpiresAt);
+  assertEquals(env.openai.requests.length, 1);
+});
+
+test('treats a changed entry set as a miss and reports the new entries', async () => {
+  await call({ entries: ENTRIES });
+
+  const added = entry(8, 'grateful', 'Dinner with friends reminded me how lucky I am.', 'Dinner');
+  const result = await call({ entries: [...ENTRIES, added] });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.fromCache, false);
+  assertEquals(result.body.newSinceCache, [{ id: added.id, date: added.date, title: added.title }]);
+  assertEquals(env.openai.requests.length, 2);
+});
+
+test('force_refresh bypasses the cache', async () => {
+  await call({ entries: ENTRIES });
+  const result = await call({ entries: ENTRIES, force_refresh: true });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.fromCache, false);
+  assertEquals(env.openai.requests.length, 2);
+});
+
+test('a cached insight in another language is a miss', async () => {
+  await call({ entries: ENTRIES });
+  const result = await call({ entries: ENTRIES, locale: 'es-MX' });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.fromCache, false);
+  assertEquals(result.body.language, 'es');
+  assertEquals(env.openai.requests.length, 2);
+});
+
+test('caches are per user', async () => {
+  await call({ entries: ENTRIES });
+  const result = await call({ entries: ENTRIES }, { token: BOB.token });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.fromCache, false);
+});
+
+test('loads server entries for a selection', async () => {
+  env.supabase.tables.journal_entries = [
+    { id: 'a1', user_id: ALICE.id, title: 'Morning', text: 'I felt hopeful about the new week.', created_at: '2026-10-12T08:00:00Z', word_count: 7 },
+    { id: 'a2', user_id: ALICE.id, title: 'Evening', text: 'Tired, but proud of what I finished.', created_at: '2026-10-13T20:00:00Z', word_count: 7 },
+    { id: 'a3', user_id: ALICE.id, title: 'Old', text: 'An archived entry.', created_at: '2026-10-01T20:00:00Z', word_count: 3, is_archived: true },
+    { id: 'b1', user_id: BOB.id, title: 'Not yours', text: 'Bob wrote this one.', created_at: '2026-10-13T21:00:00Z', word_count: 4 }
+  ];
+
+  const result = await call({ selection: { all: true } });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+  assertEquals(result.body.entriesSource, 'server');
+  assertEquals(result.body.entriesAnalyzed, 2);
+});
+
+test('weekly_recap covers its period and adds highlight and intention', async () => {
+  const weekStart = new Date();
+  weekStart.setUTCDate(weekStart.getUTCDate() - (weekStart.getUTCDay() + 6) % 7);
+  weekStart.setUTCHours(0, 0, 0, 0);
+  env.supabase.tables.journal_entries = [
+    { id: 'w1', user_id: ALICE.id, title: 'Start', text: 'Busy start to the week but I felt focused.', created_at: weekStart.toISOString(), word_count: 9 }
+  ];
+
+  const result = await call({ insight_type: 'weekly_recap' });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+  assertEquals(result.body.insightType, 'weekly_recap');
+  assertEquals(result.body.period.start, weekStart.toISOString());
+  assertEquals(typeof result.body.highlight, 'string');
+  assert(result.body.intention.endsWith('?'));
+});
+
+test('no entry PII reaches the model, but the response keeps the real names', async () => {
+  const entries = [entry(9, 'happy', 'Lunch with my sister Maria, she says to email her at maria.lopez@example.com.', 'Lunch')];
+  const result = await call({ entries });
+  assertEquals(result.status, 200);
+
+  const prompt = JSON.stringify(env.openai.requests[0].messages);
+  assert(!prompt.includes('maria.lopez@example.com'));
+  assert(!prompt.includes('Maria'));
+});
+
+test('applies length limits to the summary with the real names restored', async () => {
+  const entries = [entry(9, 'happy', 'Caught up with my friend Maximiliana Bartholomew-Featherstonehaugh, email maximiliana.featherstonehaugh@example.com.', 'Catch-up')];
+  const valid = env.openai.respond;
+  env.openai.respond = (body) => {
+    const reply = valid(body);
+    if (env.openai.requests.length > 1 || !('content' in reply)) return reply;
+    // 140 characters with placeholders, far more once they are restored
+    const content = JSON.parse(reply.content);
+    content.summary = `Time with [PERSON_1] ([EMAIL_1]) lifted you. ${'x'.repeat(140)}`.slice(0, 140);
+    return { content: JSON.stringify(content) };
+  };
+
+  const result = await call({ entries });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+  assertEquals(env.openai.requests.length, 2);
+  assert(env.openai.requests[1].messages.at(-1)?.content.includes('"summary" must be at most 140 characters'));
+  assert(Array.from(result.body.summary).length <= 140);
+});
+
+test('adds the safety note for the risk level assessed before redaction', async () => {
+  const entries = [entry(9, 'sad', 'Some nights I want to die. I told my sister Maria.', 'Night')];
+  const result = await call({ entries });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.safety.riskLevel, 'high');
+
+  const system = env.openai.requests[0].messages.filter(m => m.role === 'system').map(m => m.content);
+  assert(system.some(content => content.startsWith('Safety note: some entries mention self-harm')));
+});
+
+// ============================================================
+// IDEMPOTENCY AND SINGLE-FLIGHT
+// ============================================================
+
+test('replays the stored response for a repeated Idempotency-Key', async () => {
+  const headers = { 'Idempotency-Key': 'refresh-2026-10-18' };
+  const first = await call({ entries: ENTRIES }, { headers });
+  assertEquals(first.status, 200);
+  assertEquals(first.headers.get('Idempotent-Replayed'), null);
+
+  const retry = await call({ entries: ENTRIES, force_refresh: false }, { headers });
+  assertEquals(retry.status, 200);
+  assertEquals(retry.headers.get('Idempotent-Replayed'), 'true');
+  assertEquals(retry.body.generatedAt, first.body.generatedAt);
+  assertEquals(retry.body.fromCache, false);
+  assertEquals(env.openai.requests.length, 1);
+});
+
+test('rejects an Idempotency-Key reused for a different request', async () => {
+  const headers = { 'Idempotency-Key': 'refresh-2026-10-18' };
+  await call({ entries: ENTRIES }, { headers });
+  await assertError({ entries: ENTRIES.slice(0, 2) }, 422, ErrorCode.IDEMPOTENCY_KEY_REUSED, { headers });
+});
+
+test('returns the result of an identical in-flight generation', async () => {
+  const shared = { summary: 'Generated by another request' };
+  env.supabase.rpcs.begin_insight_generation = () => ({
+    data: [{ state: 'shared', response: shared, response_status: 200 }]
+  });
+
+  const result = await call({ entries: ENTRIES });
+  assertEquals(result.status, 200);
+  assertEquals(result.body, shared);
+  assertEquals(result.headers.get('Idempotent-Replayed'), 'true');
+  assertEquals(env.openai.requests.length, 0);
+});
+
+test('generates without a flight when the flight table is unavailable', async () => {
+  env.supabase.rpcs.begin_insight_generation = () => ({ error: { message: 'relation does not exist' }, status: 500 });
+  const result = await call({ entries: ENTRIES });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.fromCache, false);
+});
+
+// ============================================================
+// BUDGET AND PROVIDER ERRORS
+// ============================================================
+
+test('returns RATE_LIMITED once the monthly token budget is spent', async () => {
+  Deno.env.set('INSIGHTS_MONTHLY_TOKEN_BUDGET', '1000');
+  try {
+    env.supabase.tables.insight_usage_log = [{ user_id: ALICE.id, prompt_tokens: 900, completion_tokens: 100 }];
+
+    const result = await call({ entries: ENTRIES });
+    assertEquals(result.status, 429);
+    assertEquals(result.body.code, SharedErrorCode.RATE_LIMITED);
+    assert(result.body.retryAfter > 0);
+    assertEquals(result.headers.get('Retry-After'), String(result.body.retryAfter));
+    assertEquals(env.openai.requests.length, 0);
+    assertEquals(env.supabase.tables.insight_generation_flights, []);
+  } finally {
+    Deno.env.delete('INSIGHTS_MONTHLY_TOKEN_BUDGET');
+  }
+});
+
+test('repairs a response that fails validation', async () => {
+  const valid = env.openai.respond;
+  env.openai.respond = (body) => env.openai.requests.length === 1 ? { content: '{"summary": "too little"}' } : valid(body);
+
+  const result = await call({ entries: ENTRIES });
+  assertEquals(result.status, 200);
+  assertEquals(env.openai.requests.length, 2);
+  assertEquals(env.openai.requests[1].messages.at(-2)?.role, 'assistant');
+});
+
+test('returns INVALID_RESPONSE when repairs fail and logs the failure', async () => {
+  env.openai.respond = () => ({ content: 'Here are your insights!' });
+
+  const result = await call({ entries: ENTRIES });
+  assertEquals(result.status, 502);
+  assertEquals(result.body.code, ErrorCode.INVALID_RESPONSE);
+  assert(Array.isArray(result.body.details) && result.body.details.length > 0);
+  assertEquals(env.openai.requests.length, 2);
+  assert(env.supabase.calls.includes('rpc:log_insight_generation_failure'));
+  assertEquals(env.supabase.tables.user_insights ?? [], []);
+});
+
+test('maps an upstream 429 to RATE_LIMITED', async () => {
+  env.openai.respond = () => ({ status: 429, error: 'Rate limit reached' });
+  const result = await call({ entries: ENTRIES });
+  assertEquals(result.status, 429);
+  assertEquals(result.body.code, SharedErrorCode.RATE_LIMITED);
+  assertEquals(result.body.retryAfter, 60);
+  assertEquals(result.headers.get('Retry-After'), '60');
+});
+
+test('maps other upstream errors to OPENAI_ERROR and releases the flight', async () => {
+  env.openai.respond = () => ({ status: 500, error: 'The server had an error' });
+  await assertError({ entries: ENTRIES }, 502, ErrorCode.OPENAI_ERROR);
+  assertEquals(env.supabase.tables.insight_generation_flights, []);
+});
+
+test('includes debug details only in DEV_MODE', async () => {
+  env.openai.respond = () => ({ status: 500, error: 'The server had an error' });
+  Deno.env.set('DEV_MODE', 'true');
+  try {
+    const result = await call({ entries: ENTRIES });
+    assertEquals(result.status, 502);
+    assertEquals(typeof result.body.debug, 'string');
+  } finally {
+    Deno.env.delete('DEV_MODE');
+  }
+});
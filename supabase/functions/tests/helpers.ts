@@ -0,0 +1,218 @@
+// tests/helpers.ts
+//
+// Shared setup for the handler tests
+//
+// startTestEnv() boots the fake Supabase and OpenAI servers and points the
+// functions' env at them. Env is read per request, so it only has to be set
+// before the first handler call, not before the handler is imported.
+//
+// handlerTests() gives each test file its `call`, `test` and `assertError`
+// for one handler.
+//
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { Theme } from '../_shared/themes.ts';
+import type { ErrorResponse } from '../_shared/types.ts';
+import { startFakeSupabase } from './fakes/supabase.ts';
+import type { FakeSupabase, FakeUser } from './fakes/supabase.ts';
+import { FAKE_MODEL, startFakeOpenAI } from './fakes/openai.ts';
+import type { FakeOpenAI } from './fakes/openai.ts';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface TestEnv {
+  supabase: FakeSupabase;
+  openai: FakeOpenAI;
+  reset(): void;
+}
+
+export interface CallOptions {
+  method?: string;
+  token?: string | null;             // Bearer token (null: no Authorization header)
+  headers?: Record<string, string>;
+  rawBody?: string;                  // Sent as-is instead of JSON.stringify(body)
+}
+
+export interface CallResult {
+  status: number;
+  headers: Headers;
+  // deno-lint-ignore no-explicit-any -- tests read whichever response fields they assert on
+  body: any;
+}
+
+export interface HandlerTestOptions {
+  callOptions?: CallOptions;         // Defaults for every call (e.g. the service role token)
+  seed?: () => void;                 // Runs after the fakes are reset, before each test
+}
+
+export interface HandlerTests {
+  call(body: unknown, options?: CallOptions): Promise<CallResult>;
+  test(name: string, fn: () => Promise<void>): void;
+  /** Asserts the status and the error envelope; returns the envelope */
+  assertError(body: unknown, status: number, code: string, options?: CallOptions): Promise<ErrorResponse>;
+}
+
+// ============================================================
+// FIXTURES
+// ============================================================
+
+export const ALICE: FakeUser = {
+  id: '11111111-1111-4111-8111-111111111111',
+  email: 'alice@example.com',
+  token: 'alice-access-token'
+};
+
+export const BOB: FakeUser = {
+  id: '22222222-2222-4222-8222-222222222222',
+  email: 'bob@example.com',
+  token: 'bob-access-token'
+};
+
+/**
+ * Catalog theme with placeholder text; the title is derived from the name
+ * ('sleep-rest' -> 'Sleep & Rest')
+ */
+export function theme(name: string, category: string, keywords: string[]): Theme {
+  return {
+    name,
+    title: name.split('-').map(w => w[0].toUpperCase() + w.slice(1)).join(' & '),
+    summary: `Exploring ${name.replace('-', ' and ')} in everyday life.`,
+    keywords,
+    emoji: '✨',
+    category,
+    translations: {}
+  };
+}
+
+// Six themes, the smallest catalog admin-themes allows
+export const THEMES: Theme[] = [
+  theme('anxiety-worry', 'emotional', ['anxiety', 'anxious', 'worry', 'nervous']),
+  theme('career-purpose', 'growth', ['work', 'job', 'career', 'purpose']),
+  theme('habits-routine', 'wellness', ['habit', 'routine', 'daily', 'morning']),
+  theme('relationships-connection', 'social', ['friend', 'family', 'partner', 'lonely']),
+  theme('sleep-rest', 'wellness', ['sleep', 'insomnia', 'rest', 'nap']),
+  theme('stress-energy', 'wellness', ['stress', 'tired', 'exhausted', 'energy'])
+];
+
+// ============================================================
+// SETUP
+// ============================================================
+
+export function startTestEnv(): TestEnv {
+  const supabase = startFakeSupabase([ALICE, BOB]);
+  const openai = startFakeOpenAI();
+
+  Deno.env.set('SUPABASE_URL', supabase.url);
+  Deno.env.set('SUPABASE_ANON_KEY', supabase.anonKey);
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', supabase.serviceRoleKey);
+  Deno.env.set('LLM_PROVIDER', 'openai-compatible');
+  Deno.env.set('LLM_BASE_URL', openai.baseUrl);
+  Deno.env.set('LLM_MODEL', FAKE_MODEL);
+  Deno.env.set('LLM_API_KEY', 'fake-openai-key');
+  Deno.env.set('LOG_LEVEL', Deno.env.get('TEST_LOG_LEVEL') ?? 'error');
+  Deno.env.delete('ALLOWED_ORIGINS');
+  Deno.env.delete('DEV_MODE');
+  Deno.env.delete('INSIGHTS_MONTHLY_TOKEN_BUDGET');
+  Deno.env.delete('RATE_LIMIT_ENABLED');
+  Deno.env.delete('THEMES_VERSION_CHECK_SECONDS');
+
+  return {
+    supabase,
+    openai,
+    reset() {
+      supabase.reset();
+      openai.reset();
+    }
+  };
+}
+
+/**
+ * Call a handler the way the edge runtime would and read the JSON body
+ */
+export async function callHandler(
+  handler: (req: Request) => Promise<Response>,
+  body: unknown,
+  options: CallOptions = {}
+): Promise<CallResult> {
+  const token = options.token === undefined ? ALICE.token : options.token;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...options.headers };
+  if (token !== null) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  const method = options.method ?? 'POST';
+  const response = await handler(new Request('http://localhost/functions/v1/test', {
+    method,
+    headers,
+    body: method === 'GET' || method === 'OPTIONS' ? undefined : options.rawBody ?? JSON.stringify(body)
+  }));
+
+  return {
+    status: response.status,
+    headers: response.headers,
+    body: parseBody(await response.text())
+  };
+}
+
+/**
+ * `call`, `test` and `assertError` for one handler
+ * Every test starts from reset fakes, then `seed` runs
+ */
+export function handlerTests(
+  env: TestEnv,
+  handler: (req: Request) => Promise<Response>,
+  { callOptions = {}, seed }: HandlerTestOptions = {}
+): HandlerTests {
+  const call = (body: unknown, options: CallOptions = {}) =>
+    callHandler(handler, body, { ...callOptions, ...options });
+
+  return {
+    call,
+    test(name, fn) {
+      Deno.test(name, async () => {
+        env.reset();
+        seed?.();
+        await fn();
+      });
+    },
+    async assertError(body, status, code, options = {}) {
+      const result = await call(body, options);
+      assertEquals(result.status, status, JSON.stringify(result.body));
+      const error = result.body as ErrorResponse;
+      assertEquals(error.code, code);
+      assertEquals(typeof error.error, 'string');
+      assertEquals(error.debug, undefined);
+      return error;
+    }
+  };
+}
+
+/**
+ * PATCH a table directly with a user's token, the way the app could
+ * without going through a function; returns the HTTP status
+ */
+export async function patchAsUser(user: FakeUser, table: string, filters: Record<string, string>, changes: Record<string, unknown>): Promise<number> {
+  const query = new URLSearchParams(Object.entries(filters).map(([column, value]) => [column, `eq.${value}`]));
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/rest/v1/${table}?${query}`, {
+    method: 'PATCH',
+    headers: {
+      apikey: Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      Authorization: `Bearer ${user.token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(changes)
+  });
+  await response.body?.cancel();
+  return response.status;
+}
+
+function parseBody(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;       // Plain-text responses (CORS preflight)
+  }
+}
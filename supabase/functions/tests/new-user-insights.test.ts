@@ -0,0 +1,307 @@
+// tests/new-user-insights.test.ts
+//
+// new-user-insights handler against a fake Supabase server
+//
+// Run: deno test --allow-net --allow-env supabase/functions/tests/
+//
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handler } from '../new-user-insights/handler.ts';
+import type { Theme } from '../new-user-insights/types.ts';
+import { SharedErrorCode } from '../_shared/types.ts';
+import { ALICE, BOB, handlerTests, patchAsUser, startTestEnv } from './helpers.ts';
+
+const env = startTestEnv();
+
+const THEMES: Theme[] = [
+  {
+    name: 'anxiety-worry',
+    title: 'Anxiety & Worry',
+    summary: 'Exploring anxious thoughts and worry patterns to find calm and clarity.',
+    keywords: ['anxiety', 'anxious', 'worry', 'worried', 'nervous', 'panic', 'fear', 'scared', 'uneasy', 'tense'],
+    emoji: '🌊',
+    category: 'emotional',
+    translations: {
+      es: { title: 'Ansiedad y preocupación', summary: 'Explorar pensamientos ansiosos.', keywords: ['ansiedad', 'ansios', 'preocup', 'nervios', 'miedo'] }
+    }
+  },
+  {
+    name: 'career-purpose',
+    title: 'Career & Purpose',
+    summary: 'Reflecting on work, career goals, and finding meaning in what you do.',
+    keywords: ['work', 'job', 'career', 'purpose', 'goals', 'productivity', 'professional', 'ambition', 'direction', 'calling'],
+    emoji: '🎯',
+    category: 'growth',
+    translations: {
+      es: { title: 'Carrera y propósito', summary: 'Reflexionar sobre el trabajo.', keywords: ['trabajo', 'carrera', 'propósito', 'metas', 'empleo'] }
+    }
+  },
+  {
+    name: 'relationships-connection',
+    title: 'Relationships & Connection',
+    summary: 'Understanding your relationships and building meaningful connections.',
+    keywords: ['friend', 'family', 'partner', 'relationship', 'lonely', 'connection', 'love', 'people'],
+    emoji: '💞',
+    category: 'social',
+    translations: {}
+  },
+  {
+    name: 'stress-energy',
+    title: 'Stress & Energy',
+    summary: 'Understanding how stress affects your energy levels and finding balance in demanding times.',
+    keywords: ['stress', 'stressed', 'tired', 'exhausted', 'overwhelmed', 'burnout', 'energy', 'rest', 'fatigue', 'drained'],
+    emoji: '⚡',
+    category: 'wellness',
+    translations: {
+      es: { title: 'Estrés y energía', summary: 'Entender cómo el estrés afecta tu energía.', keywords: ['estrés', 'estresad', 'cansad', 'agotad'] }
+    }
+  }
+];
+
+const REFLECTION = 'I have been anxious and worried about work lately. My job leaves me exhausted and stressed, ' +
+  'and I barely see my friends or family anymore.';
+
+// Every test starts with the themes catalog seeded
+const { call, test, assertError } = handlerTests(env, handler, {
+  seed: () => { env.supabase.tables.themes = structuredClone(THEMES); }
+});
+
+// ============================================================
+// THEMES CATALOG
+// ============================================================
+
+// The handler caches the catalog after its first successful load, so
+// this must run before any request succeeds
+test('returns THEMES_ERROR when the catalog cannot be loaded', async () => {
+  env.supabase.failTables.add('themes');
+  await assertError({ selfReflectionText: REFLECTION }, 500, 'THEMES_ERROR');
+});
+
+test('returns THEMES_ERROR when the catalog is empty', async () => {
+  env.supabase.tables.themes = [];
+  await assertError({ selfReflectionText: REFLECTION }, 500, 'THEMES_ERROR');
+});
+
+// ============================================================
+// PIPELINE
+// ============================================================
+
+test('requires an authorization header', async () => {
+  await assertError({ selfReflectionText: REFLECTION }, 401, SharedErrorCode.AUTH_REQUIRED, { token: null });
+});
+
+test('rejects an invalid access token', async () => {
+  await assertError({ selfReflectionText: REFLECTION }, 401, SharedErrorCode.AUTH_FAILED, { token: 'expired-token' });
+});
+
+test('rejects malformed JSON', async () => {
+  await assertError(null, 400, SharedErrorCode.INVALID_JSON, { rawBody: 'selfReflectionText=hi' });
+});
+
+test('rejects bodies over the size limit', async () => {
+  await assertError(null, 413, SharedErrorCode.PAYLOAD_TOO_LARGE, {
+    rawBody: JSON.stringify({ selfReflectionText: 'x'.repeat(20 * 1024) })
+  });
+});
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+test('requires selfReflectionText', async () => {
+  await assertError({}, 400, 'MISSING_TEXT');
+  await assertError({ selfReflectionText: '' }, 400, 'MISSING_TEXT');
+  await assertError({ selfReflectionText: 42 }, 400, 'MISSING_TEXT');
+});
+
+test('rejects an invalid locale', async () => {
+  await assertError({ selfReflectionText: REFLECTION, locale: 'english please' }, 400, 'INVALID_LOCALE');
+});
+
+test('rejects a non-boolean includeRunnersUp', async () => {
+  await assertError({ selfReflectionText: REFLECTION, includeRunnersUp: 'yes' }, 400, 'INVALID_RUNNERS_UP');
+});
+
+test('rejects text under the minimum length after stripping markup', async () => {
+  await assertError({ selfReflectionText: '<b>too short</b>' }, 400, 'TEXT_TOO_SHORT');
+});
+
+test('rejects text over the maximum length', async () => {
+  await assertError({ selfReflectionText: 'word '.repeat(450) }, 413, 'TEXT_TOO_LONG');
+});
+
+test('rejects text without enough letters', async () => {
+  await assertError({ selfReflectionText: '1234567890 !!! ??? 0987654321' }, 400, 'INSUFFICIENT_CONTENT');
+});
+
+test('returns PROFILE_ERROR when the profile cannot be read', async () => {
+  env.supabase.failTables.add('user_profiles');
+  await assertError({ selfReflectionText: REFLECTION }, 500, 'PROFILE_ERROR');
+});
+
+// ============================================================
+// ANALYSIS
+// ============================================================
+
+test('returns scored themes and records the analysis', async () => {
+  const result = await call({ selfReflectionText: REFLECTION });
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+
+  const { themes, themeCount, recommendedCount, language, safety, analyzedAt } = result.body;
+  assertEquals(themes.length, themeCount);
+  assert(themeCount >= 3 && themeCount <= 6);
+  assertEquals(recommendedCount, Math.max(3, themeCount - 1));
+  assertEquals(language, 'en');
+  assertEquals(safety.riskLevel, 'none');
+  assertEquals(themes[0].name, 'anxiety-worry');
+  assertEquals(result.body.runnersUp, undefined);
+  for (const theme of themes) {
+    assertEquals(Object.keys(theme).sort(), [
+      'category', 'emoji', 'excerpts', 'keywords', 'matchedKeywords', 'name', 'relativeScore', 'summary', 'title'
+    ]);
+  }
+
+  const profile = env.supabase.tables.user_profiles?.find(p => p.user_id === ALICE.id);
+  assertEquals(profile?.themes_analyzed_at, analyzedAt);
+  assertEquals(profile?.onboarding_self_reflection, REFLECTION);
+  assertEquals(profile?.themes_analysis.themes, themes);
+});
+
+test('answers in the requested language', async () => {
+  const result = await call({ selfReflectionText: REFLECTION, locale: 'es-MX' });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.language, 'es');
+  assertEquals(result.body.themes[0].title, 'Ansiedad y preocupación');
+});
+
+test('detects the language of the text', async () => {
+  const text = 'Últimamente tengo mucha ansiedad por el trabajo y me siento agotada, casi no veo a mi familia.';
+  const result = await call({ selfReflectionText: text });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.language, 'es');
+  assertEquals(result.body.themes[0].name, 'anxiety-worry');
+});
+
+test('explains each match with relative score, keywords and excerpts', async () => {
+  const result = await call({ selfReflectionText: REFLECTION });
+  const [top] = result.body.themes;
+
+  assertEquals(top.relativeScore, 1);
+  assertEquals(top.matchedKeywords.sort(), ['anxious', 'worry']);
+  assert(top.excerpts.length >= 1);
+  const highlighted = top.excerpts.flatMap((excerpt: { text: string; highlights: { start: number; end: number }[] }) =>
+    excerpt.highlights.map(h => excerpt.text.slice(h.start, h.end)));
+  assertEquals(highlighted, ['anxious', 'worried']);
+
+  for (const theme of result.body.themes) {
+    assert(theme.relativeScore >= 0 && theme.relativeScore <= 1);
+  }
+});
+
+test('returns runners-up when asked', async () => {
+  const result = await call({ selfReflectionText: 'Work has been hard and my job drains me.', includeRunnersUp: true });
+  assertEquals(result.status, 200);
+  assertEquals(result.body.themeCount, 3);
+
+  const shown = result.body.themes.map((t: Theme) => t.name);
+  const more = result.body.runnersUp.map((t: Theme) => t.name);
+  assertEquals(more.length, 1);
+  assert(!shown.includes(more[0]));
+  assertEquals(result.body.themes[0].name, 'career-purpose');
+});
+
+test('ignores negated keywords', async () => {
+  const result = await call({ selfReflectionText: "I'm not anxious at all, but my job has been exhausting lately." });
+  assertEquals(result.status, 200);
+  const names = result.body.themes.slice(0, 2).map((t: Theme) => t.name).sort();
+  assertEquals(names, ['career-purpose', 'stress-energy']);
+});
+
+test('picks the same theme count for short and long reflections', async () => {
+  const short = 'Work makes me anxious and tired.';
+  const long = 'Work has kept me busy for months and I notice it in everything I do. '.repeat(10) +
+    'Most mornings I wake up anxious about it, and by the evening I am tired.';
+
+  const shortResult = await call({ selfReflectionText: short });
+  const longResult = await call({ selfReflectionText: long }, { token: BOB.token });
+  assertEquals(shortResult.status, 200);
+  assertEquals(longResult.status, 200);
+  assertEquals(longResult.body.themeCount, shortResult.body.themeCount);
+  assertEquals(
+    longResult.body.themes.slice(0, 3).map((t: Theme) => t.name).sort(),
+    shortResult.body.themes.slice(0, 3).map((t: Theme) => t.name).sort()
+  );
+});
+
+test('flags crisis language with safety resources', async () => {
+  const result = await call({ selfReflectionText: 'Some days I want to kill myself because work never ends.' });
+  assertEquals(result.status, 200);
+  assert(result.body.safety.riskLevel !== 'none');
+});
+
+// ============================================================
+// RATE LIMITING & REPLAY
+// ============================================================
+
+function seedPreviousAnalysis(hoursAgo: number): void {
+  env.supabase.tables.user_profiles = [{
+    user_id: ALICE.id,
+    onboarding_self_reflection: REFLECTION,
+    themes_analyzed_at: new Date(Date.now() - hoursAgo * 3_600_000).toISOString()
+  }];
+}
+
+test('replays the stored analysis for a similar reflection', async () => {
+  const first = await call({ selfReflectionText: REFLECTION });
+  assertEquals(first.status, 200);
+
+  const similar = REFLECTION.replace('lately', 'recently');
+  const replay = await call({ selfReflectionText: similar });
+  assertEquals(replay.status, 200);
+  assertEquals(replay.headers.get('Idempotent-Replayed'), 'true');
+  assertEquals(replay.body, first.body);
+
+  const withRunnersUp = await call({ selfReflectionText: similar, includeRunnersUp: true });
+  assertEquals(withRunnersUp.body.analyzedAt, first.body.analyzedAt);
+  assert(Array.isArray(withRunnersUp.body.runnersUp));
+});
+
+test('rate limits a changed reflection inside the window', async () => {
+  seedPreviousAnalysis(2);
+  const result = await call({ selfReflectionText: 'Lately I sleep badly and feel lonely since moving to a new city.' });
+  assertEquals(result.status, 429);
+  assertEquals(result.body.code, SharedErrorCode.RATE_LIMITED);
+  assert(result.body.retryAfter > 21 * 3600 && result.body.retryAfter <= 22 * 3600);
+  assertEquals(result.headers.get('Retry-After'), String(result.body.retryAfter));
+});
+
+test('keeps the window when the app tries to reset it directly', async () => {
+  assertEquals((await call({ selfReflectionText: REFLECTION })).status, 200);
+
+  const reset = await patchAsUser(ALICE, 'user_profiles', { user_id: ALICE.id }, { themes_analyzed_at: null, themes_analysis: null });
+  assertEquals(reset, 403);
+
+  const result = await call({ selfReflectionText: 'Lately I sleep badly and feel lonely since moving to a new city.' });
+  assertEquals(result.status, 429);
+  assertEquals(result.body.code, SharedErrorCode.RATE_LIMITED);
+});
+
+test('analyzes a changed reflection once the window has passed', async () => {
+  seedPreviousAnalysis(25);
+  const text = 'Lately I sleep badly and feel lonely since moving to a new city.';
+  const result = await call({ selfReflectionText: text });
+  assertEquals(result.status, 200);
+  assertEquals(result.headers.get('Idempotent-Replayed'), null);
+
+  const profile = env.supabase.tables.user_profiles.find(p => p.user_id === ALICE.id);
+  assertEquals(profile?.onboarding_self_reflection, text);
+  assertEquals(profile?.themes_analyzed_at, result.body.analyzedAt);
+});
+
+test('analyzes a similar reflection again in another language', async () => {
+  assertEquals((await call({ selfReflectionText: REFLECTION })).status, 200);
+  const spanish = await call({ selfReflectionText: REFLECTION, locale: 'es' });
+  assertEquals(spanish.status, 200);
+  assertEquals(spanish.headers.get('Idempotent-Replayed'), null);
+  assertEquals(spanish.body.themes[0].title, 'Ansiedad y preocupación');
+});
@@ -0,0 +1,53 @@
+// tests/redaction.test.ts
+//
+// generate-insights/redaction.ts, without a server
+//
+// Run: deno test --allow-net --allow-env supabase/functions/tests/
+//
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createRedactor, learnNames } from '../generate-insights/redaction.ts';
+
+Deno.test('learns names after cues, also at the start of a sentence', () => {
+  assertEquals(learnNames(['Met Ana for coffee.']), ['Ana']);
+  assertEquals(learnNames(['My sister Ana called.']), ['Ana']);
+  assertEquals(learnNames(['Lunch with Tom Baker, then told Dr. Patel.']).sort(), ['Patel', 'Tom', 'Tom Baker']);
+});
+
+Deno.test('does not learn lowercase words or non-names', () => {
+  assertEquals(learnNames(['Called it a day and met up later.']), []);
+  assertEquals(learnNames(['With Monday coming, I saw The film.']), []);
+});
+
+Deno.test('redacts names everywhere once learned', () => {
+  const redactor = createRedactor(['Met Ana for coffee.', 'Ana was late again.']);
+  assertEquals(redactor.redact('Ana was late again.'), '[PERSON_1] was late again.');
+  assertEquals(redactor.redact('My sister Ana called.'), 'My sister [PERSON_1] called.');
+});
+
+Deno.test('redacts emails, phone numbers and addresses', () => {
+  const redactor = createRedactor([]);
+  const text = 'Email ana.lopez@example.com or call +1 (555) 123-4567, I live at 42 Elm Street, Apt 3.';
+  const redacted = redactor.redact(text);
+
+  assertEquals(redacted, 'Email [EMAIL_1] or call [PHONE_1], I live at [ADDRESS_1].');
+  assertEquals(redactor.summary(), { PERSON: 0, EMAIL: 1, PHONE: 1, ADDRESS: 1 });
+  assertEquals(redactor.restore(redacted), text);
+});
+
+Deno.test('keeps short numbers and years', () => {
+  const redactor = createRedactor([]);
+  const text = 'Slept 6 hours, ran 5 km in 2026.';
+  assertEquals(redactor.redact(text), text);
+});
+
+Deno.test('restores placeholders in nested values', () => {
+  const redactor = createRedactor(['Visited Ana today.']);
+  const redacted = redactor.redactValue({ summary: 'Visited Ana today.', tags: ['Ana'] });
+  assertEquals(redacted, { summary: 'Visited [PERSON_1] today.', tags: ['[PERSON_1]'] });
+
+  // Models sometimes drop the brackets
+  const restored = redactor.restore({ summary: 'Time with PERSON_1 helped.', tags: ['[PERSON_1]', '[PERSON_9]'] });
+  assertEquals(restored, { summary: 'Time with Ana helped.', tags: ['Ana', '[PERSON_9]'] });
+  assert(!JSON.stringify(redacted).includes('Ana'));
+});
@@ -0,0 +1,73 @@
+// tests/safety.test.ts
+//
+// _shared/safety.ts screening, without a server
+//
+// Run: deno test --allow-net --allow-env supabase/functions/tests/
+//
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { assessTexts } from '../_shared/safety.ts';
+
+function riskLevel(text: string): string {
+  return assessTexts([text]).riskLevel;
+}
+
+Deno.test('flags English crisis language unless negated', () => {
+  assertEquals(riskLevel('Some nights I want to die.'), 'high');
+  assertEquals(riskLevel('I would never hurt myself.'), 'none');
+  assertEquals(riskLevel('Felt hopeless again. I can\'t go on like this.'), 'elevated');
+});
+
+Deno.test('ignores negations that do not govern the phrase', () => {
+  for (const text of [
+    'Nobody knows I want to die.',
+    "I don't know why but I want to kill myself",
+    'I never told anyone that I hurt myself',
+    'No one would care if I overdosed'
+  ]) {
+    assertEquals(riskLevel(text), 'high', text);
+  }
+});
+
+Deno.test('honors negations that govern the phrase', () => {
+  for (const text of [
+    "I'm not suicidal.",
+    "I don't ever want to hurt myself.",
+    "I'm not going to kill myself."
+  ]) {
+    assertEquals(riskLevel(text), 'none', text);
+  }
+});
+
+Deno.test('flags Spanish, French and German crisis language', () => {
+  for (const text of [
+    'A veces quiero morir.',
+    'Me quiero matar.',
+    'Je veux mourir, je n’en peux plus.',
+    'Ich will nicht mehr leben.',
+    'Manchmal möchte ich mich umbringen.'
+  ]) {
+    assertEquals(riskLevel(text), 'high', text);
+  }
+  assertEquals(assessTexts(['Ayer volví a cortarme.']).categories, ['self_harm']);
+});
+
+Deno.test('does not flag negated Spanish, French and German phrases', () => {
+  for (const text of [
+    'No quiero morir, quiero vivir mejor.',
+    'Je ne veux pas mourir.',
+    'Je n’ai jamais voulu me faire du mal.',
+    'Nunca he querido hacerme daño.',
+    'Nie würde ich mich umbringen.',
+    'Quiero comer pizza y ver a mis amigos.'
+  ]) {
+    assertEquals(riskLevel(text), 'none', text);
+  }
+});
+
+Deno.test('localizes the message and resources', () => {
+  const result = assessTexts(['Me quiero matar.'], 'es-MX');
+  assertEquals(result.message?.startsWith('Parte de lo que escribiste'), true);
+  assertEquals(result.resources[0].name, 'Línea de la Vida');
+  assertEquals(result.resources.at(-1)?.url, 'https://findahelpline.com');
+});
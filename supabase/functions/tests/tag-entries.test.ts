@@ -0,0 +1,162 @@
+// tests/tag-entries.test.ts
+//
+// tag-entries handler against a fake Supabase server: webhook and backfill
+//
+// Run: deno test --allow-net --allow-env supabase/functions/tests/
+//
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handler } from '../tag-entries/handler.ts';
+import type { EntryRecord } from '../tag-entries/types.ts';
+import { SharedErrorCode } from '../_shared/types.ts';
+import { ALICE, handlerTests, startTestEnv, theme, THEMES } from './helpers.ts';
+import type { CallOptions } from './helpers.ts';
+
+const env = startTestEnv();
+
+const SLEEPLESS = 'Could not sleep again. Insomnia keeps me up and I feel tired and exhausted all day.';
+const ERRANDS = 'Went to the store, bought groceries and cooked pasta for dinner.';
+
+const SERVICE: CallOptions = { token: env.supabase.serviceRoleKey };
+
+// Every test starts with the themes catalog seeded and no entries
+const { call, test } = handlerTests(env, handler, {
+  callOptions: SERVICE,
+  seed: () => {
+    env.supabase.tables.themes = structuredClone(THEMES);
+    env.supabase.tables.entries = [];
+  }
+});
+
+function seedEntry(id: string, text: string, fields: Record<string, unknown> = {}): EntryRecord {
+  const row = {
+    id,
+    user_id: ALICE.id,
+    title: null,
+    text,
+    created_at: `2026-10-0${id.slice(-1)}T08:00:00+00:00`,
+    updated_at: '2026-10-18T08:00:00.123456+00:00',
+    tags: [],
+    tags_catalog_version: 0,
+    ...fields
+  };
+  env.supabase.tables.entries.push(row);
+  return structuredClone(row);
+}
+
+function webhook(type: string, record: EntryRecord | null, oldRecord: EntryRecord | null = null) {
+  return { type, table: 'entries', schema: 'public', record, old_record: oldRecord };
+}
+
+function storedEntry(id: string) {
+  return env.supabase.tables.entries.find(e => e.id === id)!;
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+test('rejects user tokens', async () => {
+  const result = await call({ mode: 'backfill' }, { token: ALICE.token });
+  assertEquals(result.status, 403);
+  assertEquals(result.body.code, SharedErrorCode.FORBIDDEN);
+});
+
+test('rejects payloads that are not an entries webhook or a backfill', async () => {
+  for (const body of [{}, { type: 'INSERT', table: 'user_profiles', record: {} }, webhook('INSERT', null)]) {
+    const result = await call(body);
+    assertEquals(result.status, 400, JSON.stringify(body));
+    assertEquals(result.body.code, 'INVALID_PAYLOAD');
+  }
+
+  const result = await call({ mode: 'backfill', limit: 0 });
+  assertEquals(result.status, 400);
+  assertEquals(result.body.code, 'INVALID_LIMIT');
+});
+
+// ============================================================
+// WEBHOOK
+// ============================================================
+
+test('tags a new entry with its best-matching themes', async () => {
+  const entry = seedEntry('entry-1', SLEEPLESS, { title: 'Rough night' });
+  const result = await call(webhook('INSERT', entry));
+  assertEquals(result.status, 200, JSON.stringify(result.body));
+  assertEquals(result.body.mode, 'webhook');
+  assertEquals(result.body.tagged[0].tags.sort(), ['sleep-rest', 'stress-energy']);
+
+  const stored = storedEntry('entry-1');
+  assertEquals(stored.tags.sort(), ['sleep-rest', 'stress-energy']);
+  assertEquals(stored.tags_catalog_version, 1);
+});
+
+test('leaves entries without a clear theme untagged', async () => {
+  const entry = seedEntry('entry-1', ERRANDS);
+  const result = await call(webhook('INSERT', entry));
+  assertEquals(result.body.tagged, [{ id: 'entry-1', tags: [] }]);
+  assertEquals(storedEntry('entry-1').tags_catalog_version, 1);
+});
+
+test('skips updates that leave the title and text alone', async () => {
+  const entry = seedEntry('entry-1', SLEEPLESS);
+  const result = await call(webhook('UPDATE', { ...entry }, entry));
+  assertEquals(result.status, 200);
+  assertEquals(result.body.skipped, 1);
+  assert(!env.supabase.calls.includes('patch:entries'));
+});
+
+test('does not overwrite tags for a newer edit', async () => {
+  const entry = seedEntry('entry-1', ERRANDS, { updated_at: '2026-10-18T09:00:00+00:00', tags: ['career-purpose'] });
+  const scored = { ...entry, text: SLEEPLESS, updated_at: '2026-10-18T08:00:00+00:00' };
+  const result = await call(webhook('UPDATE', scored, entry));
+  assertEquals(result.body.tagged, []);
+  assertEquals(result.body.skipped, 1);
+  assertEquals(storedEntry('entry-1').tags, ['career-purpose']);
+});
+
+test('ignores deletes', async () => {
+  const entry = seedEntry('entry-1', SLEEPLESS);
+  const result = await call(webhook('DELETE', null, entry));
+  assertEquals(result.status, 200);
+  assertEquals(result.body.skipped, 1);
+});
+
+// ============================================================
+// BACKFILL
+// ============================================================
+
+test('backfills untagged entries in batches, oldest first', async () => {
+  seedEntry('entry-1', SLEEPLESS);
+  seedEntry('entry-2', 'My partner and my family make me feel less lonely.');
+  seedEntry('entry-3', ERRANDS, { tags_catalog_version: 1 });
+
+  const first = await call({ mode: 'backfill', limit: 1 });
+  assertEquals(first.status, 200, JSON.stringify(first.body));
+  assertEquals(first.body.tagged.map((e: { id: string }) => e.id), ['entry-1']);
+  assertEquals(first.body.hasMore, true);
+
+  const second = await call({ mode: 'backfill', limit: 1 });
+  assertEquals(second.body.tagged, [{ id: 'entry-2', tags: ['relationships-connection'] }]);
+
+  const third = await call({ mode: 'backfill', limit: 1 });
+  assertEquals(third.body.tagged, []);
+  assertEquals(third.body.hasMore, false);
+});
+
+test('re-tags entries after a catalog change', async () => {
+  Deno.env.set('THEMES_VERSION_CHECK_SECONDS', '0');
+  try {
+    seedEntry('entry-1', ERRANDS, { tags_catalog_version: 1 });
+    assertEquals((await call({ mode: 'backfill' })).body.tagged, []);
+
+    env.supabase.tables.themes.push(theme('food-nourishment', 'wellness', ['groceries', 'cooked', 'dinner', 'pasta']));
+    env.supabase.tables.theme_catalog_state = [{ id: true, version: 2 }];
+
+    const result = await call({ mode: 'backfill' });
+    assertEquals(result.body.catalogVersion, 2);
+    assertEquals(result.body.tagged, [{ id: 'entry-1', tags: ['food-nourishment'] }]);
+    assertEquals(storedEntry('entry-1').tags_catalog_version, 2);
+  } finally {
+    Deno.env.delete('THEMES_VERSION_CHECK_SECONDS');
+  }
+});
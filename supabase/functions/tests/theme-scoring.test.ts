@@ -0,0 +1,51 @@
+// tests/theme-scoring.test.ts
+//
+// _shared/theme-scoring.ts scorer, without a server
+//
+// Run: deno test --allow-net --allow-env supabase/functions/tests/
+//
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { scoreThemes, tokenize } from '../_shared/theme-scoring.ts';
+import type { Theme } from '../_shared/themes.ts';
+
+function theme(name: string, keywords: string[]): Theme {
+  return { name, title: name, summary: name, keywords, emoji: '✨', category: 'growth', translations: {} };
+}
+
+// Hyphenated keywords from the seeded catalog (20250119000001_create_themes_table.sql)
+const THEMES: Theme[] = [
+  theme('confidence-mindset', ['confidence', 'self-esteem', 'insecure', 'doubt']),
+  theme('self-compassion', ['self-compassion', 'kind', 'harsh', 'self-care']),
+  theme('career-purpose', ['work', 'job', 'career', 'purpose'])
+];
+
+function rawScores(text: string): Record<string, number> {
+  return Object.fromEntries(scoreThemes(text, THEMES, 'en').map(t => [t.theme.name, t.rawScore]));
+}
+
+Deno.test('keeps hyphenated words as one token', () => {
+  const tokens = tokenize('My self-esteem feels low', 'en');
+  assertEquals(tokens.map(t => t.text), ['my', 'self-esteem', 'feels', 'low']);
+  assertEquals(tokens[1].parts.map(p => p.text), ['self', 'esteem']);
+});
+
+Deno.test('matches hyphenated keywords', () => {
+  const scores = rawScores('I struggle with self-esteem and I forget self-care.');
+  assert(scores['confidence-mindset'] > 0);
+  assert(scores['self-compassion'] > 0);
+  assertEquals(scores['career-purpose'], 0);
+
+  const [confidence] = scoreThemes('My self-esteem is low.', THEMES, 'en');
+  assertEquals(confidence.matchedKeywords, ['self-esteem']);
+});
+
+Deno.test('matches other keywords by part of a hyphenated word', () => {
+  const scores = rawScores('Job-hunting again this month.');
+  assert(scores['career-purpose'] > 0);
+});
+
+Deno.test('does not match hyphenated keywords by one part', () => {
+  const scores = rawScores('I taught myself to care for the garden.');
+  assertEquals(scores['self-compassion'], 0);
+});
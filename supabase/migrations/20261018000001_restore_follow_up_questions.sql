@@ -0,0 +1,209 @@
+-- ============================================================
+-- Migration: Restore follow_up_questions table
+-- Date: 2026-10-18
+-- Purpose: Bring back storage for the generate-follow-up edge function
+-- ============================================================
+
+-- The table was dropped in 20251023000000_cleanup_deprecated_schema.sql
+-- while the function that fills it did not exist yet. generate-follow-up
+-- now writes its weekly TF-IDF questions here again.
+--
+-- Changes compared to the original 20250118000000 definition:
+-- - week_number/year follow ISO-8601 weeks (matches the edge function)
+-- - Unique index prevents the same question twice in one week
+
+-- ============================================================
+-- 1. CREATE TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS follow_up_questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Question content
+  question_text text NOT NULL,
+  relevance_score float NOT NULL, -- TF-IDF cosine similarity score
+
+  -- Generation metadata
+  generated_at timestamp with time zone NOT NULL DEFAULT now(),
+  week_number int NOT NULL, -- ISO week of year (1-53)
+  year int NOT NULL, -- ISO week-numbering year
+
+  -- Completion tracking
+  is_completed boolean NOT NULL DEFAULT false,
+  completed_at timestamp with time zone,
+  entry_id uuid REFERENCES entries(id) ON DELETE SET NULL, -- Link to answer entry
+
+  -- Timestamps
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- ============================================================
+-- 2. CONSTRAINTS
+-- ============================================================
+
+ALTER TABLE follow_up_questions
+  DROP CONSTRAINT IF EXISTS week_number_valid;
+
+ALTER TABLE follow_up_questions
+  ADD CONSTRAINT week_number_valid
+    CHECK (week_number BETWEEN 1 AND 53);
+
+ALTER TABLE follow_up_questions
+  DROP CONSTRAINT IF EXISTS relevance_score_valid;
+
+ALTER TABLE follow_up_questions
+  ADD CONSTRAINT relevance_score_valid
+    CHECK (relevance_score >= 0 AND relevance_score <= 1);
+
+-- ============================================================
+-- 3. CREATE INDEXES
+-- ============================================================
+
+-- Index for fetching user's questions
+CREATE INDEX IF NOT EXISTS idx_follow_up_questions_user_id ON follow_up_questions(user_id);
+
+-- Index for fetching current week's questions
+CREATE INDEX IF NOT EXISTS idx_follow_up_questions_week ON follow_up_questions(user_id, year, week_number);
+
+-- Index for fetching incomplete questions
+CREATE INDEX IF NOT EXISTS idx_follow_up_questions_incomplete ON follow_up_questions(user_id, is_completed) WHERE is_completed = false;
+
+-- Same question can only be stored once per user per week
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follow_up_questions_unique_week
+  ON follow_up_questions(user_id, year, week_number, question_text);
+
+-- ============================================================
+-- 4. ROW LEVEL SECURITY (RLS)
+-- ============================================================
+
+ALTER TABLE follow_up_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own follow-up questions" ON follow_up_questions;
+DROP POLICY IF EXISTS "Users can update their own follow-up questions" ON follow_up_questions;
+DROP POLICY IF EXISTS "Users can insert their own follow-up questions" ON follow_up_questions;
+DROP POLICY IF EXISTS "Service role can insert follow-up questions" ON follow_up_questions;
+
+-- Users can only see their own questions
+CREATE POLICY "Users can view their own follow-up questions"
+  ON follow_up_questions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can update completion status
+CREATE POLICY "Users can update their own follow-up questions"
+  ON follow_up_questions
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Edge function inserts with the caller's JWT (service role bypasses RLS)
+CREATE POLICY "Users can insert their own follow-up questions"
+  ON follow_up_questions
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- ============================================================
+-- 5. UPDATED_AT TRIGGER
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION update_follow_up_questions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_follow_up_questions_updated_at ON follow_up_questions;
+CREATE TRIGGER trigger_update_follow_up_questions_updated_at
+  BEFORE UPDATE ON follow_up_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_follow_up_questions_updated_at();
+
+-- ============================================================
+-- 6. HELPER FUNCTION: Get Current Week's Questions
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_current_week_questions(p_user_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  relevance_score float,
+  is_completed boolean,
+  completed_at timestamp with time zone,
+  generated_at timestamp with time zone
+) AS $$
+DECLARE
+  current_week int := EXTRACT(WEEK FROM now());      -- ISO week
+  current_year int := EXTRACT(ISOYEAR FROM now());   -- ISO week-numbering year
+BEGIN
+  RETURN QUERY
+  SELECT
+    fq.id,
+    fq.question_text,
+    fq.relevance_score,
+    fq.is_completed,
+    fq.completed_at,
+    fq.generated_at
+  FROM follow_up_questions fq
+  WHERE fq.user_id = p_user_id
+    AND fq.user_id = auth.uid() -- Security check
+    AND fq.year = current_year
+    AND fq.week_number = current_week
+  ORDER BY fq.relevance_score DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- 7. HELPER FUNCTION: Mark Question as Completed
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION complete_follow_up_question(
+  p_question_id uuid,
+  p_entry_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE follow_up_questions
+  SET
+    is_completed = true,
+    completed_at = now(),
+    entry_id = p_entry_id,
+    updated_at = now()
+  WHERE id = p_question_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE WARNING 'Question % NOT updated - user_id mismatch or question not found', p_question_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_current_week_questions(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_follow_up_question(uuid, uuid) TO authenticated;
+
+-- ============================================================
+-- 8. ADD HELPFUL COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE follow_up_questions IS 'Weekly follow-up questions generated by the generate-follow-up edge function (TF-IDF ranked)';
+COMMENT ON COLUMN follow_up_questions.relevance_score IS 'Cosine similarity between the question and recent entries (0-1)';
+COMMENT ON COLUMN follow_up_questions.week_number IS 'ISO-8601 week number the question was generated for';
+COMMENT ON FUNCTION complete_follow_up_question IS 'Mark a follow-up question as completed by the authenticated user';
+
+-- ============================================================
+-- 9. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ follow_up_questions table restored';
+  RAISE NOTICE '   - ISO week numbering (week_number 1-53, ISO year)';
+  RAISE NOTICE '   - Unique (user_id, year, week_number, question_text)';
+  RAISE NOTICE '   - Helper functions: get_current_week_questions, complete_follow_up_question';
+END $$;
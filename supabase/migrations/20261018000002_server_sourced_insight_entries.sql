@@ -0,0 +1,80 @@
+-- ============================================================
+-- Migration: Server-sourced entries for generate-insights
+-- Date: 2026-10-18
+-- Purpose: Let the edge function load entries itself instead of
+--          trusting entries uploaded by the client
+-- ============================================================
+
+-- ============================================================
+-- 1. RESTORE entries.is_archived
+-- ============================================================
+
+-- Dropped in 20251023000000_cleanup_deprecated_schema.sql as unused.
+-- Archived entries stay in the journal but are excluded from insights.
+ALTER TABLE entries
+  ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN entries.is_archived IS 'Hidden from insights generation when true';
+
+-- ============================================================
+-- 2. RECREATE get_entries_by_date_range
+-- ============================================================
+
+-- Changes:
+-- - SECURITY INVOKER: RLS applies, so callers only ever see their own
+--   entries (the old SECURITY DEFINER version returned any user's entries
+--   for any p_user_id)
+-- - Archived entries are excluded
+-- - Optional p_limit for "latest N" selections (most recent first)
+
+DROP FUNCTION IF EXISTS get_entries_by_date_range(uuid, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION get_entries_by_date_range(
+  p_user_id uuid,
+  p_start_date timestamptz,
+  p_end_date timestamptz,
+  p_limit int DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  text text,
+  created_at timestamptz,
+  word_count int
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.title,
+    e.text,
+    e.created_at,
+    array_length(regexp_split_to_array(trim(e.text), '\s+'), 1) AS word_count
+  FROM entries e
+  WHERE e.user_id = p_user_id
+    AND e.is_archived = false
+    AND e.created_at >= p_start_date
+    AND e.created_at < p_end_date
+  ORDER BY e.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_entries_by_date_range(uuid, timestamptz, timestamptz, int) TO authenticated;
+
+COMMENT ON FUNCTION get_entries_by_date_range IS 'Non-archived entries in [p_start_date, p_end_date), newest first; RLS-scoped to the caller';
+
+-- ============================================================
+-- 3. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Server-sourced insight entries enabled';
+  RAISE NOTICE '   - entries.is_archived restored (default false)';
+  RAISE NOTICE '   - get_entries_by_date_range: SECURITY INVOKER, excludes archived, optional limit';
+END $$;
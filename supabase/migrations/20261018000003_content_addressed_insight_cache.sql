@@ -0,0 +1,141 @@
+-- ============================================================
+-- Migration: Content-Addressed Insights Cache
+-- Date: 2026-10-18
+-- Purpose: Key cached insights on the exact set of analyzed entries
+-- ============================================================
+
+-- PROBLEM:
+-- get_cached_insight returns the latest theme_summary row no matter which
+-- entries were sent, and auto-invalidation was disabled in
+-- 20251024000002. Clients had to guess when to pass force_refresh.
+--
+-- SOLUTION:
+-- The edge function stores a snapshot of the analyzed entries in the
+-- existing entries_snapshot column:
+--   { "hash": "<sha256 of the entry set>", "entry_hashes": ["<sha256>", ...] }
+-- An identical entry set hits the cache; any added, removed or edited
+-- entry changes the hash and misses automatically.
+
+-- ============================================================
+-- 1. INDEX ON SNAPSHOT HASH
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_user_insights_entries_hash
+  ON user_insights(user_id, insight_type, (entries_snapshot->>'hash'))
+  WHERE is_valid = true AND entries_snapshot IS NOT NULL;
+
+-- ============================================================
+-- 2. RECREATE get_cached_insight WITH HASH LOOKUP
+-- ============================================================
+
+DROP FUNCTION IF EXISTS get_cached_insight(uuid, text, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION get_cached_insight(
+  p_user_id uuid,
+  p_insight_type text,
+  p_date_start timestamptz DEFAULT NULL,
+  p_date_end timestamptz DEFAULT NULL,
+  p_entries_hash text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content jsonb,
+  generated_at timestamptz,
+  entries_analyzed_count int,
+  expires_at timestamptz,
+  entries_snapshot jsonb
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ui.id,
+    ui.content,
+    ui.generated_at,
+    ui.entries_analyzed_count,
+    ui.expires_at,
+    ui.entries_snapshot
+  FROM user_insights ui
+  WHERE ui.user_id = p_user_id
+    AND ui.insight_type = p_insight_type
+    AND ui.is_valid = true
+    AND (ui.expires_at IS NULL OR ui.expires_at > now())
+    AND (p_date_start IS NULL OR ui.date_range_start = p_date_start)
+    AND (p_date_end IS NULL OR ui.date_range_end = p_date_end)
+    AND (p_entries_hash IS NULL OR ui.entries_snapshot->>'hash' = p_entries_hash)
+  ORDER BY ui.generated_at DESC
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================
+-- 3. RECREATE save_insight_cache WITH SNAPSHOT
+-- ============================================================
+
+DROP FUNCTION IF EXISTS save_insight_cache(uuid, text, jsonb, int, timestamptz, timestamptz, int);
+
+CREATE OR REPLACE FUNCTION save_insight_cache(
+  p_user_id uuid,
+  p_insight_type text,
+  p_content jsonb,
+  p_entries_count int,
+  p_date_start timestamptz DEFAULT NULL,
+  p_date_end timestamptz DEFAULT NULL,
+  p_ttl_hours int DEFAULT NULL,
+  p_entries_snapshot jsonb DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  new_id uuid;
+  expires timestamptz;
+BEGIN
+  -- Calculate expiry if TTL provided
+  IF p_ttl_hours IS NOT NULL THEN
+    expires := now() + (p_ttl_hours || ' hours')::interval;
+  END IF;
+
+  INSERT INTO user_insights (
+    user_id,
+    insight_type,
+    content,
+    entries_analyzed_count,
+    entries_snapshot,
+    date_range_start,
+    date_range_end,
+    expires_at
+  ) VALUES (
+    p_user_id,
+    p_insight_type,
+    p_content,
+    p_entries_count,
+    p_entries_snapshot,
+    p_date_start,
+    p_date_end,
+    expires
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================
+-- 4. COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN user_insights.entries_snapshot IS
+'{ hash, entry_hashes } of the analyzed entries; the cache key for content-addressed lookups';
+
+COMMENT ON FUNCTION get_cached_insight IS
+'Returns valid cached insight for user; p_entries_hash restricts to an exact entry set';
+
+-- ============================================================
+-- 5. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Content-addressed insights cache enabled';
+  RAISE NOTICE '   - get_cached_insight(uuid, text, timestamptz, timestamptz, text)';
+  RAISE NOTICE '   - save_insight_cache(..., p_entries_snapshot jsonb)';
+  RAISE NOTICE '   - Index: idx_user_insights_entries_hash';
+END $$;
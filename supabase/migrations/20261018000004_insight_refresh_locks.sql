@@ -0,0 +1,113 @@
+-- ============================================================
+-- Migration: Insight Refresh Locks
+-- Date: 2026-10-18
+-- Purpose: Per-user lock for stale-while-revalidate background refreshes
+-- ============================================================
+
+-- When a cached insight is stale, generate-insights returns it right away
+-- and regenerates in the background. Several requests (app relaunch,
+-- multiple devices, retries) can hit the same stale cache at once; this
+-- lock makes sure only one of them calls the LLM.
+--
+-- Locks expire on their own (locked_until), so a crashed refresh never
+-- blocks the user for longer than the TTL.
+
+-- ============================================================
+-- 1. CREATE LOCK TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS insight_refresh_locks (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  insight_type text NOT NULL,
+  lock_id uuid NOT NULL,
+  locked_until timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (user_id, insight_type)
+);
+
+-- Only reachable through the functions below
+ALTER TABLE insight_refresh_locks ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 2. ACQUIRE
+-- ============================================================
+
+-- Returns a lock id when acquired, NULL when another refresh holds it
+CREATE OR REPLACE FUNCTION try_acquire_insight_refresh_lock(
+  p_user_id uuid,
+  p_insight_type text,
+  p_ttl_seconds int DEFAULT 120
+)
+RETURNS uuid AS $$
+DECLARE
+  new_lock_id uuid := gen_random_uuid();
+  acquired_id uuid;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot lock insights for another user';
+  END IF;
+
+  INSERT INTO insight_refresh_locks (user_id, insight_type, lock_id, locked_until)
+  VALUES (p_user_id, p_insight_type, new_lock_id, now() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (user_id, insight_type) DO UPDATE
+    SET lock_id = EXCLUDED.lock_id,
+        locked_until = EXCLUDED.locked_until,
+        created_at = now()
+    WHERE insight_refresh_locks.locked_until < now()
+  RETURNING lock_id INTO acquired_id;
+
+  RETURN acquired_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- 3. RELEASE
+-- ============================================================
+
+-- Only the holder can release; an expired lock taken over by another
+-- refresh is left alone
+CREATE OR REPLACE FUNCTION release_insight_refresh_lock(
+  p_user_id uuid,
+  p_insight_type text,
+  p_lock_id uuid
+)
+RETURNS boolean AS $$
+DECLARE
+  rows_deleted int;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot unlock insights for another user';
+  END IF;
+
+  DELETE FROM insight_refresh_locks
+  WHERE user_id = p_user_id
+    AND insight_type = p_insight_type
+    AND lock_id = p_lock_id;
+
+  GET DIAGNOSTICS rows_deleted = ROW_COUNT;
+  RETURN rows_deleted > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION try_acquire_insight_refresh_lock(uuid, text, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_insight_refresh_lock(uuid, text, uuid) TO authenticated;
+
+-- ============================================================
+-- 4. COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE insight_refresh_locks IS 'Per-user locks so only one background insight refresh runs at a time';
+COMMENT ON FUNCTION try_acquire_insight_refresh_lock IS 'Returns a lock id if acquired, NULL if a refresh is already running';
+COMMENT ON FUNCTION release_insight_refresh_lock IS 'Releases a refresh lock held by p_lock_id';
+
+-- ============================================================
+-- 5. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Insight refresh locks created';
+  RAISE NOTICE '   - Table: insight_refresh_locks';
+  RAISE NOTICE '   - Functions: try_acquire_insight_refresh_lock, release_insight_refresh_lock';
+END $$;
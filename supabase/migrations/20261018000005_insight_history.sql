@@ -0,0 +1,74 @@
+-- ============================================================
+-- Migration: Weekly/Monthly Insight History
+-- Date: 2026-10-18
+-- Purpose: List past weekly recaps and monthly insights for the app
+-- ============================================================
+
+-- generate-insights now produces 'weekly_recap' and 'monthly_insights'
+-- in addition to 'theme_summary'. Each is cached per calendar window
+-- (date_range_start/date_range_end = ISO week or calendar month, UTC),
+-- so the latest row per window is that week's/month's insight.
+
+-- ============================================================
+-- 1. HISTORY FUNCTION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_insight_history(
+  p_insight_type text,
+  p_limit int DEFAULT 12
+)
+RETURNS TABLE (
+  id uuid,
+  content jsonb,
+  generated_at timestamptz,
+  entries_analyzed_count int,
+  date_range_start timestamptz,
+  date_range_end timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    latest.id,
+    latest.content,
+    latest.generated_at,
+    latest.entries_analyzed_count,
+    latest.date_range_start,
+    latest.date_range_end
+  FROM (
+    SELECT DISTINCT ON (ui.date_range_start)
+      ui.id,
+      ui.content,
+      ui.generated_at,
+      ui.entries_analyzed_count,
+      ui.date_range_start,
+      ui.date_range_end
+    FROM user_insights ui
+    WHERE ui.user_id = auth.uid()
+      AND ui.insight_type = p_insight_type
+      AND ui.is_valid = true
+      AND ui.date_range_start IS NOT NULL
+      AND (ui.expires_at IS NULL OR ui.expires_at > now())
+    ORDER BY ui.date_range_start, ui.generated_at DESC
+  ) latest
+  ORDER BY latest.date_range_start DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_insight_history(text, int) TO authenticated;
+
+COMMENT ON FUNCTION get_insight_history IS
+'Latest insight per calendar window (newest window first) for weekly_recap / monthly_insights';
+
+-- ============================================================
+-- 2. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Insight history enabled';
+  RAISE NOTICE '   - get_insight_history(p_insight_type, p_limit)';
+  RAISE NOTICE '   - weekly_recap TTL: 90 days, monthly_insights TTL: 365 days';
+END $$;
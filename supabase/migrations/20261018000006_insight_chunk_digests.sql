@@ -0,0 +1,99 @@
+-- ============================================================
+-- Migration: Insight Chunk Digests
+-- Date: 2026-10-18
+-- Purpose: Cache per-chunk digests for map-reduce insights over full history
+-- ============================================================
+
+-- generate-insights summarizes long histories in two steps: each chunk of
+-- entries (one ISO week, split when large) becomes a digest, then the
+-- final insight is generated from the digests. Digests are keyed on a hash
+-- of the chunk's entries, so unchanged weeks are never summarized twice.
+
+-- ============================================================
+-- 1. CREATE TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS insight_chunk_digests (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chunk_hash text NOT NULL,                 -- '<digest version>:<sha256 of entry hashes>'
+  digest jsonb NOT NULL,
+  entry_count int NOT NULL,
+  model_version text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (user_id, chunk_hash),
+  CONSTRAINT digest_is_object CHECK (jsonb_typeof(digest) = 'object'),
+  CONSTRAINT digest_entry_count_positive CHECK (entry_count > 0)
+);
+
+-- Index for cleanup
+CREATE INDEX IF NOT EXISTS idx_insight_chunk_digests_created
+  ON insight_chunk_digests(created_at);
+
+-- ============================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE insight_chunk_digests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own digests" ON insight_chunk_digests;
+DROP POLICY IF EXISTS "Users can insert own digests" ON insight_chunk_digests;
+DROP POLICY IF EXISTS "Users can update own digests" ON insight_chunk_digests;
+DROP POLICY IF EXISTS "Users can delete own digests" ON insight_chunk_digests;
+
+CREATE POLICY "Users can view own digests"
+  ON insight_chunk_digests FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own digests"
+  ON insight_chunk_digests FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own digests"
+  ON insight_chunk_digests FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own digests"
+  ON insight_chunk_digests FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================
+-- 3. CLEANUP FUNCTION (for cron job)
+-- ============================================================
+
+-- Digests of edited/deleted weeks are never read again; old ones are
+-- cheap to regenerate if they are still needed
+CREATE OR REPLACE FUNCTION cleanup_old_chunk_digests(p_max_age_days int DEFAULT 180)
+RETURNS int AS $$
+DECLARE
+  rows_deleted int;
+BEGIN
+  DELETE FROM insight_chunk_digests
+  WHERE created_at < now() - make_interval(days => p_max_age_days);
+
+  GET DIAGNOSTICS rows_deleted = ROW_COUNT;
+  RETURN rows_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deletes every user's digests: cron / service role only
+REVOKE EXECUTE ON FUNCTION cleanup_old_chunk_digests(int) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_old_chunk_digests(int) TO service_role;
+
+-- ============================================================
+-- 4. COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE insight_chunk_digests IS 'Map-step digests for full-history insights, keyed on a hash of the chunk entries';
+COMMENT ON COLUMN insight_chunk_digests.chunk_hash IS 'Digest version + SHA-256 of the chunk''s entry hashes';
+
+-- ============================================================
+-- 5. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Insight chunk digests table created';
+  RAISE NOTICE '   - Table: insight_chunk_digests (RLS: own rows)';
+  RAISE NOTICE '   - Cleanup: cleanup_old_chunk_digests(p_max_age_days)';
+END $$;
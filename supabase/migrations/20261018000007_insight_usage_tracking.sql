@@ -0,0 +1,183 @@
+-- ============================================================
+-- Migration: Insight Usage Tracking
+-- Date: 2026-10-18
+-- Purpose: Record real token usage, latency and model per generation,
+--          and summarize it per user for a monthly token budget
+-- ============================================================
+
+-- user_insights has had generation_time_ms, model_version, prompt_tokens
+-- and completion_tokens since 20251023000003, but nothing filled them in.
+-- save_insight_cache now takes them as parameters.
+--
+-- Cached rows expire (theme_summary after 7 days) and are deleted by
+-- cleanup_expired_insights, so usage is also appended to a separate
+-- insight_usage_log that the monthly summary reads from.
+
+-- ============================================================
+-- 1. USAGE LOG
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS insight_usage_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  insight_id uuid REFERENCES user_insights(id) ON DELETE SET NULL,
+  insight_type text NOT NULL,
+  model_version text,
+  prompt_tokens int NOT NULL DEFAULT 0 CHECK (prompt_tokens >= 0),
+  completion_tokens int NOT NULL DEFAULT 0 CHECK (completion_tokens >= 0),
+  generation_time_ms int CHECK (generation_time_ms IS NULL OR generation_time_ms >= 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_insight_usage_log_user_created
+  ON insight_usage_log(user_id, created_at DESC);
+
+ALTER TABLE insight_usage_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own usage" ON insight_usage_log;
+
+-- Read-only for users; rows are written by save_insight_cache
+CREATE POLICY "Users can view own usage"
+  ON insight_usage_log FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================================
+-- 2. RECREATE save_insight_cache WITH USAGE
+-- ============================================================
+
+DROP FUNCTION IF EXISTS save_insight_cache(uuid, text, jsonb, int, timestamptz, timestamptz, int, jsonb);
+
+CREATE OR REPLACE FUNCTION save_insight_cache(
+  p_user_id uuid,
+  p_insight_type text,
+  p_content jsonb,
+  p_entries_count int,
+  p_date_start timestamptz DEFAULT NULL,
+  p_date_end timestamptz DEFAULT NULL,
+  p_ttl_hours int DEFAULT NULL,
+  p_entries_snapshot jsonb DEFAULT NULL,
+  p_generation_time_ms int DEFAULT NULL,
+  p_model_version text DEFAULT NULL,
+  p_prompt_tokens int DEFAULT NULL,
+  p_completion_tokens int DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  new_id uuid;
+  expires timestamptz;
+BEGIN
+  -- Calculate expiry if TTL provided
+  IF p_ttl_hours IS NOT NULL THEN
+    expires := now() + (p_ttl_hours || ' hours')::interval;
+  END IF;
+
+  INSERT INTO user_insights (
+    user_id,
+    insight_type,
+    content,
+    entries_analyzed_count,
+    entries_snapshot,
+    date_range_start,
+    date_range_end,
+    expires_at,
+    generation_time_ms,
+    model_version,
+    prompt_tokens,
+    completion_tokens
+  ) VALUES (
+    p_user_id,
+    p_insight_type,
+    p_content,
+    p_entries_count,
+    p_entries_snapshot,
+    p_date_start,
+    p_date_end,
+    expires,
+    p_generation_time_ms,
+    p_model_version,
+    p_prompt_tokens,
+    p_completion_tokens
+  )
+  RETURNING id INTO new_id;
+
+  IF p_prompt_tokens IS NOT NULL OR p_completion_tokens IS NOT NULL THEN
+    INSERT INTO insight_usage_log (
+      user_id,
+      insight_id,
+      insight_type,
+      model_version,
+      prompt_tokens,
+      completion_tokens,
+      generation_time_ms
+    ) VALUES (
+      p_user_id,
+      new_id,
+      p_insight_type,
+      p_model_version,
+      COALESCE(p_prompt_tokens, 0),
+      COALESCE(p_completion_tokens, 0),
+      p_generation_time_ms
+    );
+  END IF;
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================
+-- 3. USAGE SUMMARY
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_insight_usage_summary(
+  p_user_id uuid,
+  p_since timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  generations int,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  total_tokens bigint,
+  period_start timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT COALESCE(p_since, date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') AS since
+  )
+  SELECT
+    COUNT(l.id)::int AS generations,
+    COALESCE(SUM(l.prompt_tokens), 0)::bigint AS prompt_tokens,
+    COALESCE(SUM(l.completion_tokens), 0)::bigint AS completion_tokens,
+    COALESCE(SUM(l.prompt_tokens + l.completion_tokens), 0)::bigint AS total_tokens,
+    b.since AS period_start
+  FROM bounds b
+  LEFT JOIN insight_usage_log l
+    ON l.user_id = p_user_id
+   AND l.created_at >= b.since
+  GROUP BY b.since;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_insight_usage_summary(uuid, timestamptz) TO authenticated;
+
+-- ============================================================
+-- 4. COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE insight_usage_log IS 'Token usage per insight generation; survives cache expiry for monthly budgets';
+COMMENT ON FUNCTION get_insight_usage_summary IS 'Token usage since p_since (default: start of the current UTC month); RLS-scoped';
+COMMENT ON COLUMN user_insights.model_version IS 'Model that served the generation (as reported by the provider)';
+
+-- ============================================================
+-- 5. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Insight usage tracking enabled';
+  RAISE NOTICE '   - save_insight_cache records generation_time_ms, model_version, prompt/completion tokens';
+  RAISE NOTICE '   - Table: insight_usage_log';
+  RAISE NOTICE '   - get_insight_usage_summary(p_user_id, p_since)';
+END $$;
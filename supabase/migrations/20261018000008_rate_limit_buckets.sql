@@ -0,0 +1,133 @@
+-- ============================================================
+-- Migration: Rate Limit Buckets
+-- Date: 2026-10-18
+-- Purpose: Token-bucket rate limiting shared by all edge functions
+-- ============================================================
+
+-- Edge functions run on many short-lived instances, so in-memory counters
+-- don't hold. Bucket state lives here and is updated atomically by
+-- consume_rate_limit(), called from functions/_shared/rate-limit.ts with
+-- the service role.
+--
+-- Keys look like '<function>:<scope>:<identifier>', e.g.
+-- 'generate-insights:user:<uuid>' or 'new-user-insights:ip:203.0.113.7'.
+
+-- ============================================================
+-- 1. CREATE TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket_key text PRIMARY KEY,
+  tokens double precision NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Index for cleanup
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated
+  ON rate_limit_buckets(updated_at);
+
+-- No policies: only the service role (which bypasses RLS) may touch buckets
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 2. CONSUME FUNCTION
+-- ============================================================
+
+-- Refills the bucket for the time since its last update, then takes
+-- p_cost tokens if available. The row lock serializes concurrent requests
+-- for the same key.
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_key text,
+  p_capacity int,
+  p_refill_per_second double precision,
+  p_cost int DEFAULT 1
+)
+RETURNS TABLE (
+  allowed boolean,
+  remaining double precision,
+  retry_after_seconds int
+) AS $$
+DECLARE
+  v_tokens double precision;
+  v_updated timestamptz;
+  v_now timestamptz := clock_timestamp();
+BEGIN
+  IF p_capacity <= 0 OR p_refill_per_second <= 0 OR p_cost <= 0 THEN
+    RAISE EXCEPTION 'Invalid rate limit parameters';
+  END IF;
+
+  -- New buckets start full
+  INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at)
+  VALUES (p_key, p_capacity, v_now)
+  ON CONFLICT (bucket_key) DO NOTHING;
+
+  SELECT b.tokens, b.updated_at INTO v_tokens, v_updated
+  FROM rate_limit_buckets b
+  WHERE b.bucket_key = p_key
+  FOR UPDATE;
+
+  v_tokens := LEAST(
+    p_capacity::double precision,
+    v_tokens + GREATEST(0, EXTRACT(EPOCH FROM (v_now - v_updated))) * p_refill_per_second
+  );
+
+  IF v_tokens >= p_cost THEN
+    v_tokens := v_tokens - p_cost;
+    allowed := true;
+    retry_after_seconds := 0;
+  ELSE
+    allowed := false;
+    retry_after_seconds := CEIL((p_cost - v_tokens) / p_refill_per_second)::int;
+  END IF;
+
+  UPDATE rate_limit_buckets
+  SET tokens = v_tokens,
+      updated_at = v_now
+  WHERE bucket_key = p_key;
+
+  remaining := v_tokens;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION consume_rate_limit(text, int, double precision, int) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_rate_limit(text, int, double precision, int) TO service_role;
+
+-- ============================================================
+-- 3. CLEANUP FUNCTION (for cron job)
+-- ============================================================
+
+-- A bucket untouched for a day is full again; deleting it changes nothing
+CREATE OR REPLACE FUNCTION cleanup_rate_limit_buckets()
+RETURNS int AS $$
+DECLARE
+  rows_deleted int;
+BEGIN
+  DELETE FROM rate_limit_buckets
+  WHERE updated_at < now() - interval '1 day';
+
+  GET DIAGNOSTICS rows_deleted = ROW_COUNT;
+  RETURN rows_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION cleanup_rate_limit_buckets() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 4. COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE rate_limit_buckets IS 'Token buckets for edge function rate limiting (service role only)';
+COMMENT ON FUNCTION consume_rate_limit IS 'Atomically refill and take tokens from a bucket; returns allowed, remaining, retry_after_seconds';
+
+-- ============================================================
+-- 5. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Rate limit buckets created';
+  RAISE NOTICE '   - Table: rate_limit_buckets (service role only)';
+  RAISE NOTICE '   - consume_rate_limit(p_key, p_capacity, p_refill_per_second, p_cost)';
+  RAISE NOTICE '   - cleanup_rate_limit_buckets()';
+END $$;
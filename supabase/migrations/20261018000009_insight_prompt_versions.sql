@@ -0,0 +1,230 @@
+-- ============================================================
+-- Migration: Insight Prompt Versions
+-- Date: 2026-10-18
+-- Purpose: Record which prompt version produced each insight, and how
+--          often each version fails validation, for A/B comparison
+-- ============================================================
+
+-- generate-insights assigns each user a prompt version (prompts.ts) by a
+-- hash of their ID. The version is saved with every insight and usage row.
+-- Generations whose response never validates produce no insight, so they
+-- are logged to insight_usage_log with succeeded = false.
+
+-- ============================================================
+-- 1. COLUMNS
+-- ============================================================
+
+ALTER TABLE user_insights
+  ADD COLUMN IF NOT EXISTS prompt_version text,
+  ADD COLUMN IF NOT EXISTS repair_attempts int
+    CHECK (repair_attempts IS NULL OR repair_attempts >= 0);
+
+ALTER TABLE insight_usage_log
+  ADD COLUMN IF NOT EXISTS prompt_version text,
+  ADD COLUMN IF NOT EXISTS repair_attempts int NOT NULL DEFAULT 0
+    CHECK (repair_attempts >= 0),
+  ADD COLUMN IF NOT EXISTS succeeded boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_insight_usage_log_prompt_version
+  ON insight_usage_log(prompt_version, created_at DESC);
+
+-- ============================================================
+-- 2. RECREATE save_insight_cache WITH PROMPT VERSION
+-- ============================================================
+
+DROP FUNCTION IF EXISTS save_insight_cache(uuid, text, jsonb, int, timestamptz, timestamptz, int, jsonb, int, text, int, int);
+
+CREATE OR REPLACE FUNCTION save_insight_cache(
+  p_user_id uuid,
+  p_insight_type text,
+  p_content jsonb,
+  p_entries_count int,
+  p_date_start timestamptz DEFAULT NULL,
+  p_date_end timestamptz DEFAULT NULL,
+  p_ttl_hours int DEFAULT NULL,
+  p_entries_snapshot jsonb DEFAULT NULL,
+  p_generation_time_ms int DEFAULT NULL,
+  p_model_version text DEFAULT NULL,
+  p_prompt_tokens int DEFAULT NULL,
+  p_completion_tokens int DEFAULT NULL,
+  p_prompt_version text DEFAULT NULL,
+  p_repair_attempts int DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  new_id uuid;
+  expires timestamptz;
+BEGIN
+  -- Calculate expiry if TTL provided
+  IF p_ttl_hours IS NOT NULL THEN
+    expires := now() + (p_ttl_hours || ' hours')::interval;
+  END IF;
+
+  INSERT INTO user_insights (
+    user_id,
+    insight_type,
+    content,
+    entries_analyzed_count,
+    entries_snapshot,
+    date_range_start,
+    date_range_end,
+    expires_at,
+    generation_time_ms,
+    model_version,
+    prompt_tokens,
+    completion_tokens,
+    prompt_version,
+    repair_attempts
+  ) VALUES (
+    p_user_id,
+    p_insight_type,
+    p_content,
+    p_entries_count,
+    p_entries_snapshot,
+    p_date_start,
+    p_date_end,
+    expires,
+    p_generation_time_ms,
+    p_model_version,
+    p_prompt_tokens,
+    p_completion_tokens,
+    p_prompt_version,
+    p_repair_attempts
+  )
+  RETURNING id INTO new_id;
+
+  IF p_prompt_tokens IS NOT NULL OR p_completion_tokens IS NOT NULL THEN
+    INSERT INTO insight_usage_log (
+      user_id,
+      insight_id,
+      insight_type,
+      model_version,
+      prompt_tokens,
+      completion_tokens,
+      generation_time_ms,
+      prompt_version,
+      repair_attempts
+    ) VALUES (
+      p_user_id,
+      new_id,
+      p_insight_type,
+      p_model_version,
+      COALESCE(p_prompt_tokens, 0),
+      COALESCE(p_completion_tokens, 0),
+      p_generation_time_ms,
+      p_prompt_version,
+      COALESCE(p_repair_attempts, 0)
+    );
+  END IF;
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================
+-- 3. FAILED GENERATIONS
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION log_insight_generation_failure(
+  p_user_id uuid,
+  p_insight_type text,
+  p_prompt_version text,
+  p_model_version text DEFAULT NULL,
+  p_prompt_tokens int DEFAULT 0,
+  p_completion_tokens int DEFAULT 0,
+  p_generation_time_ms int DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot log usage for another user';
+  END IF;
+
+  INSERT INTO insight_usage_log (
+    user_id,
+    insight_type,
+    model_version,
+    prompt_tokens,
+    completion_tokens,
+    generation_time_ms,
+    prompt_version,
+    succeeded
+  ) VALUES (
+    p_user_id,
+    p_insight_type,
+    p_model_version,
+    GREATEST(COALESCE(p_prompt_tokens, 0), 0),
+    GREATEST(COALESCE(p_completion_tokens, 0), 0),
+    p_generation_time_ms,
+    p_prompt_version,
+    false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION log_insight_generation_failure(uuid, text, text, text, int, int, int) TO authenticated;
+
+-- ============================================================
+-- 4. VARIANT COMPARISON (service role / dashboard)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_prompt_version_stats(
+  p_since timestamptz DEFAULT now() - interval '30 days',
+  p_insight_type text DEFAULT NULL
+)
+RETURNS TABLE (
+  prompt_version text,
+  insight_type text,
+  generations int,
+  failures int,
+  failure_rate numeric,
+  repaired int,
+  avg_total_tokens numeric,
+  avg_generation_time_ms numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(l.prompt_version, 'unversioned') AS prompt_version,
+    l.insight_type,
+    COUNT(*)::int AS generations,
+    COUNT(*) FILTER (WHERE NOT l.succeeded)::int AS failures,
+    ROUND(COUNT(*) FILTER (WHERE NOT l.succeeded)::numeric / COUNT(*), 4) AS failure_rate,
+    COUNT(*) FILTER (WHERE l.succeeded AND l.repair_attempts > 0)::int AS repaired,
+    ROUND(AVG(l.prompt_tokens + l.completion_tokens), 1) AS avg_total_tokens,
+    ROUND(AVG(l.generation_time_ms), 1) AS avg_generation_time_ms
+  FROM insight_usage_log l
+  WHERE l.created_at >= p_since
+    AND (p_insight_type IS NULL OR l.insight_type = p_insight_type)
+  GROUP BY COALESCE(l.prompt_version, 'unversioned'), l.insight_type
+  ORDER BY l.insight_type, prompt_version;
+$$;
+
+-- Aggregates across all users: not for app clients
+REVOKE EXECUTE ON FUNCTION get_prompt_version_stats(timestamptz, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_prompt_version_stats(timestamptz, text) TO service_role;
+
+-- ============================================================
+-- 5. COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN user_insights.prompt_version IS 'Prompt registry version that generated this insight (generate-insights/prompts.ts)';
+COMMENT ON COLUMN user_insights.repair_attempts IS 'Re-prompts needed before the response passed validation';
+COMMENT ON COLUMN insight_usage_log.succeeded IS 'False when the response never passed validation (no insight saved)';
+COMMENT ON FUNCTION get_prompt_version_stats IS 'Generations, validation failures and repairs per prompt version (service role only)';
+
+-- ============================================================
+-- 6. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Insight prompt versions enabled';
+  RAISE NOTICE '   - user_insights.prompt_version, repair_attempts';
+  RAISE NOTICE '   - insight_usage_log.prompt_version, repair_attempts, succeeded';
+  RAISE NOTICE '   - log_insight_generation_failure(...)';
+  RAISE NOTICE '   - get_prompt_version_stats(p_since, p_insight_type)';
+END $$;
@@ -0,0 +1,171 @@
+-- ============================================================
+-- Migration: Theme Translations
+-- Date: 2026-10-18
+-- Purpose: Per-locale titles, summaries and keywords for the themes
+--          catalog, so new-user-insights can match and answer in the
+--          user's language
+-- ============================================================
+
+-- translations is keyed by base language:
+--   { "es": { "title": "…", "summary": "…", "keywords": ["…"] }, … }
+-- English stays in the title/summary/keywords columns. Missing languages
+-- (or missing fields) fall back to English. Keywords are matched as
+-- prefixes, Unicode-aware, in lowercase.
+
+-- ============================================================
+-- 1. COLUMN
+-- ============================================================
+
+ALTER TABLE themes
+  ADD COLUMN IF NOT EXISTS translations jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE themes
+  DROP CONSTRAINT IF EXISTS translations_is_object;
+
+ALTER TABLE themes
+  ADD CONSTRAINT translations_is_object
+    CHECK (jsonb_typeof(translations) = 'object');
+
+-- ============================================================
+-- 2. SEED es / fr / de
+-- ============================================================
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Estrés y energía",
+          "summary": "Entender cómo el estrés afecta tu energía y encontrar equilibrio en épocas exigentes.",
+          "keywords": ["estrés", "estresad", "cansad", "agotad", "abrumad", "energía", "descanso", "fatiga", "quemad"] },
+  "fr": { "title": "Stress et énergie",
+          "summary": "Comprendre comment le stress affecte ton énergie et trouver l''équilibre dans les périodes exigeantes.",
+          "keywords": ["stress", "stressé", "fatigué", "épuisé", "débordé", "énergie", "repos", "fatigue", "burn-out", "vidé"] },
+  "de": { "title": "Stress & Energie",
+          "summary": "Verstehen, wie Stress deine Energie beeinflusst, und in fordernden Zeiten Balance finden.",
+          "keywords": ["stress", "gestresst", "müde", "erschöpft", "überfordert", "energie", "ruhe", "ausgebrannt", "burnout"] }
+}'::jsonb WHERE name = 'stress-energy';
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Ansiedad y preocupación",
+          "summary": "Explorar pensamientos ansiosos y patrones de preocupación para encontrar calma y claridad.",
+          "keywords": ["ansiedad", "ansios", "preocupa", "nervios", "pánico", "miedo", "asustad", "inquiet", "tens"] },
+  "fr": { "title": "Anxiété et inquiétude",
+          "summary": "Explorer les pensées anxieuses et les schémas d''inquiétude pour retrouver calme et clarté.",
+          "keywords": ["anxiété", "anxieu", "inquiet", "inquiétude", "nerveu", "panique", "peur", "angoiss", "tendu"] },
+  "de": { "title": "Angst & Sorgen",
+          "summary": "Ängstliche Gedanken und Sorgenmuster erkunden, um Ruhe und Klarheit zu finden.",
+          "keywords": ["angst", "ängstlich", "sorge", "besorgt", "nervös", "panik", "furcht", "unruhig", "angespannt"] }
+}'::jsonb WHERE name = 'anxiety-worry';
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Carrera y propósito",
+          "summary": "Reflexionar sobre el trabajo, las metas profesionales y el sentido de lo que haces.",
+          "keywords": ["trabajo", "empleo", "carrera", "propósito", "metas", "productiv", "profesional", "ambición", "rumbo", "vocación"] },
+  "fr": { "title": "Carrière et sens",
+          "summary": "Réfléchir au travail, aux objectifs de carrière et au sens de ce que tu fais.",
+          "keywords": ["travail", "boulot", "emploi", "carrière", "objectif", "productiv", "professionnel", "ambition", "vocation"] },
+  "de": { "title": "Beruf & Sinn",
+          "summary": "Über Arbeit, berufliche Ziele und den Sinn in deinem Tun nachdenken.",
+          "keywords": ["arbeit", "job", "beruf", "karriere", "ziel", "produktiv", "ehrgeiz", "richtung", "berufung"] }
+}'::jsonb WHERE name = 'career-purpose';
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Relaciones y conexión",
+          "summary": "Navegar las relaciones, construir vínculos y entender la dinámica con los demás.",
+          "keywords": ["relación", "relaciones", "familia", "amig", "pareja", "soledad", "conexión", "social", "amor", "gente"] },
+  "fr": { "title": "Relations et lien",
+          "summary": "Naviguer dans les relations, créer des liens et comprendre les dynamiques avec les autres.",
+          "keywords": ["relation", "famille", "ami", "partenaire", "couple", "seul", "lien", "social", "amour", "gens"] },
+  "de": { "title": "Beziehungen & Verbundenheit",
+          "summary": "Beziehungen gestalten, Verbindungen aufbauen und zwischenmenschliche Dynamiken verstehen.",
+          "keywords": ["beziehung", "familie", "freund", "partner", "einsam", "verbunden", "sozial", "liebe", "menschen"] }
+}'::jsonb WHERE name = 'relationships-connection';
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Confianza y mentalidad",
+          "summary": "Construir confianza en ti y desarrollar una mentalidad de crecimiento.",
+          "keywords": ["confianza", "segur", "autoestima", "insegur", "duda", "valgo", "creer", "mentalidad", "crecimiento", "capaz"] },
+  "fr": { "title": "Confiance et état d''esprit",
+          "summary": "Développer la confiance en soi et un état d''esprit tourné vers la progression.",
+          "keywords": ["confiance", "estime", "insécur", "doute", "mérite", "croire", "mentalité", "progress", "capable"] },
+  "de": { "title": "Selbstvertrauen & Denkweise",
+          "summary": "Selbstvertrauen aufbauen und eine wachstumsorientierte Denkweise entwickeln.",
+          "keywords": ["selbstvertrauen", "selbstbewusst", "selbstwert", "unsicher", "zweifel", "wert", "glauben", "denkweise", "wachstum", "fähig"] }
+}'::jsonb WHERE name = 'confidence-mindset';
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Hábitos y rutina",
+          "summary": "Crear constancia con hábitos diarios y rutinas sostenibles.",
+          "keywords": ["hábito", "rutina", "diari", "constancia", "horario", "mañana", "noche", "patrón", "ritual"] },
+  "fr": { "title": "Habitudes et routine",
+          "summary": "Gagner en régularité grâce à des habitudes quotidiennes et des routines durables.",
+          "keywords": ["habitude", "routine", "quotidien", "régularité", "horaire", "matin", "soir", "rituel"] },
+  "de": { "title": "Gewohnheiten & Routine",
+          "summary": "Beständigkeit durch tägliche Gewohnheiten und nachhaltige Routinen schaffen.",
+          "keywords": ["gewohnheit", "routine", "täglich", "beständig", "zeitplan", "morgen", "abend", "muster", "ritual"] }
+}'::jsonb WHERE name = 'habits-routine';
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Autocompasión",
+          "summary": "Tratarte con amabilidad y soltar la autocrítica dura.",
+          "keywords": ["autocompasión", "amable", "amabilidad", "exigente", "crític", "perdon", "suave", "compasión", "autocuidado", "aceptación"] },
+  "fr": { "title": "Bienveillance envers soi",
+          "summary": "Être bienveillant·e avec toi-même et lâcher l''autocritique sévère.",
+          "keywords": ["bienveillan", "gentil", "douceur", "sévère", "critique", "pardonn", "compassion", "prendre soin", "acceptation"] },
+  "de": { "title": "Selbstmitgefühl",
+          "summary": "Freundlich mit dir selbst umgehen und harte Selbstkritik loslassen.",
+          "keywords": ["selbstmitgefühl", "freundlich", "güte", "hart", "kritisch", "verzeih", "sanft", "mitgefühl", "selbstfürsorge", "akzeptanz"] }
+}'::jsonb WHERE name = 'self-compassion';
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Sentido y valores",
+          "summary": "Descubrir lo que más importa y alinear tu vida con tus valores.",
+          "keywords": ["sentido", "valores", "propósito", "plenitud", "rumbo", "importa", "prioridad", "auténtic", "integridad"] },
+  "fr": { "title": "Sens et valeurs",
+          "summary": "Découvrir ce qui compte le plus et aligner ta vie sur tes valeurs.",
+          "keywords": ["sens", "valeurs", "épanouissement", "direction", "important", "compte", "priorité", "authentique", "intégrité"] },
+  "de": { "title": "Sinn & Werte",
+          "summary": "Herausfinden, was dir am meisten bedeutet, und dein Leben danach ausrichten.",
+          "keywords": ["sinn", "werte", "erfüllung", "richtung", "wichtig", "bedeut", "prioritä", "authentisch", "integrität"] }
+}'::jsonb WHERE name = 'meaning-values';
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Sueño y descanso",
+          "summary": "Entender tus patrones de sueño y la importancia del descanso y la recuperación.",
+          "keywords": ["sueño", "dormir", "duermo", "insomnio", "descanso", "cansad", "agotad", "recupera", "noche"] },
+  "fr": { "title": "Sommeil et repos",
+          "summary": "Comprendre ton sommeil et l''importance du repos et de la récupération.",
+          "keywords": ["sommeil", "dormir", "dors", "insomnie", "repos", "fatigué", "épuisé", "récupér", "nuit"] },
+  "de": { "title": "Schlaf & Erholung",
+          "summary": "Deine Schlafmuster verstehen und wie wichtig Ruhe und Erholung sind.",
+          "keywords": ["schlaf", "schlafen", "schlaflos", "ruhe", "müde", "erschöpft", "erholung", "nacht"] }
+}'::jsonb WHERE name = 'sleep-rest';
+
+UPDATE themes SET translations = '{
+  "es": { "title": "Transiciones de vida",
+          "summary": "Atravesar cambios, finales y nuevos comienzos con resiliencia.",
+          "keywords": ["cambio", "transición", "final", "comienzo", "nuevo", "mudanza", "dejar", "empezar", "incertidumbre", "adapta"] },
+  "fr": { "title": "Transitions de vie",
+          "summary": "Traverser les changements, les fins et les nouveaux départs avec résilience.",
+          "keywords": ["changement", "transition", "la fin", "début", "nouveau", "déménag", "quitter", "commencer", "incertain", "adapt"] },
+  "de": { "title": "Lebensübergänge",
+          "summary": "Veränderungen, Abschiede und Neuanfänge mit Widerstandskraft meistern.",
+          "keywords": ["veränderung", "übergang", "abschied", "anfang", "neu", "umzug", "verlassen", "beginnen", "ungewiss", "anpass"] }
+}'::jsonb WHERE name = 'life-transitions';
+
+-- ============================================================
+-- 3. COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN themes.translations IS 'Per-language title, summary and keywords ({"es": {...}}); English lives in the base columns';
+
+-- ============================================================
+-- 4. VALIDATION
+-- ============================================================
+
+DO $$
+DECLARE
+  translated INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO translated FROM themes WHERE translations ?& ARRAY['es', 'fr', 'de'];
+  RAISE NOTICE '✅ Theme translations enabled';
+  RAISE NOTICE '   - themes.translations (jsonb)';
+  RAISE NOTICE '   - % themes translated to es, fr, de', translated;
+END $$;
@@ -0,0 +1,315 @@
+-- ============================================================
+-- Migration: Insight Generation Flights and Idempotency Keys
+-- Date: 2026-10-18
+-- Purpose: Share one generation between concurrent identical requests,
+--          and replay stored responses for retried Idempotency-Keys
+-- ============================================================
+
+-- A "flight" is one in-progress generation for a request fingerprint
+-- (insight type, period, entry set, language, force flag). The first
+-- request on a cache miss takes it; identical requests that arrive while
+-- it runs wait and receive the same response. A completed flight stays
+-- shareable for a short window to cover requests that missed the cache
+-- just before the result was saved.
+--
+-- Idempotency keys map a client-chosen key to a fingerprint and, once
+-- the generation succeeds, to the stored response, so a retry with the
+-- same key replays it instead of generating again. Failed generations
+-- release both, so the retry runs normally.
+--
+-- In-progress flights expire (locked_until), so a crashed instance never
+-- blocks the user for longer than the TTL.
+
+-- ============================================================
+-- 1. TABLES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS insight_generation_flights (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  fingerprint text NOT NULL,
+  lock_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'in_progress'
+    CHECK (status IN ('in_progress', 'completed')),
+  response jsonb,
+  response_status int,
+  locked_until timestamptz NOT NULL,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (user_id, fingerprint)
+);
+
+CREATE TABLE IF NOT EXISTS insight_idempotency_keys (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  idempotency_key text NOT NULL CHECK (length(idempotency_key) BETWEEN 1 AND 255),
+  fingerprint text NOT NULL,
+  response jsonb,
+  response_status int,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+
+  PRIMARY KEY (user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_insight_idempotency_keys_fingerprint
+  ON insight_idempotency_keys(user_id, fingerprint)
+  WHERE response IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_insight_idempotency_keys_expires
+  ON insight_idempotency_keys(expires_at);
+
+-- Only reachable through the functions below
+ALTER TABLE insight_generation_flights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE insight_idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- 2. LOOKUP (before the cache check)
+-- ============================================================
+
+-- Stored outcome of an idempotency key (no row when unknown or expired)
+CREATE OR REPLACE FUNCTION get_insight_idempotency_key(
+  p_user_id uuid,
+  p_idempotency_key text
+)
+RETURNS TABLE (
+  fingerprint text,
+  response jsonb,
+  response_status int
+) AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot read idempotency keys for another user';
+  END IF;
+
+  RETURN QUERY
+  SELECT k.fingerprint, k.response, k.response_status
+  FROM insight_idempotency_keys k
+  WHERE k.user_id = p_user_id
+    AND k.idempotency_key = p_idempotency_key
+    AND k.expires_at > now();
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- 3. BEGIN (on a cache miss; also polled by waiting requests)
+-- ============================================================
+
+-- state:
+--   'acquired'      Caller generates; lock_id identifies its flight
+--   'replay'        Idempotency key already completed: response attached
+--   'shared'        Identical flight completed: response attached
+--   'wait'          Identical flight in progress: poll again
+--   'key_conflict'  Idempotency key was used for a different request
+CREATE OR REPLACE FUNCTION begin_insight_generation(
+  p_user_id uuid,
+  p_fingerprint text,
+  p_idempotency_key text DEFAULT NULL,
+  p_ttl_seconds int DEFAULT 120,
+  p_share_seconds int DEFAULT 60,
+  p_key_ttl_hours int DEFAULT 24
+)
+RETURNS TABLE (
+  state text,
+  lock_id uuid,
+  response jsonb,
+  response_status int
+) AS $$
+DECLARE
+  key_row insight_idempotency_keys%ROWTYPE;
+  flight insight_generation_flights%ROWTYPE;
+  new_lock_id uuid := gen_random_uuid();
+  acquired_id uuid;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot start a generation for another user';
+  END IF;
+
+  -- Idempotency key: replay, conflict, or claim for this fingerprint
+  IF p_idempotency_key IS NOT NULL THEN
+    INSERT INTO insight_idempotency_keys (user_id, idempotency_key, fingerprint, expires_at)
+    VALUES (p_user_id, p_idempotency_key, p_fingerprint, now() + make_interval(hours => p_key_ttl_hours))
+    ON CONFLICT (user_id, idempotency_key) DO UPDATE
+      SET fingerprint = EXCLUDED.fingerprint,
+          response = NULL,
+          response_status = NULL,
+          created_at = now(),
+          expires_at = EXCLUDED.expires_at
+      WHERE insight_idempotency_keys.expires_at <= now();
+
+    SELECT * INTO key_row
+    FROM insight_idempotency_keys k
+    WHERE k.user_id = p_user_id AND k.idempotency_key = p_idempotency_key;
+
+    IF key_row.fingerprint <> p_fingerprint THEN
+      RETURN QUERY SELECT 'key_conflict'::text, NULL::uuid, NULL::jsonb, NULL::int;
+      RETURN;
+    END IF;
+
+    IF key_row.response IS NOT NULL THEN
+      RETURN QUERY SELECT 'replay'::text, NULL::uuid, key_row.response, key_row.response_status;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Flight: take it when free, expired, or completed outside the share window
+  INSERT INTO insight_generation_flights (user_id, fingerprint, lock_id, locked_until)
+  VALUES (p_user_id, p_fingerprint, new_lock_id, now() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (user_id, fingerprint) DO UPDATE
+    SET lock_id = EXCLUDED.lock_id,
+        status = 'in_progress',
+        response = NULL,
+        response_status = NULL,
+        locked_until = EXCLUDED.locked_until,
+        completed_at = NULL,
+        created_at = now()
+    WHERE (insight_generation_flights.status = 'in_progress'
+           AND insight_generation_flights.locked_until < now())
+       OR (insight_generation_flights.status = 'completed'
+           AND insight_generation_flights.completed_at < now() - make_interval(secs => p_share_seconds))
+  RETURNING insight_generation_flights.lock_id INTO acquired_id;
+
+  IF acquired_id IS NOT NULL THEN
+    RETURN QUERY SELECT 'acquired'::text, acquired_id, NULL::jsonb, NULL::int;
+    RETURN;
+  END IF;
+
+  SELECT * INTO flight
+  FROM insight_generation_flights f
+  WHERE f.user_id = p_user_id AND f.fingerprint = p_fingerprint;
+
+  IF flight.status = 'completed' THEN
+    RETURN QUERY SELECT 'shared'::text, NULL::uuid, flight.response, flight.response_status;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'wait'::text, NULL::uuid, NULL::jsonb, NULL::int;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- 4. COMPLETE / ABORT
+-- ============================================================
+
+-- Store the response for waiters and for every pending key on this fingerprint
+CREATE OR REPLACE FUNCTION complete_insight_generation(
+  p_user_id uuid,
+  p_fingerprint text,
+  p_lock_id uuid,
+  p_response jsonb,
+  p_response_status int DEFAULT 200
+)
+RETURNS boolean AS $$
+DECLARE
+  rows_updated int;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot complete a generation for another user';
+  END IF;
+
+  UPDATE insight_generation_flights
+  SET status = 'completed',
+      response = p_response,
+      response_status = p_response_status,
+      completed_at = now()
+  WHERE user_id = p_user_id
+    AND fingerprint = p_fingerprint
+    AND lock_id = p_lock_id;
+
+  GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+  UPDATE insight_idempotency_keys
+  SET response = p_response,
+      response_status = p_response_status
+  WHERE user_id = p_user_id
+    AND fingerprint = p_fingerprint
+    AND response IS NULL
+    AND expires_at > now();
+
+  RETURN rows_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Release a failed flight and its pending keys so retries generate again
+CREATE OR REPLACE FUNCTION abort_insight_generation(
+  p_user_id uuid,
+  p_fingerprint text,
+  p_lock_id uuid
+)
+RETURNS boolean AS $$
+DECLARE
+  rows_deleted int;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot abort a generation for another user';
+  END IF;
+
+  DELETE FROM insight_generation_flights
+  WHERE user_id = p_user_id
+    AND fingerprint = p_fingerprint
+    AND lock_id = p_lock_id;
+
+  GET DIAGNOSTICS rows_deleted = ROW_COUNT;
+
+  IF rows_deleted > 0 THEN
+    DELETE FROM insight_idempotency_keys
+    WHERE user_id = p_user_id
+      AND fingerprint = p_fingerprint
+      AND response IS NULL;
+  END IF;
+
+  RETURN rows_deleted > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_insight_idempotency_key(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION begin_insight_generation(uuid, text, text, int, int, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_insight_generation(uuid, text, uuid, jsonb, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION abort_insight_generation(uuid, text, uuid) TO authenticated;
+
+-- ============================================================
+-- 5. CLEANUP (service role / scheduled)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION cleanup_insight_generation_flights()
+RETURNS int AS $$
+DECLARE
+  flights_deleted int;
+  keys_deleted int;
+BEGIN
+  DELETE FROM insight_generation_flights
+  WHERE (status = 'in_progress' AND locked_until < now() - interval '1 hour')
+     OR (status = 'completed' AND completed_at < now() - interval '1 hour');
+  GET DIAGNOSTICS flights_deleted = ROW_COUNT;
+
+  DELETE FROM insight_idempotency_keys WHERE expires_at < now();
+  GET DIAGNOSTICS keys_deleted = ROW_COUNT;
+
+  RETURN flights_deleted + keys_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION cleanup_insight_generation_flights() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_insight_generation_flights() TO service_role;
+
+-- ============================================================
+-- 6. COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE insight_generation_flights IS 'One in-progress (or just completed) insight generation per user and request fingerprint';
+COMMENT ON TABLE insight_idempotency_keys IS 'Idempotency-Key -> request fingerprint and stored response (24h)';
+COMMENT ON FUNCTION begin_insight_generation IS 'Returns acquired, replay, shared, wait or key_conflict';
+COMMENT ON FUNCTION complete_insight_generation IS 'Stores the response for waiting requests and pending idempotency keys';
+COMMENT ON FUNCTION abort_insight_generation IS 'Releases a failed flight and its pending idempotency keys';
+
+-- ============================================================
+-- 7. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Insight generation flights created';
+  RAISE NOTICE '   - Tables: insight_generation_flights, insight_idempotency_keys';
+  RAISE NOTICE '   - Functions: get_insight_idempotency_key, begin_insight_generation,';
+  RAISE NOTICE '     complete_insight_generation, abort_insight_generation,';
+  RAISE NOTICE '     cleanup_insight_generation_flights';
+END $$;
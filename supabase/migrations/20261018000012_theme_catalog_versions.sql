@@ -0,0 +1,138 @@
+-- ============================================================
+-- Migration: Theme Catalog Versions
+-- Date: 2026-10-18
+-- Purpose: Version stamp for the themes catalog, so running
+--          new-user-insights instances notice edits and reload it, and
+--          keyword constraints for catalog edits (admin-themes)
+-- ============================================================
+
+-- Every statement that changes `themes` bumps theme_catalog_state.version,
+-- whether it comes from the admin-themes function or the SQL editor.
+-- Instances cache the catalog with the version they loaded and compare it
+-- with get_theme_catalog_version() every few seconds.
+
+-- ============================================================
+-- 1. VERSION STAMP
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS theme_catalog_state (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),  -- Single row
+  version bigint NOT NULL DEFAULT 1,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO theme_catalog_state (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Only reachable through the functions below
+ALTER TABLE theme_catalog_state ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION bump_theme_catalog_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE theme_catalog_state
+  SET version = version + 1,
+      updated_at = now()
+  WHERE id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_bump_theme_catalog_version ON themes;
+CREATE TRIGGER trigger_bump_theme_catalog_version
+  AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON themes
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION bump_theme_catalog_version();
+
+-- ============================================================
+-- 2. LOOKUP
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_theme_catalog_version()
+RETURNS bigint AS $$
+  SELECT version FROM theme_catalog_state WHERE id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_theme_catalog_version() TO authenticated, service_role;
+
+-- ============================================================
+-- 3. KEYWORD CONSTRAINTS
+-- ============================================================
+
+-- Keywords are matched lowercased (new-user-insights/scoring): store them
+-- that way, trimmed, without duplicates, at most 30 of up to 40 characters
+CREATE OR REPLACE FUNCTION theme_keywords_valid(p_keywords text[])
+RETURNS boolean AS $$
+  SELECT array_length(p_keywords, 1) <= 30
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(p_keywords) AS k
+      WHERE k IS NULL
+         OR k <> lower(btrim(k))
+         OR char_length(k) NOT BETWEEN 2 AND 40
+    )
+    AND (SELECT COUNT(DISTINCT k) FROM unnest(p_keywords) AS k) = array_length(p_keywords, 1);
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE themes
+  DROP CONSTRAINT IF EXISTS keywords_valid;
+
+ALTER TABLE themes
+  ADD CONSTRAINT keywords_valid
+    CHECK (theme_keywords_valid(keywords));
+
+-- Names are stored in user_profiles.identified_themes and used as keys
+ALTER TABLE themes
+  DROP CONSTRAINT IF EXISTS name_format;
+
+ALTER TABLE themes
+  ADD CONSTRAINT name_format
+    CHECK (name ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND char_length(name) <= 50);
+
+-- ============================================================
+-- 4. THEMES IN USE
+-- ============================================================
+
+-- validate_theme_names() rejects every later write to a profile whose
+-- identified_themes names a missing theme, so a selected theme can't be
+-- deleted. admin-themes checks first and answers 409 THEME_IN_USE; this
+-- also covers the SQL editor and a selection saved in between.
+CREATE OR REPLACE FUNCTION prevent_selected_theme_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM user_profiles WHERE identified_themes @> ARRAY[OLD.name]) THEN
+    RAISE EXCEPTION 'Theme % is selected in user profiles', OLD.name
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prevent_selected_theme_delete ON themes;
+CREATE TRIGGER trigger_prevent_selected_theme_delete
+  BEFORE DELETE ON themes
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_selected_theme_delete();
+
+-- ============================================================
+-- 5. COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE theme_catalog_state IS 'Single row: version of the themes catalog, bumped by every change to themes';
+COMMENT ON FUNCTION get_theme_catalog_version IS 'Current themes catalog version (new-user-insights cache check)';
+COMMENT ON FUNCTION theme_keywords_valid IS 'themes.keywords: 1-30 distinct, trimmed, lowercase keywords of 2-40 characters';
+
+-- ============================================================
+-- 6. VALIDATION
+-- ============================================================
+
+DO $$
+DECLARE
+  current_version bigint;
+BEGIN
+  SELECT get_theme_catalog_version() INTO current_version;
+  RAISE NOTICE '✅ Theme catalog versions enabled';
+  RAISE NOTICE '   - theme_catalog_state (version %)', current_version;
+  RAISE NOTICE '   - Triggers: trigger_bump_theme_catalog_version, trigger_prevent_selected_theme_delete on themes';
+  RAISE NOTICE '   - Constraints: keywords_valid, name_format';
+END $$;
@@ -0,0 +1,74 @@
+-- ============================================================
+-- Migration: Theme Analysis Replay
+-- Date: 2026-10-18
+-- Purpose: Store the last new-user-insights response on the profile, so a
+--          similar reflection replays it exactly, and let the analysis be
+--          recorded before the user has selected themes
+-- ============================================================
+
+-- new-user-insights allows one fresh analysis per 24 hours:
+--   - Reflection similar to the last one (Jaccard >= 0.7): the stored
+--     response is returned as-is, without re-scoring
+--   - Changed reflection inside the window: RATE_LIMITED with retryAfter
+--   - Otherwise: a fresh analysis, stored here
+-- themes_analyzed_at is the start of the window. Only the function (with
+-- the service role) writes the analysis columns; see section 3.
+
+-- ============================================================
+-- 1. COLUMN
+-- ============================================================
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS themes_analysis jsonb;
+
+ALTER TABLE user_profiles
+  DROP CONSTRAINT IF EXISTS themes_analysis_is_object;
+
+ALTER TABLE user_profiles
+  ADD CONSTRAINT themes_analysis_is_object
+    CHECK (themes_analysis IS NULL OR jsonb_typeof(themes_analysis) = 'object');
+
+-- ============================================================
+-- 2. ANALYSIS BEFORE SELECTION
+-- ============================================================
+
+-- check_themes_analyzed required identified_themes and themes_analyzed_at
+-- together, so the function's save failed for users who had not picked
+-- themes yet (the first analysis). Selected themes still imply an analysis.
+ALTER TABLE user_profiles
+  DROP CONSTRAINT IF EXISTS check_themes_analyzed;
+
+ALTER TABLE user_profiles
+  ADD CONSTRAINT check_themes_analyzed
+    CHECK (identified_themes IS NULL OR themes_analyzed_at IS NOT NULL);
+
+-- ============================================================
+-- 3. WRITE ACCESS
+-- ============================================================
+
+-- "Users can update own profile" covers every column, so a client could
+-- clear themes_analyzed_at to reopen the window (another paid analysis)
+-- or rewrite the stored analysis. Privileges become per column: clients
+-- keep the theme selection (until 20261018000014), the analysis columns
+-- are service role only.
+REVOKE INSERT, UPDATE ON user_profiles FROM anon, authenticated;
+GRANT INSERT (user_id, identified_themes, theme_selection_count) ON user_profiles TO authenticated;
+GRANT UPDATE (identified_themes, theme_selection_count) ON user_profiles TO authenticated;
+
+-- ============================================================
+-- 4. COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN user_profiles.themes_analysis IS 'Last new-user-insights AnalysisResponse (with runnersUp), replayed for similar reflections';
+
+-- ============================================================
+-- 5. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Theme analysis replay enabled';
+  RAISE NOTICE '   - user_profiles.themes_analysis (jsonb)';
+  RAISE NOTICE '   - check_themes_analyzed: analysis no longer requires a selection';
+  RAISE NOTICE '   - Analysis columns: service role writes only';
+END $$;
@@ -0,0 +1,123 @@
+-- ============================================================
+-- Migration: Confirm Theme Selection
+-- Date: 2026-10-18
+-- Purpose: Record the themes a user picks from their last
+--          new-user-insights analysis, atomically, through the
+--          confirm-themes function
+-- ============================================================
+
+-- confirm-themes validates the selection against the stored analysis
+-- (user_profiles.themes_analysis) and reports typed errors. This function
+-- repeats the checks that depend on the row under a lock, so a selection
+-- for an analysis that was replaced in the meantime can't be saved.
+--
+-- state:
+--   'confirmed'      Selection saved
+--   'no_analysis'    No stored analysis to pick from
+--   'stale'          The analysis changed since the client received it
+--   'not_suggested'  A theme wasn't in the analysis (themes or runnersUp)
+--   'invalid_count'  Not within one of the analysis' recommendedCount
+--                    (and 3-6 overall)
+
+-- ============================================================
+-- 1. COLUMN
+-- ============================================================
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS themes_confirmed_at timestamptz;
+
+-- ============================================================
+-- 2. CONFIRM
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION confirm_theme_selection(
+  p_user_id uuid,
+  p_themes text[],
+  p_analyzed_at timestamptz
+)
+RETURNS TABLE (
+  state text,
+  identified_themes text[],
+  theme_selection_count int,
+  themes_confirmed_at timestamptz
+) AS $$
+DECLARE
+  profile user_profiles%ROWTYPE;
+  suggested text[];
+  recommended int;
+  selected int := COALESCE(array_length(p_themes, 1), 0);
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot confirm themes for another user';
+  END IF;
+
+  SELECT * INTO profile
+  FROM user_profiles p
+  WHERE p.user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR profile.themes_analysis IS NULL THEN
+    RETURN QUERY SELECT 'no_analysis'::text, NULL::text[], NULL::int, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  IF profile.themes_analyzed_at IS DISTINCT FROM p_analyzed_at THEN
+    RETURN QUERY SELECT 'stale'::text, NULL::text[], NULL::int, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(array_agg(t->>'name'), '{}') INTO suggested
+  FROM jsonb_array_elements(
+    COALESCE(profile.themes_analysis->'themes', '[]'::jsonb) ||
+    COALESCE(profile.themes_analysis->'runnersUp', '[]'::jsonb)
+  ) AS t;
+
+  IF NOT (p_themes <@ suggested) THEN
+    RETURN QUERY SELECT 'not_suggested'::text, NULL::text[], NULL::int, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  -- Same range as confirm-themes; GREATEST/LEAST ignore a missing
+  -- recommendedCount, leaving 3-6
+  recommended := (profile.themes_analysis->>'recommendedCount')::int;
+  IF selected NOT BETWEEN GREATEST(3, recommended - 1) AND LEAST(6, recommended + 1) THEN
+    RETURN QUERY SELECT 'invalid_count'::text, NULL::text[], NULL::int, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  UPDATE user_profiles p
+  SET identified_themes = p_themes,
+      theme_selection_count = selected,
+      themes_confirmed_at = now()
+  WHERE p.user_id = p_user_id;
+
+  RETURN QUERY SELECT 'confirmed'::text, p_themes, selected, now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION confirm_theme_selection(uuid, text[], timestamptz) TO authenticated;
+
+-- The only writer of the selection: with direct writes, a client could
+-- skip the suggestion and count checks. The analysis columns are already
+-- service role only (20261018000013), and themes_confirmed_at never had a
+-- client grant.
+REVOKE INSERT (identified_themes, theme_selection_count) ON user_profiles FROM authenticated;
+REVOKE UPDATE (identified_themes, theme_selection_count) ON user_profiles FROM authenticated;
+
+-- ============================================================
+-- 3. COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN user_profiles.themes_confirmed_at IS 'When identified_themes was last confirmed through confirm-themes';
+COMMENT ON FUNCTION confirm_theme_selection IS 'Returns confirmed, no_analysis, stale, not_suggested or invalid_count';
+
+-- ============================================================
+-- 4. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Theme selection confirmation enabled';
+  RAISE NOTICE '   - user_profiles.themes_confirmed_at';
+  RAISE NOTICE '   - Function: confirm_theme_selection (only writer of the selection)';
+END $$;
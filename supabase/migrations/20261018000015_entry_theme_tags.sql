@@ -0,0 +1,119 @@
+-- ============================================================
+-- Migration: Entry Theme Tags
+-- Date: 2026-10-18
+-- Purpose: Tag journal entries with the themes they are about, using
+--          the new-user-insights scorer (tag-entries function), and look
+--          entries up by those tags
+-- ============================================================
+
+-- tag-entries writes the best-matching theme names into entries.tags:
+--   - Database webhook on entries (INSERT, UPDATE): tags one entry as it
+--     is written or edited
+--   - Backfill mode: tags entries whose tags are older than the catalog
+--     (tags_catalog_version below get_theme_catalog_version())
+-- Tag writes are conditional on updated_at, so tags computed for an older
+-- version of the text are never saved over a newer one.
+
+-- ============================================================
+-- 1. RESTORE entries.tags
+-- ============================================================
+
+-- Dropped in 20251023000000_cleanup_deprecated_schema.sql as unused.
+ALTER TABLE entries
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+-- Catalog version the tags were computed with; 0 = not tagged yet
+ALTER TABLE entries
+  ADD COLUMN IF NOT EXISTS tags_catalog_version bigint NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_entries_tags ON entries USING gin(tags);
+
+COMMENT ON COLUMN entries.tags IS 'Theme names (themes.name) the entry is about, written by tag-entries';
+COMMENT ON COLUMN entries.tags_catalog_version IS 'theme_catalog_state.version the tags were computed with (0: not tagged)';
+
+-- ============================================================
+-- 2. TAGGING ISN'T AN EDIT
+-- ============================================================
+
+-- Changes:
+-- - Writes that only change tags keep updated_at, so tagging doesn't mark
+--   entries as edited and the conditional tag write stays valid
+-- - Editing the title or text resets tags_catalog_version, so backfill
+--   re-tags the entry when the webhook isn't configured
+CREATE OR REPLACE FUNCTION update_entries_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'tags' - 'tags_catalog_version' - 'updated_at') =
+     (to_jsonb(OLD) - 'tags' - 'tags_catalog_version' - 'updated_at') THEN
+    NEW.updated_at = OLD.updated_at;
+    RETURN NEW;
+  END IF;
+
+  NEW.updated_at = now();
+  IF NEW.text IS DISTINCT FROM OLD.text OR NEW.title IS DISTINCT FROM OLD.title THEN
+    NEW.tags_catalog_version = 0;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================
+-- 3. RECREATE get_entries_by_themes
+-- ============================================================
+
+-- Changes:
+-- - Matches theme names against entries.tags instead of keywords against
+--   the text (ILIKE missed stems and negation, and matched inside words)
+-- - SECURITY INVOKER: RLS applies, as in get_entries_by_date_range
+-- - Archived entries are excluded
+
+DROP FUNCTION IF EXISTS get_entries_by_themes(uuid, text[], int);
+
+CREATE OR REPLACE FUNCTION get_entries_by_themes(
+  p_user_id uuid,
+  p_themes text[],
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  text text,
+  created_at timestamptz,
+  matched_themes text[]
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.title,
+    e.text,
+    e.created_at,
+    ARRAY(SELECT unnest(e.tags) INTERSECT SELECT unnest(p_themes)) AS matched_themes
+  FROM entries e
+  WHERE e.user_id = p_user_id
+    AND e.is_archived = false
+    AND e.tags && p_themes
+  ORDER BY e.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_entries_by_themes(uuid, text[], int) TO authenticated;
+
+COMMENT ON FUNCTION get_entries_by_themes IS 'Non-archived entries tagged with any of p_themes, newest first; RLS-scoped to the caller';
+
+-- ============================================================
+-- 4. VALIDATION
+-- ============================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Entry theme tags enabled';
+  RAISE NOTICE '   - entries.tags restored, entries.tags_catalog_version added';
+  RAISE NOTICE '   - update_entries_updated_at: tag-only writes keep updated_at';
+  RAISE NOTICE '   - get_entries_by_themes: matches entries.tags, SECURITY INVOKER';
+END $$;